@@ -0,0 +1,157 @@
+import * as functions from 'firebase-functions';
+import * as dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+// Dexcom API configuration constants
+export const DEXCOM_API_CONFIG = {
+  SANDBOX_BASE_URL: 'https://sandbox-api.dexcom.com',
+  PRODUCTION_BASE_URL: 'https://api.dexcom.com',
+  TOKEN_EXPIRY_BUFFER_MS: 30 * 60 * 1000, // 30 minutes before expiry
+  REFRESH_TOKEN_EXPIRY_MS: 365 * 24 * 60 * 60 * 1000, // 1 year
+  MAX_EGV_RANGE_MS: 30 * 24 * 60 * 60 * 1000, // Dexcom rejects EGV and record (events, alerts...) requests spanning more than 30 days
+  RATE_LIMIT_MAX_CALLS: 60000, // 60,000 calls per hour per Dexcom docs
+  RATE_LIMIT_WINDOW_MS: 60 * 60 * 1000, // 1 hour
+  RATE_LIMIT_GLOBAL_SHARDS: 10, // The global bucket is split so concurrent calls rarely contend
+  RATE_LIMIT_SHARD_ATTEMPTS: 3, // Shards tried before a call is refused for global capacity
+  RATE_LIMIT_USER_MAX_CALLS: 1000, // Per user per hour, so one account cannot starve the others
+  RATE_LIMIT_USER_BURST: 200, // Enough for a backfill chunk sequence or a manual refresh streak
+  MAX_RETRIES: 3,
+  RETRY_BASE_DELAY_MS: 1000,
+  RETRY_MAX_DELAY_MS: 30 * 1000, // Longer Retry-After values are reported to the caller instead of waited out
+  CALLABLE_RETRY_BUDGET_MS: 15 * 1000, // Total retry wait per callable request, well inside the 60-second onCall timeout
+};
+
+// Dexcom calls made for one date window: /egvs plus events, calibrations, devices and alerts.
+// Reserved up front per window; retries and any other calls are metered as they are made.
+export const DEXCOM_CALLS_PER_SYNC = 5;
+
+// Firestore collection names
+export const COLLECTIONS = {
+  DEXCOM_TOKENS: 'dexcomTokens',
+  GLUCOSE_READINGS: 'glucoseReadings',
+  RATE_LIMITS: 'rateLimits',
+  HEALTH_METRICS: 'healthMetrics',
+  SHEET_CONFIGS: 'sheetConfigs',
+  DEXCOM_EVENTS: 'dexcomEvents',
+  DEXCOM_CALIBRATIONS: 'dexcomCalibrations',
+  DEXCOM_DEVICES: 'dexcomDevices',
+  DEXCOM_ALERTS: 'dexcomAlerts',
+  DEXCOM_SYNC_STATE: 'dexcomSyncState',
+  DEXCOM_BACKFILLS: 'dexcomBackfills',
+  OAUTH_STATES: 'oauthStates',
+};
+
+// OAuth state handling for the Dexcom authorization flow
+export const OAUTH_STATE_CONFIG = {
+  TTL_MS: 10 * 60 * 1000, // Time allowed between starting the flow and the callback
+  NONCE_BYTES: 32,
+  PKCE_VERIFIER_BYTES: 32, // Encodes to a 43-character verifier, the RFC 7636 minimum
+};
+
+// Incremental sync settings for the scheduled Dexcom pull
+export const DEXCOM_SYNC_CONFIG = {
+  MAX_CHUNKS_PER_RUN: 3, // Longer gaps are caught up over subsequent runs
+  INITIAL_LOOKBACK_MS: 60 * 60 * 1000, // First run for a user without a cursor
+  OVERLAP_MS: 60 * 60 * 1000, // Re-fetch window for readings a receiver uploads late
+};
+
+// Historical import run after a user first connects Dexcom
+export const DEXCOM_BACKFILL_CONFIG = {
+  MAX_HISTORY_MS: 90 * 24 * 60 * 60 * 1000, // 90 days
+  CHUNK_MS: 7 * 24 * 60 * 60 * 1000, // Well within the 30-day API limit, and gives steady progress updates
+  TIME_BUDGET_MS: 7 * 60 * 1000, // Hand off to a fresh invocation before the 9-minute function timeout
+  STALE_MS: 15 * 60 * 1000, // A running job not updated for this long is assumed to have crashed
+};
+
+// Maximum number of writes in a single Firestore batch
+export const FIRESTORE_BATCH_LIMIT = 500;
+
+// Clarity CSV import limits
+export const CLARITY_IMPORT_CONFIG = {
+  MAX_READINGS_PER_CALL: 2000,
+  MIN_VALUE: 40,  // Dexcom reports "Low" below this
+  MAX_VALUE: 400, // Dexcom reports "High" above this
+};
+
+// Operator health dashboard aggregation
+export const HEALTH_SUMMARY_CONFIG = {
+  DEFAULT_HOURS: 24,
+  MAX_HOURS: 7 * 24,
+  TARGET_BUCKETS: 24, // The bucket size is a whole number of hours giving at most this many buckets
+  MAX_METRICS: 20000, // Only the newest metrics in the window are read beyond this; the summary reports truncation
+  MAX_ERRORS_PER_OPERATION: 10,
+  STALE_SYNC_MS: 60 * 60 * 1000, // Four missed runs of the 15-minute scheduled pull
+};
+
+// Google Sheets API configuration
+export const SHEETS_API_CONFIG = {
+  BASE_URL: 'https://sheets.googleapis.com/v4/spreadsheets',
+  SPREADSHEET_ID_PATTERN: /^[a-zA-Z0-9_-]{20,100}$/,
+  COLUMN_PATTERN: /^[A-Z]{1,3}$/,
+  MAX_TAB_NAME_LENGTH: 100,
+  MAX_COMMENT_LENGTH: 500,
+  WRITE_SCOPE: 'https://www.googleapis.com/auth/spreadsheets',
+  METADATA_URL: 'http://metadata.google.internal/computeMetadata/v1/instance/service-accounts/default',
+};
+
+export interface DexcomConfig {
+  clientId: string | undefined;
+  clientSecret: string | undefined;
+  redirectUri: string | undefined;
+  useSandbox: boolean;
+  usePkce: boolean;
+  frontendUrl: string;
+}
+
+export function getDexcomConfig(): DexcomConfig {
+  // Try environment variables first, then fall back to Firebase config
+  const clientId = process.env.DEXCOM_CLIENT_ID;
+  const clientSecret = process.env.DEXCOM_CLIENT_SECRET;
+  const redirectUri = process.env.DEXCOM_REDIRECT_URI;
+  const useSandbox = process.env.DEXCOM_USE_SANDBOX === 'false';
+  // PKCE is only sent when enabled, since the token endpoint must accept code_verifier
+  const usePkce = process.env.DEXCOM_USE_PKCE === 'true';
+  const frontendUrl = process.env.DEXCOM_FRONTEND_URL || 'https://glucose-dashboard-409e6.web.app';
+
+  console.log('Dexcom config check:', {
+    clientId: clientId ? '***' : 'MISSING',
+    clientSecret: clientSecret ? '***' : 'MISSING',
+    redirectUri: redirectUri || 'MISSING',
+    useSandbox,
+    usePkce,
+    frontendUrl
+  });
+
+  if (clientId && clientSecret && redirectUri) {
+    return {
+      clientId,
+      clientSecret,
+      redirectUri,
+      useSandbox,
+      usePkce,
+      frontendUrl
+    };
+  }
+
+  // Fall back to Firebase config (legacy)
+  const config = functions.config();
+  console.log('Falling back to Firebase config');
+  return {
+    clientId: config.dexcom?.client_id,
+    clientSecret: config.dexcom?.client_secret,
+    redirectUri: config.dexcom?.redirect_uri,
+    useSandbox: config.dexcom?.use_sandbox === 'false',
+    usePkce: config.dexcom?.use_pkce === 'true',
+    frontendUrl: config.dexcom?.frontend_url || 'https://glucose-dashboard-409e6.web.app'
+  };
+}
+
+export function getDexcomBaseUrl(useSandbox: boolean): string {
+  // Overridden by the emulator test suite to point at its local Dexcom stub
+  if (process.env.DEXCOM_API_BASE_URL) {
+    return process.env.DEXCOM_API_BASE_URL;
+  }
+  return useSandbox ? DEXCOM_API_CONFIG.SANDBOX_BASE_URL : DEXCOM_API_CONFIG.PRODUCTION_BASE_URL;
+}
@@ -0,0 +1,306 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { DEXCOM_API_CONFIG, DexcomConfig, getDexcomBaseUrl, getDexcomConfig } from '../config';
+import { RateLimitExceededError, RateLimitResult, checkRateLimit } from '../rateLimit';
+import { getUserTokens, saveUserTokens } from '../storage/tokens';
+import { DateWindow, splitDateRange, toDexcomParams } from './dates';
+import { DexcomRequestError, handleDexcomError } from './errors';
+import { DexcomDataRange, DexcomGlucoseReading, DexcomTokens } from './types';
+
+export type DexcomRecordEndpoint = 'events' | 'calibrations' | 'devices' | 'alerts';
+
+export interface DexcomClientOptions {
+  // Total time retries may wait across all of this client's requests; unlimited by default.
+  // Callables set CALLABLE_RETRY_BUDGET_MS so retries cannot run into the onCall timeout.
+  retryBudgetMs?: number;
+}
+
+interface DexcomTokenResponse {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number; // Seconds
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) {
+    return null;
+  }
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// POST to the OAuth token endpoint with the app credentials
+async function requestTokens(config: DexcomConfig, grant: Record<string, string>): Promise<DexcomTokenResponse> {
+  const response = await fetch(`${getDexcomBaseUrl(config.useSandbox)}/v2/oauth2/token`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({
+      client_id: config.clientId!,
+      client_secret: config.clientSecret!,
+      ...grant,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new DexcomRequestError('oauth2/token', handleDexcomError(response), await response.text());
+  }
+
+  return await response.json() as DexcomTokenResponse;
+}
+
+/**
+ * Dexcom API v3 client for one connected user. It refreshes the user's tokens before they
+ * expire, signs, meters and retries requests, maps failed responses to DexcomRequestError,
+ * and splits EGV and record queries into windows the API accepts.
+ */
+export class DexcomClient {
+  readonly baseUrl: string;
+  private prepaidCalls = 0; // Calls already taken from the rate limiter by reserveCalls
+  private retryBudgetMs: number;
+
+  private constructor(
+    readonly userId: string,
+    private tokens: DexcomTokens,
+    readonly config: DexcomConfig,
+    options: DexcomClientOptions
+  ) {
+    this.baseUrl = getDexcomBaseUrl(config.useSandbox);
+    this.retryBudgetMs = options.retryBudgetMs ?? Infinity;
+  }
+
+  /**
+   * Client for a user with stored tokens, or null when the user has not connected Dexcom.
+   * Throws when stored tokens exist but cannot be decrypted.
+   */
+  static async forUser(userId: string, options: DexcomClientOptions = {}): Promise<DexcomClient | null> {
+    let tokens: DexcomTokens | null;
+    try {
+      tokens = await getUserTokens(userId);
+    } catch {
+      // getUserTokens has logged the cause and recorded a health metric
+      throw new functions.https.HttpsError('internal', 'Stored Dexcom credentials could not be read. Please try again later.');
+    }
+    return tokens ? new DexcomClient(userId, tokens, getDexcomConfig(), options) : null;
+  }
+
+  /**
+   * Exchange the authorization code from the OAuth callback for a token pair
+   */
+  static async exchangeCode(userId: string, code: string, codeVerifier: string | null): Promise<Partial<DexcomTokens>> {
+    const config = getDexcomConfig();
+    const tokenData = await requestTokens(config, {
+      code,
+      grant_type: 'authorization_code',
+      redirect_uri: config.redirectUri!,
+      ...(codeVerifier && { code_verifier: codeVerifier }),
+    });
+
+    return {
+      userId,
+      accessToken: tokenData.access_token,
+      refreshToken: tokenData.refresh_token,
+      expiresAt: Date.now() + (tokenData.expires_in * 1000),
+      refreshTokenCreatedAt: Date.now(),
+    };
+  }
+
+  get useSandbox(): boolean {
+    return this.config.useSandbox;
+  }
+
+  // Refresh if the access token has expired or expires within TOKEN_EXPIRY_BUFFER_MS
+  async ensureFreshToken(): Promise<void> {
+    if (Date.now() + DEXCOM_API_CONFIG.TOKEN_EXPIRY_BUFFER_MS >= this.tokens.expiresAt) {
+      console.log(`Token expired or expiring soon for user ${this.userId}, refreshing...`);
+      await this.refreshAccessToken();
+    }
+  }
+
+  async refreshAccessToken(): Promise<void> {
+    console.log(`Refreshing access token for user ${this.userId}`);
+
+    let tokenData: DexcomTokenResponse;
+    try {
+      tokenData = await requestTokens(this.config, {
+        refresh_token: this.tokens.refreshToken,
+        grant_type: 'refresh_token',
+      });
+    } catch (error) {
+      if (error instanceof DexcomRequestError) {
+        console.error(`Token refresh failed: ${error.dexcomError.message}`, error.body);
+        throw new functions.https.HttpsError('internal', error.dexcomError.userMessage);
+      }
+      throw error;
+    }
+
+    const newTokens: DexcomTokens = {
+      userId: this.userId,
+      accessToken: tokenData.access_token,
+      refreshToken: tokenData.refresh_token,
+      expiresAt: Date.now() + (tokenData.expires_in * 1000),
+      refreshTokenCreatedAt: Date.now(), // Track when refresh token was created
+      lastRefresh: Date.now(),
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    };
+
+    await saveUserTokens(this.userId, newTokens);
+    this.tokens = newTokens;
+  }
+
+  /**
+   * Take `calls` from the rate limiter ahead of a batch of requests, so a batch is refused
+   * before it starts rather than partway through. Requests draw on the reservation first.
+   */
+  async reserveCalls(calls: number): Promise<RateLimitResult> {
+    const result = await checkRateLimit(this.userId, calls);
+    if (result.allowed) {
+      this.prepaidCalls += calls;
+    }
+    return result;
+  }
+
+  // Charge one Dexcom call, from the reservation if any is left
+  private async meterCall(): Promise<void> {
+    if (this.prepaidCalls > 0) {
+      this.prepaidCalls--;
+      return;
+    }
+    const result = await checkRateLimit(this.userId, 1);
+    if (!result.allowed) {
+      throw new RateLimitExceededError(result.resetTime);
+    }
+  }
+
+  // Whether a retry may wait delayMs, within RETRY_MAX_DELAY_MS and the remaining retry budget
+  private takeRetryDelay(delayMs: number): boolean {
+    if (delayMs > DEXCOM_API_CONFIG.RETRY_MAX_DELAY_MS || delayMs > this.retryBudgetMs) {
+      return false;
+    }
+    this.retryBudgetMs -= delayMs;
+    return true;
+  }
+
+  /**
+   * GET a /v3/users/self endpoint, retrying retryable failures (see handleDexcomError) and
+   * network errors with exponential backoff and jitter. A Retry-After header sets the delay
+   * when present; if the delay is longer than RETRY_MAX_DELAY_MS or the client's retry budget
+   * the response is returned for the caller to handle. Every attempt is charged to the rate
+   * limiter, and RateLimitExceededError is thrown when it refuses one. The raw response is
+   * returned, whether or not it succeeded.
+   */
+  async get(endpoint: string, params?: URLSearchParams): Promise<Response> {
+    const url = `${this.baseUrl}/v3/users/self/${endpoint}${params ? `?${params}` : ''}`;
+
+    for (let attempt = 0; ; attempt++) {
+      const isLastAttempt = attempt >= DEXCOM_API_CONFIG.MAX_RETRIES;
+      let response: Response;
+
+      await this.meterCall();
+
+      try {
+        response = await fetch(url, {
+          headers: {
+            'Authorization': `Bearer ${this.tokens.accessToken}`,
+          },
+        });
+      } catch (error) {
+        const delayMs = DEXCOM_API_CONFIG.RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
+        if (isLastAttempt || !this.takeRetryDelay(delayMs)) {
+          throw error;
+        }
+        console.warn(`Dexcom request failed (attempt ${attempt + 1}), retrying:`, error);
+        await sleep(delayMs);
+        continue;
+      }
+
+      if (response.ok || isLastAttempt || !handleDexcomError(response).isRetryable) {
+        return response;
+      }
+
+      const backoffMs = DEXCOM_API_CONFIG.RETRY_BASE_DELAY_MS * Math.pow(2, attempt) * (1 + Math.random());
+      const delayMs = parseRetryAfter(response.headers.get('Retry-After')) ?? backoffMs;
+      if (!this.takeRetryDelay(delayMs)) {
+        return response;
+      }
+
+      console.warn(`Dexcom returned ${response.status} (attempt ${attempt + 1}), retrying in ${Math.round(delayMs)}ms`);
+      await sleep(delayMs);
+    }
+  }
+
+  // GET an endpoint and parse its JSON, throwing DexcomRequestError for failed responses
+  private async getJson(endpoint: string, params?: URLSearchParams): Promise<Record<string, unknown>> {
+    const response = await this.get(endpoint, params);
+
+    if (!response.ok) {
+      throw new DexcomRequestError(endpoint, handleDexcomError(response), await response.text());
+    }
+
+    return await response.json() as Record<string, unknown>;
+  }
+
+  /**
+   * EGVs for a single window of at most MAX_EGV_RANGE_MS
+   */
+  async getEgvs(window: DateWindow): Promise<DexcomGlucoseReading[]> {
+    const responseData = await this.getJson('egvs', toDexcomParams(window));
+    // Support both old (egvs) and new (records) API response formats
+    return (responseData.records || responseData.egvs || []) as DexcomGlucoseReading[];
+  }
+
+  /**
+   * EGVs for any range, fetched one API-sized window at a time, oldest first
+   */
+  async getEgvsInRange(start: Date, end: Date): Promise<DexcomGlucoseReading[]> {
+    const readings: DexcomGlucoseReading[] = [];
+    for (const window of splitDateRange(start, end, DEXCOM_API_CONFIG.MAX_EGV_RANGE_MS)) {
+      readings.push(...await this.getEgvs(window));
+    }
+    return readings;
+  }
+
+  // Fetch one of the Dexcom v3 record endpoints (events, calibrations, devices, alerts) for a single window
+  async getRecords<T>(endpoint: DexcomRecordEndpoint, window: DateWindow): Promise<T[]> {
+    const responseData = await this.getJson(endpoint, toDexcomParams(window));
+    return (responseData.records || responseData[endpoint] || []) as T[];
+  }
+
+  /**
+   * Records for any range, fetched one API-sized window at a time, oldest first.
+   * The record endpoints share the EGV range limit.
+   */
+  async getRecordsInRange<T>(endpoint: DexcomRecordEndpoint, start: Date, end: Date): Promise<T[]> {
+    const records: T[] = [];
+    for (const window of splitDateRange(start, end, DEXCOM_API_CONFIG.MAX_EGV_RANGE_MS)) {
+      records.push(...await this.getRecords<T>(endpoint, window));
+    }
+    return records;
+  }
+
+  // Get available data ranges from Dexcom API
+  async getDataRange(): Promise<DexcomDataRange | null> {
+    try {
+      console.log('Fetching data range from Dexcom API...');
+      const dataRange = await this.getJson('dataRange') as DexcomDataRange;
+      console.log('Available data range:', JSON.stringify(dataRange, null, 2));
+      return dataRange;
+    } catch (error) {
+      // Running out of rate limit is not the same as having no data range
+      if (error instanceof RateLimitExceededError) {
+        throw error;
+      }
+      console.error('Error fetching data range:', error);
+      return null;
+    }
+  }
+}
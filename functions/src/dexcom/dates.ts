@@ -0,0 +1,108 @@
+import { DexcomDataRange } from './types';
+
+// Dexcom timestamps carry no UTC offset. systemTime is UTC and is what the startDate/endDate
+// query parameters are matched against; displayTime is the receiver's wall-clock time, which
+// follows the device clock and so shifts with DST and travel. Both are parsed explicitly
+// rather than through the function host's time zone. Readings are ordered, queried and
+// bucketed by systemTime; clients apply the user's timezone setting for display.
+
+// A half-open systemTime range for one Dexcom request
+export interface DateWindow {
+  start: Date;
+  end: Date;
+}
+
+// Query parameters are systemTime without an offset, e.g. 2022-02-06T17:12:35
+export function formatDexcomDate(date: Date): string {
+  return date.toISOString().slice(0, 19);
+}
+
+// Parse a Dexcom timestamp as UTC unless it already carries an offset
+export function parseDexcomTime(value: string): Date {
+  const hasOffset = /(Z|[+-]\d{2}:?\d{2})$/i.test(value);
+  return new Date(hasOffset ? value : `${value}Z`);
+}
+
+export function toDexcomParams(window: DateWindow): URLSearchParams {
+  return new URLSearchParams({
+    startDate: formatDexcomDate(window.start),
+    endDate: formatDexcomDate(window.end),
+  });
+}
+
+/**
+ * Split a range into consecutive windows no longer than maxMs. Windows run oldest first,
+ * or newest first for imports that walk backward from the latest data.
+ */
+export function splitDateRange(start: Date, end: Date, maxMs: number, newestFirst: boolean = false): DateWindow[] {
+  const windows: DateWindow[] = [];
+
+  if (newestFirst) {
+    for (let windowEnd = end.getTime(); windowEnd > start.getTime();) {
+      const windowStart = Math.max(start.getTime(), windowEnd - maxMs);
+      windows.push({ start: new Date(windowStart), end: new Date(windowEnd) });
+      windowEnd = windowStart;
+    }
+  } else {
+    for (let windowStart = start.getTime(); windowStart < end.getTime();) {
+      const windowEnd = Math.min(windowStart + maxMs, end.getTime());
+      windows.push({ start: new Date(windowStart), end: new Date(windowEnd) });
+      windowStart = windowEnd;
+    }
+  }
+
+  return windows;
+}
+
+// Adjust date ranges for sandbox environment based on available data
+export function adjustDatesForSandbox(
+  requestedStartDate: Date,
+  requestedEndDate: Date,
+  dataRange: DexcomDataRange | null,
+  useSandbox: boolean
+): { startDate: Date; endDate: Date; adjusted: boolean } {
+
+  if (!useSandbox || !dataRange?.egvs?.start || !dataRange?.egvs?.end) {
+    return { startDate: requestedStartDate, endDate: requestedEndDate, adjusted: false };
+  }
+
+  const availableStart = parseDexcomTime(dataRange.egvs.start.systemTime);
+  const availableEnd = parseDexcomTime(dataRange.egvs.end.systemTime);
+
+  console.log('Sandbox data adjustment:', {
+    requested: `${requestedStartDate.toISOString()} to ${requestedEndDate.toISOString()}`,
+    available: `${availableStart.toISOString()} to ${availableEnd.toISOString()}`
+  });
+
+  // If requested range is completely outside available range, use most recent available data
+  if (requestedStartDate > availableEnd || requestedEndDate < availableStart) {
+    console.log('Requested range outside available data, using most recent available range');
+    // Use the last 12 hours of available data
+    const duration = Math.min(12 * 60 * 60 * 1000, availableEnd.getTime() - availableStart.getTime());
+    return {
+      startDate: new Date(availableEnd.getTime() - duration),
+      endDate: availableEnd,
+      adjusted: true
+    };
+  }
+
+  // Clamp the dates to available range
+  const adjustedStart = new Date(Math.max(requestedStartDate.getTime(), availableStart.getTime()));
+  const adjustedEnd = new Date(Math.min(requestedEndDate.getTime(), availableEnd.getTime()));
+
+  const wasAdjusted = adjustedStart.getTime() !== requestedStartDate.getTime() ||
+                     adjustedEnd.getTime() !== requestedEndDate.getTime();
+
+  if (wasAdjusted) {
+    console.log('Dates adjusted to fit available data:', {
+      adjustedStart: adjustedStart.toISOString(),
+      adjustedEnd: adjustedEnd.toISOString()
+    });
+  }
+
+  return {
+    startDate: adjustedStart,
+    endDate: adjustedEnd,
+    adjusted: wasAdjusted
+  };
+}
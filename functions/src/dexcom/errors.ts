@@ -0,0 +1,45 @@
+import { DexcomApiError } from './types';
+
+const DEXCOM_ERROR_CODES: Record<number, { message: string; userMessage: string; isRetryable: boolean }> = {
+  400: { message: 'Bad Request - Invalid parameters', userMessage: 'Invalid request parameters', isRetryable: false },
+  401: { message: 'Unauthorized - Invalid or expired token', userMessage: 'Authentication expired. Please reconnect.', isRetryable: false },
+  403: { message: 'Forbidden - Insufficient permissions', userMessage: 'Access denied. Please check permissions.', isRetryable: false },
+  404: { message: 'Not Found - Endpoint or resource not found', userMessage: 'Requested data not found', isRetryable: false },
+  409: { message: 'Conflict - Resource conflict', userMessage: 'Data conflict occurred', isRetryable: false },
+  429: { message: 'Too Many Requests - Rate limit exceeded', userMessage: 'Too many requests. Please try again later.', isRetryable: true },
+  500: { message: 'Internal Server Error - Dexcom API error', userMessage: 'Dexcom service temporarily unavailable', isRetryable: true },
+  502: { message: 'Bad Gateway - Upstream server error', userMessage: 'Service temporarily unavailable', isRetryable: true },
+  503: { message: 'Service Unavailable - Dexcom maintenance', userMessage: 'Dexcom service under maintenance', isRetryable: true },
+  504: { message: 'Gateway Timeout - Request timeout', userMessage: 'Request timed out. Please try again.', isRetryable: true }
+};
+
+export function handleDexcomError(response: Response): DexcomApiError {
+  const status = response.status;
+  const errorInfo = DEXCOM_ERROR_CODES[status] || {
+    message: `HTTP ${status} - Unknown error`,
+    userMessage: 'An unexpected error occurred',
+    isRetryable: false
+  };
+
+  return {
+    status,
+    message: errorInfo.message,
+    userMessage: errorInfo.userMessage,
+    isRetryable: errorInfo.isRetryable
+  };
+}
+
+/**
+ * A failed Dexcom API response, mapped through handleDexcomError. The response body is kept
+ * for logging, since Dexcom explains rejected parameters there.
+ */
+export class DexcomRequestError extends Error {
+  constructor(readonly endpoint: string, readonly dexcomError: DexcomApiError, readonly body: string) {
+    super(`/${endpoint}: ${dexcomError.message}`);
+    this.name = 'DexcomRequestError';
+  }
+
+  get status(): number {
+    return this.dexcomError.status;
+  }
+}
@@ -0,0 +1,255 @@
+import * as admin from 'firebase-admin';
+import { DEXCOM_API_CONFIG, DEXCOM_BACKFILL_CONFIG, DEXCOM_CALLS_PER_SYNC, DEXCOM_SYNC_CONFIG } from '../config';
+import { RateLimitExceededError } from '../rateLimit';
+import { recordHealthMetric } from '../storage/healthMetrics';
+import {
+  storeDexcomAlerts,
+  storeDexcomCalibrations,
+  storeDexcomDevices,
+  storeDexcomEvents,
+  storeGlucoseReadings,
+} from '../storage/readings';
+import {
+  DexcomBackfill,
+  DexcomBackfillUpdate,
+  getSyncCursor,
+  requeueStalledBackfills,
+  saveSyncCursor,
+  updateBackfill,
+} from '../storage/syncState';
+import { DexcomClient } from './client';
+import { DateWindow, parseDexcomTime, splitDateRange } from './dates';
+import { DexcomRequestError } from './errors';
+import {
+  DexcomAlertRecord,
+  DexcomCalibrationRecord,
+  DexcomDeviceRecord,
+  DexcomEventRecord,
+  DexcomSupplementalSyncResult,
+} from './types';
+
+// Whether a failed supplemental fetch may succeed if the window is fetched again later
+const isRetryableFailure = (error: unknown): boolean =>
+  !(error instanceof DexcomRequestError) || error.dexcomError.isRetryable;
+
+/**
+ * Pull events, calibrations, devices and alerts for the same window as an EGV fetch,
+ * split into API-sized windows like the EGVs. Each endpoint is independent, so one
+ * failing does not discard the others; the failures are counted so callers can fetch
+ * the window again rather than move past it.
+ */
+export async function syncDexcomSupplementalData(client: DexcomClient, window: DateWindow): Promise<DexcomSupplementalSyncResult> {
+  const { userId } = client;
+  const [events, calibrations, devices, alerts] = await Promise.allSettled([
+    client.getRecordsInRange<DexcomEventRecord>('events', window.start, window.end)
+      .then(async records => { await storeDexcomEvents(userId, records); return records.length; }),
+    client.getRecordsInRange<DexcomCalibrationRecord>('calibrations', window.start, window.end)
+      .then(async records => { await storeDexcomCalibrations(userId, records); return records.length; }),
+    client.getRecordsInRange<DexcomDeviceRecord>('devices', window.start, window.end)
+      .then(async records => { await storeDexcomDevices(userId, records); return records.length; }),
+    client.getRecordsInRange<DexcomAlertRecord>('alerts', window.start, window.end)
+      .then(async records => { await storeDexcomAlerts(userId, records); return records.length; }),
+  ]);
+
+  const countOf = (result: PromiseSettledResult<number>, endpoint: string): number => {
+    if (result.status === 'fulfilled') {
+      return result.value;
+    }
+    console.error(`Failed to sync Dexcom ${endpoint} for user ${userId}:`, result.reason);
+    return 0;
+  };
+
+  const counts = {
+    events: countOf(events, 'events'),
+    calibrations: countOf(calibrations, 'calibrations'),
+    devices: countOf(devices, 'devices'),
+    alerts: countOf(alerts, 'alerts'),
+  };
+
+  const rejected = [events, calibrations, devices, alerts]
+    .filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+  const failures = rejected.length;
+  await recordHealthMetric('dexcom_supplemental_sync', failures === 0, undefined,
+    failures > 0 ? `${failures} of 4 endpoints failed` : undefined);
+
+  console.log(`Synced Dexcom supplemental data for user ${userId}:`, counts);
+  return {
+    counts,
+    failures,
+    retryableFailures: rejected.filter(result => isRetryableFailure(result.reason)).length,
+  };
+}
+
+/**
+ * Fetch EGVs from the user's sync cursor forward in API-sized chunks.
+ * The cursor only advances after a chunk and its supplemental records are stored, so a
+ * failed or skipped run is retried from the same point instead of leaving a permanent gap.
+ * Supplemental endpoints that fail for good, e.g. with 403, do not hold the cursor back.
+ */
+export async function syncUserFromCursor(client: DexcomClient): Promise<void> {
+  const { userId } = client;
+  const now = Date.now();
+  const cursor = (await getSyncCursor(userId))?.getTime() ?? now - DEXCOM_SYNC_CONFIG.INITIAL_LOOKBACK_MS;
+  const windows = splitDateRange(new Date(cursor), new Date(now), DEXCOM_API_CONFIG.MAX_EGV_RANGE_MS)
+    .slice(0, DEXCOM_SYNC_CONFIG.MAX_CHUNKS_PER_RUN);
+
+  for (const window of windows) {
+    const rateLimitCheck = await client.reserveCalls(DEXCOM_CALLS_PER_SYNC);
+    if (!rateLimitCheck.allowed) {
+      console.warn(`Rate limit exceeded, pausing sync for user ${userId}`);
+      return;
+    }
+
+    let glucoseData;
+    try {
+      glucoseData = await client.getEgvs(window);
+    } catch (error) {
+      if (error instanceof RateLimitExceededError) {
+        console.warn(`Rate limit exceeded, pausing sync for user ${userId}`);
+        return;
+      }
+      if (error instanceof DexcomRequestError) {
+        console.error(`Failed to fetch data for user ${userId}:`, error.status);
+        return;
+      }
+      throw error;
+    }
+
+    if (glucoseData.length > 0) {
+      await storeGlucoseReadings(userId, glucoseData);
+      console.log(`Stored ${glucoseData.length} new readings for user ${userId}`);
+    }
+
+    const supplemental = await syncDexcomSupplementalData(client, window);
+    if (supplemental.retryableFailures > 0) {
+      console.warn(`Supplemental sync failed for user ${userId}, retrying the window next run`);
+      return;
+    }
+
+    // Stay within the overlap window of the chunk end so late uploads are picked up next run,
+    // but never behind the newest reading already stored
+    const chunkStart = window.start.getTime();
+    const latestSystemTime = Math.max(chunkStart, ...glucoseData.map(reading => parseDexcomTime(reading.systemTime).getTime()));
+    const nextCursor = Math.max(latestSystemTime, window.end.getTime() - DEXCOM_SYNC_CONFIG.OVERLAP_MS);
+    await saveSyncCursor(userId, new Date(nextCursor));
+  }
+}
+
+/**
+ * Walk backward from the newest available EGV in chunks, storing each one and
+ * recording progress, until the history window is covered or the time budget runs out
+ */
+export async function runBackfill(userId: string, backfillRef: FirebaseFirestore.DocumentReference): Promise<void> {
+  const startedAt = Date.now();
+  const backfill = (await backfillRef.get()).data() as DexcomBackfill;
+  const update = (fields: DexcomBackfillUpdate) => updateBackfill(backfillRef, fields);
+
+  const client = await DexcomClient.forUser(userId);
+  if (!client) {
+    await update({ status: 'failed', error: 'Dexcom is no longer connected' });
+    return;
+  }
+  await client.ensureFreshToken();
+
+  let { rangeStart, rangeEnd, cursor } = backfill;
+  if (!rangeStart || !rangeEnd || !cursor) {
+    let dataRange;
+    try {
+      dataRange = await client.getDataRange();
+    } catch (error) {
+      if (!(error instanceof RateLimitExceededError)) {
+        throw error;
+      }
+      console.warn(`Rate limit exceeded, pausing backfill for user ${userId}`);
+      await update({ status: 'paused' });
+      return;
+    }
+    const egvStart = dataRange?.egvs?.start?.systemTime;
+    const egvEnd = dataRange?.egvs?.end?.systemTime;
+
+    if (!egvStart || !egvEnd) {
+      console.log(`No EGV history available for user ${userId}`);
+      await update({ status: 'completed' });
+      return;
+    }
+
+    const endMs = parseDexcomTime(egvEnd).getTime();
+    const startMs = Math.max(parseDexcomTime(egvStart).getTime(), endMs - DEXCOM_BACKFILL_CONFIG.MAX_HISTORY_MS);
+    rangeStart = admin.firestore.Timestamp.fromMillis(startMs);
+    rangeEnd = admin.firestore.Timestamp.fromMillis(endMs);
+    cursor = rangeEnd;
+    await update({ rangeStart, rangeEnd, cursor });
+  }
+
+  let readingsImported = backfill.readingsImported;
+
+  for (const window of splitDateRange(rangeStart.toDate(), cursor.toDate(), DEXCOM_BACKFILL_CONFIG.CHUNK_MS, true)) {
+    if (Date.now() - startedAt > DEXCOM_BACKFILL_CONFIG.TIME_BUDGET_MS) {
+      // Re-queueing re-triggers the worker in a fresh invocation
+      await update({ status: 'queued' });
+      return;
+    }
+
+    const rateLimitCheck = await client.reserveCalls(DEXCOM_CALLS_PER_SYNC);
+    if (!rateLimitCheck.allowed) {
+      console.warn(`Rate limit exceeded, pausing backfill for user ${userId}`);
+      await update({ status: 'paused' });
+      return;
+    }
+
+    let glucoseData;
+    try {
+      glucoseData = await client.getEgvs(window);
+    } catch (error) {
+      if (error instanceof RateLimitExceededError) {
+        console.warn(`Rate limit exceeded, pausing backfill for user ${userId}`);
+        await update({ status: 'paused' });
+        return;
+      }
+      if (!(error instanceof DexcomRequestError)) {
+        throw error;
+      }
+      const { dexcomError } = error;
+      console.error(`Backfill chunk failed for user ${userId}: ${dexcomError.message}`);
+      await recordHealthMetric('dexcom_backfill', false, Date.now() - startedAt, dexcomError.message);
+      await update(dexcomError.isRetryable
+        ? { status: 'paused' }
+        : { status: 'failed', error: dexcomError.userMessage });
+      return;
+    }
+
+    if (glucoseData.length > 0) {
+      await storeGlucoseReadings(userId, glucoseData);
+    }
+
+    // Keep the cursor before the chunk so the resumed backfill fetches it again
+    const supplemental = await syncDexcomSupplementalData(client, window);
+    if (supplemental.retryableFailures > 0) {
+      console.warn(`Supplemental sync failed for user ${userId}, pausing backfill`);
+      await update({ status: 'paused' });
+      return;
+    }
+
+    readingsImported += glucoseData.length;
+    cursor = admin.firestore.Timestamp.fromDate(window.start);
+    await update({ cursor, readingsImported });
+  }
+
+  // Let the scheduled pull continue from where the history ends
+  if (!(await getSyncCursor(userId))) {
+    await saveSyncCursor(userId, rangeEnd.toDate());
+  }
+
+  await update({ status: 'completed' });
+  await recordHealthMetric('dexcom_backfill', true, Date.now() - startedAt);
+  console.log(`Backfill completed for user ${userId}: ${readingsImported} readings`);
+}
+
+// Re-queue backfills paused by rate limits or left running by a crashed invocation
+export async function resumeStalledBackfills(): Promise<void> {
+  const resumed = await requeueStalledBackfills(Date.now() - DEXCOM_BACKFILL_CONFIG.STALE_MS);
+
+  if (resumed > 0) {
+    console.log(`Resumed ${resumed} stalled backfills`);
+  }
+}
@@ -0,0 +1,98 @@
+export interface DexcomTokens {
+  userId: string;
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number;
+  refreshTokenCreatedAt: number;
+  lastRefresh?: number;
+  createdAt: FirebaseFirestore.FieldValue;
+  updatedAt: FirebaseFirestore.FieldValue;
+}
+
+export interface DexcomGlucoseReading {
+  systemTime: string;
+  displayTime: string;
+  value: number;
+  trend: string;
+  trendRate?: number;
+}
+
+// Records from the /events, /calibrations, /devices and /alerts endpoints
+export interface DexcomEventRecord {
+  recordId: string;
+  systemTime: string;
+  displayTime: string;
+  eventStatus: string; // created | updated | deleted
+  eventType: string; // carbs | insulin | exercise | health | bloodGlucose | notes | unknown
+  eventSubType?: string | null;
+  value?: string | null;
+  unit?: string | null;
+  transmitterId?: string;
+  displayDevice?: string;
+}
+
+export interface DexcomCalibrationRecord {
+  recordId: string;
+  systemTime: string;
+  displayTime: string;
+  value: number;
+  unit: string;
+  transmitterId?: string;
+  displayDevice?: string;
+}
+
+export interface DexcomDeviceRecord {
+  transmitterId?: string;
+  transmitterGeneration: string;
+  displayDevice: string;
+  displayApp?: string;
+  lastUploadDate: string;
+}
+
+export interface DexcomAlertRecord {
+  recordId: string;
+  systemTime: string;
+  displayTime: string;
+  alertName: string;
+  alertState: string;
+  transmitterId?: string;
+  displayDevice?: string;
+}
+
+export interface DexcomSupplementalCounts {
+  events: number;
+  calibrations: number;
+  devices: number;
+  alerts: number;
+}
+
+export interface DexcomSupplementalSyncResult {
+  counts: DexcomSupplementalCounts;
+  failures: number; // Endpoints that failed
+  retryableFailures: number; // Of those, failures a later attempt may get past, e.g. outages and rate limits
+}
+
+interface DexcomTimeBounds {
+  start?: {
+    systemTime: string;
+    displayTime: string;
+  };
+  end?: {
+    systemTime: string;
+    displayTime: string;
+  };
+}
+
+// Response of the /dataRange endpoint
+export interface DexcomDataRange {
+  egvs?: DexcomTimeBounds;
+  calibrations?: DexcomTimeBounds;
+  events?: DexcomTimeBounds;
+}
+
+export interface DexcomApiError {
+  status: number;
+  message: string;
+  userMessage: string;
+  isRetryable: boolean;
+}
@@ -0,0 +1,30 @@
+import * as functions from 'firebase-functions';
+import { HEALTH_SUMMARY_CONFIG } from '../config';
+import { buildHealthSummary } from '../healthSummary';
+
+/**
+ * Operator health summary: success rate, latency percentiles and error breakdown for each
+ * recorded operation over the last `hours` hours, plus scheduled sync freshness per user.
+ * Restricted to accounts with the `admin` custom claim.
+ */
+export const adminHealthSummary = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  if (context.auth.token.admin !== true) {
+    throw new functions.https.HttpsError('permission-denied', 'Admin access required');
+  }
+
+  const hours = data?.hours ?? HEALTH_SUMMARY_CONFIG.DEFAULT_HOURS;
+  if (!Number.isInteger(hours) || hours < 1 || hours > HEALTH_SUMMARY_CONFIG.MAX_HOURS) {
+    throw new functions.https.HttpsError('invalid-argument', `hours must be a whole number from 1 to ${HEALTH_SUMMARY_CONFIG.MAX_HOURS}`);
+  }
+
+  try {
+    return await buildHealthSummary(hours);
+  } catch (error) {
+    console.error('Error building health summary:', error);
+    throw new functions.https.HttpsError('internal', 'Failed to build health summary');
+  }
+});
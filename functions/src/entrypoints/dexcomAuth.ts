@@ -0,0 +1,230 @@
+import * as functions from 'firebase-functions';
+import * as cors from 'cors';
+import { DEXCOM_API_CONFIG, getDexcomBaseUrl, getDexcomConfig } from '../config';
+import { DexcomClient } from '../dexcom/client';
+import { DexcomRequestError } from '../dexcom/errors';
+import { consumeState, generateSecureState } from '../security/oauthState';
+import { deleteBackfill, queueBackfill } from '../storage/syncState';
+import { deleteUserTokens, getUserTokenStatus, saveUserTokens } from '../storage/tokens';
+
+// Configure CORS
+const corsHandler = cors({ origin: true });
+
+/**
+ * Initiate OAuth flow with Dexcom
+ */
+export const dexcomOAuthStart = functions.https.onCall(async (_, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const userId = context.auth.uid;
+  console.log(`Starting OAuth flow for user ${userId}`);
+
+  const config = getDexcomConfig();
+
+  if (!config.clientId || !config.redirectUri) {
+    throw new functions.https.HttpsError('failed-precondition', 'Dexcom API credentials not configured');
+  }
+
+  // Generate signed, single-use state parameter for CSRF and replay protection
+  let state: string;
+  let codeChallenge: string | null;
+  try {
+    ({ state, codeChallenge } = await generateSecureState(userId, config.usePkce));
+  } catch (error) {
+    console.error('Failed to generate OAuth state:', error);
+    throw new functions.https.HttpsError('failed-precondition', 'Dexcom sign-in is not configured');
+  }
+
+  // Construct OAuth URL
+  const baseUrl = getDexcomBaseUrl(config.useSandbox);
+  const authUrl = `${baseUrl}/v2/oauth2/login?` +
+    `client_id=${config.clientId}&` +
+    `redirect_uri=${encodeURIComponent(config.redirectUri)}&` +
+    `response_type=code&` +
+    `scope=offline_access&` +
+    `state=${state}` +
+    (codeChallenge ? `&code_challenge=${codeChallenge}&code_challenge_method=S256` : '');
+
+  console.log('Generated OAuth URL for user', userId);
+  return { authUrl };
+});
+
+/**
+ * Handle OAuth callback and exchange code for tokens
+ */
+export const dexcomOAuthCallback = functions.https.onRequest(async (req, res) => {
+  return corsHandler(req, res, async () => {
+    const config = getDexcomConfig();
+
+    try {
+      const { code, state, error } = req.query;
+
+      console.log('OAuth callback received:', { hasCode: !!code, hasState: !!state, error });
+
+      // Validate configuration early
+      if (!config.clientId || !config.clientSecret || !config.redirectUri) {
+        console.error('Missing Dexcom configuration:', {
+          hasClientId: !!config.clientId,
+          hasClientSecret: !!config.clientSecret,
+          hasRedirectUri: !!config.redirectUri
+        });
+        res.redirect(`${config.frontendUrl || 'http://localhost:5173'}/dexcom?error=configuration_error`);
+        return;
+      }
+
+      if (error) {
+        console.error('OAuth error:', error);
+        res.redirect(`${config.frontendUrl}/dexcom?error=${encodeURIComponent(error as string)}`);
+        return;
+      }
+
+      if (!code || !state) {
+        console.error('Missing code or state');
+        res.redirect(`${config.frontendUrl}/dexcom?error=missing_parameters`);
+        return;
+      }
+
+      // Verify the signed state and consume its nonce; the user ID is taken only from a verified state
+      const stateValidation = await consumeState(state as string);
+      if (!stateValidation.valid) {
+        console.error('State validation failed:', stateValidation.reason);
+        res.redirect(`${config.frontendUrl}/dexcom?error=invalid_state`);
+        return;
+      }
+      const { userId, codeVerifier } = stateValidation;
+
+      console.log('Exchanging code for tokens...');
+      let tokens;
+      try {
+        tokens = await DexcomClient.exchangeCode(userId, code as string, codeVerifier);
+      } catch (exchangeError) {
+        if (!(exchangeError instanceof DexcomRequestError)) {
+          throw exchangeError;
+        }
+        console.error(`Token exchange failed: ${exchangeError.dexcomError.message}`, {
+          status: exchangeError.status,
+          body: exchangeError.body
+        });
+        res.redirect(`${config.frontendUrl}/dexcom?error=token_exchange_failed`);
+        return;
+      }
+
+      console.log(`Token exchange successful, attempting to store tokens for user ${userId}`);
+      try {
+        await saveUserTokens(userId, tokens);
+        console.log(`Tokens stored successfully for user ${userId}`);
+        await queueBackfill(userId);
+      } catch (storageError) {
+        console.error(`Failed to store tokens or queue the backfill for user ${userId}:`, storageError);
+        // Don't leave the user connected without a history import; they can reconnect from scratch
+        await deleteUserTokens(userId).catch(cleanupError =>
+          console.error(`Failed to remove tokens for user ${userId}:`, cleanupError)
+        );
+        res.redirect(`${config.frontendUrl}/dexcom?error=connection_failed`);
+        return;
+      }
+
+      // Redirect to frontend with success
+      res.redirect(`${config.frontendUrl}/dexcom?success=true`);
+
+    } catch (error) {
+      console.error('Error in OAuth callback:', error);
+      console.error('Error details:', {
+        message: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : 'No stack trace',
+        name: error instanceof Error ? error.name : 'Unknown'
+      });
+      res.redirect(`${config.frontendUrl}/dexcom?error=internal_error`);
+    }
+  });
+});
+
+/**
+ * Check Dexcom connection status
+ */
+export const dexcomConnectionStatus = functions.https.onCall(async (_data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const userId = context.auth.uid;
+  console.log(`Checking connection status for user ${userId}`);
+
+  try {
+    // Status is projected from plaintext metadata; tokens never leave the server
+    const tokens = await getUserTokenStatus(userId);
+
+    if (!tokens) {
+      console.log(`No tokens found for user ${userId}`);
+      return { connected: false };
+    }
+
+    const now = Date.now();
+    const isExpired = now >= tokens.expiresAt;
+    const willExpireSoon = now + DEXCOM_API_CONFIG.TOKEN_EXPIRY_BUFFER_MS >= tokens.expiresAt;
+
+    // Check if refresh token is nearing 1-year expiration
+    const refreshTokenAge = now - tokens.refreshTokenCreatedAt;
+    const refreshTokenExpiringSoon = refreshTokenAge > (DEXCOM_API_CONFIG.REFRESH_TOKEN_EXPIRY_MS - 7 * 24 * 60 * 60 * 1000);
+
+    console.log(`Tokens found for user ${userId}, expired: ${isExpired}`);
+    return {
+      connected: true,
+      tokenExpired: isExpired,
+      tokenExpiringSoon: willExpireSoon,
+      refreshTokenExpiringSoon,
+      expiresAt: tokens.expiresAt,
+      refreshTokenCreatedAt: tokens.refreshTokenCreatedAt
+    };
+  } catch (error) {
+    console.error(`Error checking connection status for user ${userId}:`, error);
+    // Return false instead of throwing to avoid breaking the UI
+    return { connected: false, error: 'Database connection failed' };
+  }
+});
+
+/**
+ * Refresh Dexcom access token
+ */
+export const dexcomRefreshToken = functions.https.onCall(async (_data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const client = await DexcomClient.forUser(context.auth.uid);
+
+  if (!client) {
+    throw new functions.https.HttpsError('not-found', 'No refresh token found. Please reconnect to Dexcom.');
+  }
+
+  try {
+    await client.refreshAccessToken();
+    return { success: true };
+  } catch (error) {
+    console.error('Error refreshing token:', error);
+    throw error;
+  }
+});
+
+/**
+ * Disconnect from Dexcom
+ */
+export const dexcomDisconnect = functions.https.onCall(async (_data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const userId = context.auth.uid;
+
+  try {
+    await deleteUserTokens(userId);
+    await deleteBackfill(userId);
+    console.log(`Dexcom disconnected for user ${userId}`);
+    return { success: true };
+  } catch (error) {
+    console.error('Error disconnecting from Dexcom:', error);
+    throw new functions.https.HttpsError('internal', 'Failed to disconnect from Dexcom');
+  }
+});
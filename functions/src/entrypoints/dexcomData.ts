@@ -0,0 +1,356 @@
+import * as functions from 'firebase-functions';
+import { CLARITY_IMPORT_CONFIG, DEXCOM_API_CONFIG, DEXCOM_CALLS_PER_SYNC } from '../config';
+import { DexcomClient } from '../dexcom/client';
+import { adjustDatesForSandbox, formatDexcomDate, parseDexcomTime, splitDateRange } from '../dexcom/dates';
+import { DexcomRequestError } from '../dexcom/errors';
+import { syncDexcomSupplementalData } from '../dexcom/sync';
+import { DexcomDataRange, DexcomGlucoseReading } from '../dexcom/types';
+import { RateLimitExceededError } from '../rateLimit';
+import { recordHealthMetric } from '../storage/healthMetrics';
+import { storeGlucoseReadings } from '../storage/readings';
+
+/**
+ * Fetch glucose data from Dexcom API v3
+ *
+ * This function fetches estimated glucose values (EGVs) from the Dexcom API
+ * and stores them in Firestore for real-time access by the frontend.
+ *
+ * @param data - Optional object containing:
+ *   - startDate (string): ISO 8601 date string for start of range
+ *   - endDate (string): ISO 8601 date string for end of range
+ *   - If not provided, defaults to last 12 hours
+ * @param context - Firebase Functions context with user authentication
+ *
+ * @returns Promise<{glucoseData: DexcomGlucoseReading[], rateLimitRemaining: number, rateLimitResetTime: number}>
+ *
+ * Date Format Requirements:
+ * - Accepts ISO 8601 instants, e.g. "2025-01-09T12:34:56.789Z"; they are sent to Dexcom as UTC systemTime
+ * - Supports date ranges up to 1 year, fetched from Dexcom in 30-day windows
+ * - Dates cannot be before 2020-01-01
+ * - Dates cannot be in the future
+ *
+ * Rate Limiting:
+ * - Dexcom API allows 60,000 calls per hour
+ * - Function implements client-side rate limiting
+ *
+ * Error Handling:
+ * - Validates all date parameters
+ * - Provides specific error messages for date-related issues
+ * - Automatically refreshes expired tokens
+ *
+ * @throws {functions.https.HttpsError} Various errors for authentication, validation, and API issues
+ */
+export const dexcomFetchGlucoseData = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const userId = context.auth.uid;
+  const client = await DexcomClient.forUser(userId, { retryBudgetMs: DEXCOM_API_CONFIG.CALLABLE_RETRY_BUDGET_MS });
+
+  if (!client) {
+    throw new functions.https.HttpsError('not-found', 'No Dexcom tokens found. Please connect to Dexcom first.');
+  }
+
+  // Refresh token if expired or expiring soon
+  await client.ensureFreshToken();
+
+  const startTime = Date.now();
+
+  try {
+    const { startDate, endDate } = data || {};
+
+    // Log incoming request parameters for debugging
+    console.log(`dexcomFetchGlucoseData called for user ${userId}`, {
+      hasStartDate: !!startDate,
+      hasEndDate: !!endDate,
+      startDateValue: startDate,
+      endDateValue: endDate,
+      dataKeys: Object.keys(data || {})
+    });
+
+    // For sandbox environment, first get available data ranges
+    let dataRange: DexcomDataRange | null = null;
+    if (client.useSandbox) {
+      console.log('Sandbox environment detected, fetching available data ranges...');
+      dataRange = await client.getDataRange();
+
+      if (!dataRange) {
+        console.warn('Could not fetch data range for sandbox environment');
+      }
+    }
+
+    // Parse and validate date parameters
+    let parsedStartDate: Date;
+    let parsedEndDate: Date;
+
+    if (startDate && endDate) {
+      // Use provided dates
+      parsedStartDate = new Date(startDate);
+      parsedEndDate = new Date(endDate);
+    } else {
+      // Default to last 12 hours if no dates provided (matches default frontend timeRange)
+      const now = new Date();
+      parsedStartDate = new Date(now.getTime() - 12 * 60 * 60 * 1000); // 12 hours ago
+      parsedEndDate = now;
+    }
+
+    // Validate dates
+    if (isNaN(parsedStartDate.getTime()) || isNaN(parsedEndDate.getTime())) {
+      console.error('Invalid date format detected:', {
+        startDate: startDate,
+        endDate: endDate,
+        parsedStartDate: parsedStartDate,
+        parsedEndDate: parsedEndDate
+      });
+      throw new functions.https.HttpsError('invalid-argument', 'Invalid date format provided');
+    }
+
+    // Additional validation - ensure dates are reasonable
+    const minAllowedDate = new Date('2020-01-01'); // Dexcom G7 wasn't available before 2020
+
+    if (parsedStartDate < minAllowedDate) {
+      throw new functions.https.HttpsError('invalid-argument', 'Start date cannot be before 2020');
+    }
+
+    if (parsedEndDate < minAllowedDate) {
+      throw new functions.https.HttpsError('invalid-argument', 'End date cannot be before 2020');
+    }
+
+    if (parsedStartDate >= parsedEndDate) {
+      throw new functions.https.HttpsError('invalid-argument', 'Start date must be before end date');
+    }
+
+    // Longer ranges would mean dozens of Dexcom calls for one request
+    const maxRangeMs = 365 * 24 * 60 * 60 * 1000; // 1 year max
+    if (parsedEndDate.getTime() - parsedStartDate.getTime() > maxRangeMs) {
+      throw new functions.https.HttpsError('invalid-argument', 'Date range cannot exceed 1 year');
+    }
+
+    // For sandbox environment, adjust dates based on available data
+    let finalStartDate = parsedStartDate;
+    let finalEndDate = parsedEndDate;
+    let datesWereAdjusted = false;
+
+    if (client.useSandbox && dataRange) {
+      const adjustment = adjustDatesForSandbox(parsedStartDate, parsedEndDate, dataRange, client.useSandbox);
+      finalStartDate = adjustment.startDate;
+      finalEndDate = adjustment.endDate;
+      datesWereAdjusted = adjustment.adjusted;
+
+      if (datesWereAdjusted) {
+        console.log('Dates were adjusted for sandbox environment');
+      }
+    } else {
+      // For production environment, ensure dates are not in the future
+      const now = new Date();
+
+      if (parsedStartDate > now) {
+        throw new functions.https.HttpsError('invalid-argument', 'Start date cannot be in the future');
+      }
+      if (parsedEndDate > now) {
+        console.log('Clamping end date to now');
+        finalEndDate = now; // Clamp end date to now
+      }
+    }
+
+    const formattedStartDate = formatDexcomDate(finalStartDate);
+    const formattedEndDate = formatDexcomDate(finalEndDate);
+
+    console.log(`Fetching glucose data for user ${userId}`);
+    console.log(`Date range: ${formattedStartDate} to ${formattedEndDate}`);
+    console.log(`Using sandbox: ${client.useSandbox}`);
+    if (datesWereAdjusted) {
+      console.log('⚠️  Dates were adjusted for sandbox environment - using available data range instead of requested dates');
+    }
+
+    // Reserve the calls for every window up front; retries are metered as they happen
+    const windowCount = splitDateRange(finalStartDate, finalEndDate, DEXCOM_API_CONFIG.MAX_EGV_RANGE_MS).length;
+    const rateLimitCheck = await client.reserveCalls(windowCount * DEXCOM_CALLS_PER_SYNC);
+    if (!rateLimitCheck.allowed) {
+      await recordHealthMetric('dexcom_glucose_fetch', false, 0, 'Rate limit exceeded');
+      throw new functions.https.HttpsError('resource-exhausted', 'API rate limit exceeded. Please try again later.');
+    }
+
+    let glucoseData: DexcomGlucoseReading[];
+    try {
+      glucoseData = await client.getEgvsInRange(finalStartDate, finalEndDate);
+    } catch (error) {
+      if (!(error instanceof DexcomRequestError)) {
+        throw error;
+      }
+
+      const responseTime = Date.now() - startTime;
+      console.error(`Dexcom API error: ${error.dexcomError.message}`, {
+        status: error.status,
+        body: error.body,
+        dateRange: `${formattedStartDate} to ${formattedEndDate}`,
+        userId: userId
+      });
+
+      // Enhanced error handling for date-related issues
+      if (error.status === 400 && error.body.includes('date')) {
+        await recordHealthMetric('dexcom_glucose_fetch', false, responseTime, 'Invalid date parameters');
+        throw new functions.https.HttpsError('invalid-argument',
+          `Invalid date parameters sent to Dexcom API. Sent: ${formattedStartDate} to ${formattedEndDate}. API response: ${error.body}`);
+      }
+
+      await recordHealthMetric('dexcom_glucose_fetch', false, responseTime, error.dexcomError.message);
+      throw new functions.https.HttpsError('failed-precondition', error.dexcomError.userMessage);
+    }
+
+    const responseTime = Date.now() - startTime;
+    console.log(`Successfully fetched ${glucoseData.length} glucose readings`);
+
+    if (glucoseData.length > 0) {
+      console.log(`Data range: ${glucoseData[0].systemTime} to ${glucoseData[glucoseData.length - 1].systemTime}`);
+    }
+
+    // Store glucose data in Firestore
+    try {
+      await storeGlucoseReadings(userId, glucoseData);
+      console.log(`✅ Successfully stored ${glucoseData.length} readings in Firestore`);
+    } catch (error) {
+      console.error(`❌ Failed to store glucose readings:`, error);
+      throw new functions.https.HttpsError('internal', 'Failed to store glucose data');
+    }
+
+    // Receiver-entered events, calibrations, devices and alerts for the same window
+    const { counts: supplementalCounts } = await syncDexcomSupplementalData(client, { start: finalStartDate, end: finalEndDate });
+
+    // Log additional context if no data was found
+    if (glucoseData.length === 0) {
+      console.log('No glucose data found - this could indicate:');
+
+      if (client.useSandbox) {
+        console.log('📦 SANDBOX ENVIRONMENT:');
+        console.log('• Sandbox has limited test data for specific date ranges only');
+        console.log('• Data repeats every 10-day sensor session cycle');
+        console.log('• Use /dataRange endpoint to see available dates');
+        if (dataRange) {
+          console.log('• Available data range:', {
+            start: dataRange.egvs?.start?.systemTime,
+            end: dataRange.egvs?.end?.systemTime
+          });
+        }
+        if (datesWereAdjusted) {
+          console.log('• Dates were automatically adjusted but still no data found');
+        }
+      } else {
+        console.log('🏥 PRODUCTION ENVIRONMENT:');
+        console.log('• No glucose readings in the requested time range');
+        console.log('• Dexcom sensor may not be active or transmitting');
+        console.log('• User may need to wait for sensor warm-up period');
+      }
+
+      console.log('• Date format or timezone issues with API request');
+      console.log(`• Requested date range: ${formattedStartDate} to ${formattedEndDate}`);
+      console.log(`• Range duration: ${(finalEndDate.getTime() - finalStartDate.getTime()) / (1000 * 60 * 60)} hours`);
+    }
+
+    await recordHealthMetric('dexcom_glucose_fetch', true, responseTime);
+
+    return {
+      glucoseData,
+      supplementalCounts,
+      rateLimitRemaining: rateLimitCheck.remaining,
+      rateLimitResetTime: rateLimitCheck.resetTime,
+      // Include sandbox-specific information
+      sandbox: client.useSandbox,
+      datesAdjusted: datesWereAdjusted,
+      adjustedDateRange: datesWereAdjusted ? {
+        originalStart: startDate,
+        originalEnd: endDate,
+        adjustedStart: formattedStartDate,
+        adjustedEnd: formattedEndDate
+      } : undefined,
+      availableDataRange: client.useSandbox && dataRange ? {
+        start: dataRange.egvs?.start?.systemTime,
+        end: dataRange.egvs?.end?.systemTime
+      } : undefined
+    };
+
+  } catch (error) {
+    const responseTime = Date.now() - startTime;
+    console.error('Error fetching Dexcom glucose data:', error);
+
+    if (error instanceof functions.https.HttpsError) {
+      throw error;
+    }
+
+    // Retries or the sandbox data range used up the calls reserved for this request
+    if (error instanceof RateLimitExceededError) {
+      await recordHealthMetric('dexcom_glucose_fetch', false, responseTime, 'Rate limit exceeded');
+      throw new functions.https.HttpsError('resource-exhausted', 'API rate limit exceeded. Please try again later.');
+    }
+
+    await recordHealthMetric('dexcom_glucose_fetch', false, responseTime, error instanceof Error ? error.message : 'Unknown error');
+    throw new functions.https.HttpsError('internal', 'Failed to fetch glucose data');
+  }
+});
+
+/**
+ * Import EGVs parsed from a Dexcom Clarity CSV export
+ */
+export const dexcomImportClarityCsv = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const userId = context.auth.uid;
+  const readings: unknown = data?.readings;
+
+  if (!Array.isArray(readings) || readings.length === 0) {
+    throw new functions.https.HttpsError('invalid-argument', 'readings must be a non-empty array');
+  }
+
+  if (readings.length > CLARITY_IMPORT_CONFIG.MAX_READINGS_PER_CALL) {
+    throw new functions.https.HttpsError(
+      'invalid-argument',
+      `At most ${CLARITY_IMPORT_CONFIG.MAX_READINGS_PER_CALL} readings can be imported per call`
+    );
+  }
+
+  const startTime = Date.now();
+  const validReadings: DexcomGlucoseReading[] = [];
+
+  for (const reading of readings) {
+    const systemTime = typeof reading?.systemTime === 'string' ? parseDexcomTime(reading.systemTime) : new Date(NaN);
+    const displayTime = typeof reading?.displayTime === 'string' ? parseDexcomTime(reading.displayTime) : new Date(NaN);
+    const value = reading?.value;
+    const trendRate = reading?.trendRate;
+
+    const isValid = !isNaN(systemTime.getTime()) &&
+      !isNaN(displayTime.getTime()) &&
+      systemTime.getTime() <= startTime &&
+      typeof value === 'number' &&
+      value >= CLARITY_IMPORT_CONFIG.MIN_VALUE &&
+      value <= CLARITY_IMPORT_CONFIG.MAX_VALUE &&
+      (trendRate === undefined || (typeof trendRate === 'number' && isFinite(trendRate)));
+
+    if (!isValid) continue;
+
+    validReadings.push({
+      systemTime: systemTime.toISOString(),
+      displayTime: reading.displayTime,
+      value: Math.round(value),
+      trend: typeof reading.trend === 'string' ? reading.trend : 'NotComputable',
+      trendRate,
+    });
+  }
+
+  try {
+    await storeGlucoseReadings(userId, validReadings);
+    await recordHealthMetric('dexcom_clarity_import', true, Date.now() - startTime);
+
+    console.log(`Imported ${validReadings.length} Clarity readings for user ${userId}`);
+    return {
+      imported: validReadings.length,
+      rejected: readings.length - validReadings.length
+    };
+  } catch (error) {
+    console.error('Error importing Clarity readings:', error);
+    await recordHealthMetric('dexcom_clarity_import', false, Date.now() - startTime, error instanceof Error ? error.message : 'Unknown error');
+    throw new functions.https.HttpsError('internal', 'Failed to import Clarity readings');
+  }
+});
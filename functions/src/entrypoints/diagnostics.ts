@@ -0,0 +1,147 @@
+import * as functions from 'firebase-functions';
+import { DEXCOM_API_CONFIG, getDexcomConfig } from '../config';
+import { DexcomClient } from '../dexcom/client';
+import { toDexcomParams } from '../dexcom/dates';
+
+/**
+ * Test function to verify Firebase Functions are working
+ */
+export const testFunction = functions.https.onCall(async () => {
+  const config = getDexcomConfig();
+  return {
+    success: true,
+    message: 'Firebase Functions is working!',
+    timestamp: Date.now(),
+    dexcomConfigured: !!(config.clientId && config.clientSecret && config.redirectUri),
+    environment: {
+      hasClientId: !!config.clientId,
+      hasClientSecret: !!config.clientSecret,
+      hasRedirectUri: !!config.redirectUri,
+      useSandbox: config.useSandbox,
+      frontendUrl: config.frontendUrl
+    }
+  };
+});
+
+/**
+ * Test function to return raw Dexcom API response without storing in Firestore
+ * Use this for debugging the data structure and API response
+ */
+export const dexcomTestRawData = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const userId = context.auth.uid;
+  const client = await DexcomClient.forUser(userId, { retryBudgetMs: DEXCOM_API_CONFIG.CALLABLE_RETRY_BUDGET_MS });
+
+  if (!client) {
+    throw new functions.https.HttpsError('not-found', 'No Dexcom tokens found. Please connect to Dexcom first.');
+  }
+
+  // Refresh token if expired
+  await client.ensureFreshToken();
+
+  const startTime = Date.now();
+
+  try {
+    const { startDate, endDate } = data || {};
+
+    console.log(`=== DEXCOM TEST RAW DATA FUNCTION ===`);
+    console.log(`User ID: ${userId}`);
+    console.log(`Start Date: ${startDate}`);
+    console.log(`End Date: ${endDate}`);
+
+    // Use default date range if not provided
+    let parsedStartDate: Date;
+    let parsedEndDate: Date;
+
+    if (startDate && endDate) {
+      parsedStartDate = new Date(startDate);
+      parsedEndDate = new Date(endDate);
+    } else {
+      const now = new Date();
+      parsedStartDate = new Date(now.getTime() - 12 * 60 * 60 * 1000); // 12 hours ago
+      parsedEndDate = now;
+    }
+
+    const params = toDexcomParams({ start: parsedStartDate, end: parsedEndDate });
+
+    console.log(`Making API call to: ${client.baseUrl}/v3/users/self/egvs?${params}`);
+
+    const response = await client.get('egvs', params);
+
+    const responseTime = Date.now() - startTime;
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`API Error: ${response.status} - ${errorText}`);
+      throw new functions.https.HttpsError('failed-precondition', `API Error: ${response.status}`);
+    }
+
+    const responseData = await response.json();
+
+    // Support both old (egvs) and new (records) API response formats
+    const glucoseData = responseData.records || responseData.egvs || [];
+
+    console.log(`Test API Response: ${response.status} - ${glucoseData.length} readings found`);
+
+    return {
+      success: true,
+      statusCode: response.status,
+      responseTime,
+      rawResponse: responseData,
+      parsedGlucoseData: glucoseData,
+      dataLength: glucoseData.length,
+      sandbox: client.useSandbox,
+      dateRange: {
+        start: params.get('startDate'),
+        end: params.get('endDate')
+      },
+      // Debug info about API format
+      apiFormat: responseData.records ? 'NEW (records)' : responseData.egvs ? 'OLD (egvs)' : 'UNKNOWN'
+    };
+
+  } catch (error) {
+    const responseTime = Date.now() - startTime;
+    console.error('Error in test function:', error);
+    console.error('Response time:', responseTime);
+    throw new functions.https.HttpsError('internal', 'Failed to fetch test data');
+  }
+});
+
+/**
+ * Simple HTTP test endpoint to check configuration
+ */
+export const testConfig = functions.https.onRequest((req, res) => {
+  res.set('Access-Control-Allow-Origin', '*');
+  res.set('Access-Control-Allow-Methods', 'GET, POST');
+  res.set('Access-Control-Allow-Headers', 'Content-Type');
+
+  try {
+    const config = getDexcomConfig();
+    res.json({
+      success: true,
+      message: 'Configuration test',
+      timestamp: Date.now(),
+      dexcomConfigured: !!(config.clientId && config.clientSecret && config.redirectUri),
+      environment: {
+        hasClientId: !!config.clientId,
+        hasClientSecret: !!config.clientSecret,
+        hasRedirectUri: !!config.redirectUri,
+        useSandbox: config.useSandbox,
+        frontendUrl: config.frontendUrl,
+        processEnv: {
+          hasClientId: !!process.env.DEXCOM_CLIENT_ID,
+          hasClientSecret: !!process.env.DEXCOM_CLIENT_SECRET,
+          hasRedirectUri: !!process.env.DEXCOM_REDIRECT_URI
+        }
+      }
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
@@ -0,0 +1,86 @@
+import * as functions from 'firebase-functions';
+import { COLLECTIONS } from '../config';
+import { DexcomClient } from '../dexcom/client';
+import { resumeStalledBackfills, runBackfill, syncUserFromCursor } from '../dexcom/sync';
+import { deleteExpiredOAuthStates } from '../security/oauthState';
+import { recordHealthMetric } from '../storage/healthMetrics';
+import { claimBackfill, updateBackfill } from '../storage/syncState';
+import { listConnectedUserIds } from '../storage/tokens';
+
+/**
+ * Scheduled function to pull glucose data for all connected users
+ */
+export const scheduledGlucoseDataPull = functions.pubsub.schedule('every 15 minutes').onRun(async () => {
+  console.log('Starting scheduled glucose data pull...');
+
+  try {
+    // Get all users with Dexcom tokens
+    const userIds = await listConnectedUserIds();
+
+    if (userIds.length === 0) {
+      console.log('No users with Dexcom tokens found');
+      return;
+    }
+
+    const pullPromises = userIds.map(async (userId) => {
+      try {
+        console.log(`Pulling data for user ${userId}`);
+
+        // Decrypting also re-wraps documents still on a rotated-out key; a key that is no
+        // longer configured throws and is logged below
+        const client = await DexcomClient.forUser(userId);
+        if (!client) {
+          console.warn(`User ${userId} disconnected during the pull, skipping`);
+          return;
+        }
+
+        await client.ensureFreshToken();
+        await syncUserFromCursor(client);
+
+      } catch (error) {
+        console.error(`Error pulling data for user ${userId}:`, error);
+      }
+    });
+
+    await Promise.all(pullPromises);
+    console.log('Completed scheduled glucose data pull');
+
+    await resumeStalledBackfills();
+    await deleteExpiredOAuthStates();
+
+  } catch (error) {
+    console.error('Error in scheduled glucose data pull:', error);
+  }
+});
+
+/**
+ * Run a queued historical backfill. Each invocation works until its time budget is
+ * spent and then re-queues itself, which triggers the next invocation.
+ */
+export const dexcomBackfillWorker = functions
+  .runWith({ timeoutSeconds: 540 })
+  .firestore.document(`${COLLECTIONS.DEXCOM_BACKFILLS}/{userId}`)
+  .onWrite(async (change, context) => {
+    if (!change.after.exists || change.after.data()?.status !== 'queued') {
+      return;
+    }
+
+    const userId = context.params.userId as string;
+    const backfillRef = change.after.ref;
+
+    if (!(await claimBackfill(backfillRef))) {
+      return;
+    }
+
+    try {
+      await runBackfill(userId, backfillRef);
+    } catch (error) {
+      console.error(`Backfill failed for user ${userId}:`, error);
+      await recordHealthMetric('dexcom_backfill', false, undefined, error instanceof Error ? error.message : 'Unknown error');
+      // The document is gone if the user disconnected mid-import
+      await updateBackfill(backfillRef, {
+        status: 'failed',
+        error: 'Importing history failed. Reconnect Dexcom to try again.',
+      }).catch(() => undefined);
+    }
+  });
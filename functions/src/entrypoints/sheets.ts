@@ -0,0 +1,213 @@
+import * as functions from 'firebase-functions';
+import { SHEETS_API_CONFIG } from '../config';
+import {
+  columnIndex,
+  getServiceAccountEmail,
+  getSheetRange,
+  getSheetsApiKey,
+  getSheetsWriteToken,
+  validateSheetConfig,
+} from '../sheets';
+import { recordHealthMetric } from '../storage/healthMetrics';
+import { deleteSheetConfig, getSheetConfig, saveSheetConfig } from '../storage/sheetConfigs';
+
+/**
+ * Get the caller's linked Google Sheet, or null when none is linked
+ */
+export const sheetsGetConfig = functions.https.onCall(async (_data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const [config, serviceAccountEmail] = await Promise.all([
+    getSheetConfig(context.auth.uid),
+    getServiceAccountEmail(),
+  ]);
+  if (!config) {
+    return { config: null, serviceAccountEmail };
+  }
+
+  return {
+    config: {
+      spreadsheetId: config.spreadsheetId,
+      tabName: config.tabName,
+      columns: config.columns,
+    },
+    serviceAccountEmail
+  };
+});
+
+/**
+ * Link or update the caller's Google Sheet
+ */
+export const sheetsSaveConfig = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const config = validateSheetConfig(data);
+
+  try {
+    await saveSheetConfig(context.auth.uid, config);
+    return { success: true };
+  } catch (error) {
+    console.error('Error saving sheet config:', error);
+    throw new functions.https.HttpsError('internal', 'Failed to save sheet configuration');
+  }
+});
+
+/**
+ * Unlink the caller's Google Sheet
+ */
+export const sheetsDeleteConfig = functions.https.onCall(async (_data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  try {
+    await deleteSheetConfig(context.auth.uid);
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting sheet config:', error);
+    throw new functions.https.HttpsError('internal', 'Failed to unlink sheet');
+  }
+});
+
+/**
+ * Fetch the caller's sheet rows through the server-side API key.
+ * Rows are returned as [dateTime, glucoseLevel, comment, dayAverage] regardless of the column mapping.
+ */
+export const sheetsFetchReadings = functions.https.onCall(async (_data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const config = await getSheetConfig(context.auth.uid);
+  if (!config) {
+    return { configured: false, rows: [] };
+  }
+
+  const apiKey = getSheetsApiKey();
+  if (!apiKey) {
+    throw new functions.https.HttpsError('failed-precondition', 'Google Sheets API key not configured');
+  }
+
+  const { columns } = config;
+  const { range, offset } = getSheetRange(config);
+  const startTime = Date.now();
+
+  try {
+    const url = `${SHEETS_API_CONFIG.BASE_URL}/${config.spreadsheetId}/values/${encodeURIComponent(range)}?key=${apiKey}`;
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      await recordHealthMetric('sheets_fetch', false, Date.now() - startTime, `HTTP ${response.status}`);
+      if (response.status === 429) {
+        throw new functions.https.HttpsError('resource-exhausted', 'Rate limit exceeded. Please wait a moment before refreshing.');
+      }
+      if (response.status === 403 || response.status === 404) {
+        throw new functions.https.HttpsError(
+          'failed-precondition',
+          'Spreadsheet not found or not shared. Share it with "Anyone with the link can view" and check the tab name.'
+        );
+      }
+      throw new functions.https.HttpsError('internal', `Google Sheets API error: ${response.status}`);
+    }
+
+    const result = await response.json() as { values?: string[][] };
+    const cell = (row: string[], column: string | null) =>
+      column === null ? '' : row[columnIndex(column) - offset] ?? '';
+    const rows = (result.values ?? []).map(row => [
+      cell(row, columns.dateTime),
+      cell(row, columns.glucoseLevel),
+      cell(row, columns.comment),
+      cell(row, columns.dayAverage),
+    ]);
+
+    await recordHealthMetric('sheets_fetch', true, Date.now() - startTime);
+    return { configured: true, rows };
+  } catch (error) {
+    if (error instanceof functions.https.HttpsError) {
+      throw error;
+    }
+    console.error('Error fetching sheet rows:', error);
+    await recordHealthMetric('sheets_fetch', false, Date.now() - startTime, error instanceof Error ? error.message : 'Unknown error');
+    throw new functions.https.HttpsError('internal', 'Failed to fetch sheet data');
+  }
+});
+
+/**
+ * Append a logged reading to the caller's sheet. Requires the sheet to be shared
+ * with the functions' service account as an editor.
+ */
+export const sheetsAppendReading = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const dateTime = typeof data?.dateTime === 'string' ? data.dateTime.trim() : '';
+  const glucoseLevel = data?.glucoseLevel;
+  const comment = typeof data?.comment === 'string' ? data.comment.trim() : '';
+
+  if (!dateTime || dateTime.length > 40) {
+    throw new functions.https.HttpsError('invalid-argument', 'dateTime is required');
+  }
+  if (typeof glucoseLevel !== 'number' || !isFinite(glucoseLevel) || glucoseLevel <= 0 || glucoseLevel >= 1000) {
+    throw new functions.https.HttpsError('invalid-argument', 'glucoseLevel must be a number in mg/dL');
+  }
+  if (comment.length > SHEETS_API_CONFIG.MAX_COMMENT_LENGTH) {
+    throw new functions.https.HttpsError('invalid-argument', 'Comment is too long');
+  }
+
+  const config = await getSheetConfig(context.auth.uid);
+  if (!config) {
+    throw new functions.https.HttpsError('failed-precondition', 'No Google Sheet linked');
+  }
+
+  const { columns } = config;
+  const { range, offset, width } = getSheetRange(config);
+  const row: (string | number)[] = new Array(width).fill('');
+  row[columnIndex(columns.dateTime) - offset] = dateTime;
+  row[columnIndex(columns.glucoseLevel) - offset] = Math.round(glucoseLevel);
+  if (columns.comment !== null) {
+    // Keep comments as text so they are never evaluated as formulas
+    row[columnIndex(columns.comment) - offset] = /^[=+\-@]/.test(comment) ? `'${comment}` : comment;
+  }
+  const startTime = Date.now();
+
+  try {
+    const accessToken = await getSheetsWriteToken();
+    const url = `${SHEETS_API_CONFIG.BASE_URL}/${config.spreadsheetId}/values/${encodeURIComponent(range)}:append` +
+      '?valueInputOption=USER_ENTERED&insertDataOption=INSERT_ROWS';
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ values: [row] }),
+    });
+
+    if (!response.ok) {
+      await recordHealthMetric('sheets_append', false, Date.now() - startTime, `HTTP ${response.status}`);
+      if (response.status === 403 || response.status === 404) {
+        const email = await getServiceAccountEmail();
+        throw new functions.https.HttpsError(
+          'permission-denied',
+          `Share the sheet with ${email ?? 'the app\'s service account'} as an editor to log readings to it`
+        );
+      }
+      throw new functions.https.HttpsError('internal', `Google Sheets API error: ${response.status}`);
+    }
+
+    await recordHealthMetric('sheets_append', true, Date.now() - startTime);
+    return { success: true };
+  } catch (error) {
+    if (error instanceof functions.https.HttpsError) {
+      throw error;
+    }
+    console.error('Error appending to sheet:', error);
+    await recordHealthMetric('sheets_append', false, Date.now() - startTime, error instanceof Error ? error.message : 'Unknown error');
+    throw new functions.https.HttpsError('internal', 'Failed to add reading to sheet');
+  }
+});
@@ -0,0 +1,7 @@
+import * as admin from 'firebase-admin';
+
+// Initialize Firebase Admin
+admin.initializeApp();
+
+// Initialize Firestore
+export const db = admin.firestore();
@@ -0,0 +1,180 @@
+import { HEALTH_SUMMARY_CONFIG } from './config';
+import { HealthMetric, listHealthMetricsSince } from './storage/healthMetrics';
+import { DexcomBackfillStatus, listBackfillStatuses, listSyncStates } from './storage/syncState';
+import { listConnectedUserIds } from './storage/tokens';
+
+export interface ErrorCount {
+  message: string;
+  count: number;
+}
+
+export interface HealthStats {
+  total: number;
+  failures: number;
+  successRate: number | null; // null when nothing was recorded
+  p50Ms: number | null; // Latency percentiles over timed operations only
+  p95Ms: number | null;
+}
+
+export interface HealthBucket extends HealthStats {
+  start: number; // Epoch ms
+  errors: ErrorCount[];
+}
+
+export interface OperationHealth extends HealthStats {
+  operation: string;
+  errors: ErrorCount[];
+  buckets: HealthBucket[];
+}
+
+export interface SyncFreshness {
+  userId: string;
+  cursor: number | null; // Newest reading systemTime synced by the scheduled pull
+  lastSyncedAt: number | null; // When the scheduled pull last advanced the cursor
+  backfillStatus: DexcomBackfillStatus | null;
+  stale: boolean;
+}
+
+export interface HealthSummary {
+  generatedAt: number;
+  since: number;
+  until: number;
+  bucketMs: number;
+  truncated: boolean; // More metrics were recorded in the window than were read
+  operations: OperationHealth[];
+  syncFreshness: SyncFreshness[];
+}
+
+// Nearest-rank percentile of an ascending list
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) {
+    return null;
+  }
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+function computeStats(metrics: HealthMetric[]): HealthStats {
+  const failures = metrics.filter(metric => !metric.success).length;
+  const latencies = metrics
+    .map(metric => metric.responseTime)
+    .filter(responseTime => responseTime > 0)
+    .sort((a, b) => a - b);
+
+  return {
+    total: metrics.length,
+    failures,
+    successRate: metrics.length > 0 ? (metrics.length - failures) / metrics.length : null,
+    p50Ms: percentile(latencies, 50),
+    p95Ms: percentile(latencies, 95),
+  };
+}
+
+// Most frequent failure messages first
+function countErrors(metrics: HealthMetric[]): ErrorCount[] {
+  const counts = new Map<string, number>();
+  for (const metric of metrics) {
+    if (!metric.success) {
+      const message = metric.error || 'Unknown error';
+      counts.set(message, (counts.get(message) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts, ([message, count]) => ({ message, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, HEALTH_SUMMARY_CONFIG.MAX_ERRORS_PER_OPERATION);
+}
+
+/**
+ * Whole-hour bucket size giving at most TARGET_BUCKETS buckets over the window
+ */
+export function getBucketMs(hours: number): number {
+  return Math.max(1, Math.ceil(hours / HEALTH_SUMMARY_CONFIG.TARGET_BUCKETS)) * 60 * 60 * 1000;
+}
+
+/**
+ * Aggregate metrics by operation and by epoch-aligned time bucket. Every operation gets
+ * the same bucket list, including empty buckets, so timelines line up.
+ */
+export function summarizeHealthMetrics(metrics: HealthMetric[], since: Date, until: Date, bucketMs: number): OperationHealth[] {
+  const firstBucket = Math.floor(since.getTime() / bucketMs) * bucketMs;
+  const bucketStarts: number[] = [];
+  for (let start = firstBucket; start < until.getTime(); start += bucketMs) {
+    bucketStarts.push(start);
+  }
+
+  const byOperation = new Map<string, HealthMetric[]>();
+  for (const metric of metrics) {
+    // Metrics whose server timestamp has not resolved yet cannot be placed in a bucket
+    if (!metric.timestamp) {
+      continue;
+    }
+    const list = byOperation.get(metric.operation) ?? [];
+    list.push(metric);
+    byOperation.set(metric.operation, list);
+  }
+
+  return Array.from(byOperation, ([operation, operationMetrics]) => {
+    const byBucket = new Map<number, HealthMetric[]>(bucketStarts.map(start => [start, []]));
+    for (const metric of operationMetrics) {
+      const start = Math.floor(metric.timestamp!.toMillis() / bucketMs) * bucketMs;
+      byBucket.get(start)?.push(metric);
+    }
+
+    return {
+      operation,
+      ...computeStats(operationMetrics),
+      errors: countErrors(operationMetrics),
+      buckets: bucketStarts.map(start => ({
+        start,
+        ...computeStats(byBucket.get(start)!),
+        errors: countErrors(byBucket.get(start)!),
+      })),
+    };
+  }).sort((a, b) => a.operation.localeCompare(b.operation));
+}
+
+/**
+ * Scheduled pull progress for every connected user, stalest first
+ */
+export async function getSyncFreshness(now: Date): Promise<SyncFreshness[]> {
+  const [userIds, syncStates, backfillStatuses] = await Promise.all([
+    listConnectedUserIds(),
+    listSyncStates(),
+    listBackfillStatuses(),
+  ]);
+
+  return userIds.map(userId => {
+    const syncState = syncStates.get(userId);
+    const lastSyncedAt = syncState?.updatedAt?.getTime() ?? null;
+    return {
+      userId,
+      cursor: syncState?.cursor.getTime() ?? null,
+      lastSyncedAt,
+      backfillStatus: backfillStatuses.get(userId) ?? null,
+      stale: lastSyncedAt === null || now.getTime() - lastSyncedAt > HEALTH_SUMMARY_CONFIG.STALE_SYNC_MS,
+    };
+  }).sort((a, b) => (a.lastSyncedAt ?? 0) - (b.lastSyncedAt ?? 0));
+}
+
+/**
+ * Health metrics and sync freshness over the last `hours` hours
+ */
+export async function buildHealthSummary(hours: number): Promise<HealthSummary> {
+  const until = new Date();
+  const since = new Date(until.getTime() - hours * 60 * 60 * 1000);
+  const bucketMs = getBucketMs(hours);
+
+  const [metrics, syncFreshness] = await Promise.all([
+    listHealthMetricsSince(since, HEALTH_SUMMARY_CONFIG.MAX_METRICS),
+    getSyncFreshness(until),
+  ]);
+
+  return {
+    generatedAt: until.getTime(),
+    since: since.getTime(),
+    until: until.getTime(),
+    bucketMs,
+    truncated: metrics.length >= HEALTH_SUMMARY_CONFIG.MAX_METRICS,
+    operations: summarizeHealthMetrics(metrics, since, until, bucketMs),
+    syncFreshness,
+  };
+}
@@ -0,0 +1,105 @@
+import { db } from './firebase';
+import { COLLECTIONS, DEXCOM_API_CONFIG } from './config';
+
+interface RateLimitBucket {
+  tokens: number;
+  updatedAt: number; // ms since epoch of the last refill
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number; // Calls left for this user
+  resetTime: number; // When enough tokens will be available again
+}
+
+interface ShardResult extends RateLimitResult {
+  shardExhausted: boolean; // Refused only for lack of global capacity in this shard
+}
+
+// Refill a token bucket for the time elapsed since it was last updated
+function refillBucket(bucket: RateLimitBucket | undefined, capacity: number, refillPerMs: number, now: number): number {
+  if (!bucket) {
+    return capacity;
+  }
+  return Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+}
+
+// Thrown by DexcomClient when a metered call is refused by the limiter
+export class RateLimitExceededError extends Error {
+  constructor(readonly resetTime: number) {
+    super('Dexcom API rate limit exceeded');
+    this.name = 'RateLimitExceededError';
+  }
+}
+
+/**
+ * Take `cost` tokens from both the user's bucket and a shard of the global bucket. Shards are
+ * tried from a random starting point, so a call is only refused for global capacity once
+ * RATE_LIMIT_SHARD_ATTEMPTS shards are all exhausted. Each document holds only a token count,
+ * so it stays small no matter how many calls are made.
+ * Fails closed: if the limiter itself cannot be checked, the call is refused.
+ */
+export async function checkRateLimit(userId: string, cost: number = 1): Promise<RateLimitResult> {
+  const shardCount = DEXCOM_API_CONFIG.RATE_LIMIT_GLOBAL_SHARDS;
+  const firstShard = Math.floor(Math.random() * shardCount);
+  const attempts = Math.min(shardCount, DEXCOM_API_CONFIG.RATE_LIMIT_SHARD_ATTEMPTS);
+
+  let result: ShardResult | null = null;
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    result = await takeTokens(userId, (firstShard + attempt) % shardCount, cost);
+    if (result.allowed || !result.shardExhausted) {
+      break;
+    }
+  }
+
+  const { allowed, remaining, resetTime } = result!;
+  return { allowed, remaining, resetTime };
+}
+
+async function takeTokens(userId: string, shard: number, cost: number): Promise<ShardResult> {
+  const now = Date.now();
+  const shardCapacity = DEXCOM_API_CONFIG.RATE_LIMIT_MAX_CALLS / DEXCOM_API_CONFIG.RATE_LIMIT_GLOBAL_SHARDS;
+  const shardRefillPerMs = shardCapacity / DEXCOM_API_CONFIG.RATE_LIMIT_WINDOW_MS;
+  const userCapacity = DEXCOM_API_CONFIG.RATE_LIMIT_USER_BURST;
+  const userRefillPerMs = DEXCOM_API_CONFIG.RATE_LIMIT_USER_MAX_CALLS / DEXCOM_API_CONFIG.RATE_LIMIT_WINDOW_MS;
+
+  const userRef = db.collection(COLLECTIONS.RATE_LIMITS).doc(`user_${userId}`);
+  const shardRef = db.collection(COLLECTIONS.RATE_LIMITS).doc(`global_${shard}`);
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      const [userDoc, shardDoc] = await transaction.getAll(userRef, shardRef);
+      const userTokens = refillBucket(userDoc.data() as RateLimitBucket | undefined, userCapacity, userRefillPerMs, now);
+      const shardTokens = refillBucket(shardDoc.data() as RateLimitBucket | undefined, shardCapacity, shardRefillPerMs, now);
+
+      if (userTokens < cost || shardTokens < cost) {
+        const waitMs = Math.max(
+          userTokens < cost ? (cost - userTokens) / userRefillPerMs : 0,
+          shardTokens < cost ? (cost - shardTokens) / shardRefillPerMs : 0
+        );
+        return {
+          allowed: false,
+          remaining: Math.floor(userTokens),
+          resetTime: now + Math.ceil(waitMs),
+          // Another shard can only help when the user still has tokens
+          shardExhausted: userTokens >= cost,
+        };
+      }
+
+      const userBucket: RateLimitBucket = { tokens: userTokens - cost, updatedAt: now };
+      const shardBucket: RateLimitBucket = { tokens: shardTokens - cost, updatedAt: now };
+      transaction.set(userRef, userBucket);
+      transaction.set(shardRef, shardBucket);
+
+      return {
+        allowed: true,
+        remaining: Math.floor(userBucket.tokens),
+        resetTime: now + Math.ceil((userCapacity - userBucket.tokens) / userRefillPerMs),
+        shardExhausted: false,
+      };
+    });
+  } catch (error) {
+    console.error('Rate limit check failed:', error);
+    return { allowed: false, remaining: 0, resetTime: now + DEXCOM_API_CONFIG.RETRY_MAX_DELAY_MS, shardExhausted: false };
+  }
+}
@@ -0,0 +1,123 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import * as crypto from 'crypto';
+import { db } from '../firebase';
+import { COLLECTIONS, FIRESTORE_BATCH_LIMIT, OAUTH_STATE_CONFIG } from '../config';
+
+// Server-side record of an issued OAuth state; deleted when the callback consumes it
+interface OAuthStateRecord {
+  userId: string;
+  codeVerifier: string | null; // PKCE verifier, when PKCE is enabled
+  expiresAt: number;
+  createdAt: FirebaseFirestore.FieldValue;
+}
+
+type OAuthStateResult =
+  | { valid: true; userId: string; codeVerifier: string | null }
+  | { valid: false; reason: string };
+
+function getOAuthStateSecret(): string {
+  const secret = process.env.OAUTH_STATE_SECRET || functions.config().oauth?.state_secret;
+  if (!secret) {
+    throw new Error('OAUTH_STATE_SECRET is not configured');
+  }
+  return secret;
+}
+
+function signStatePayload(payload: string): string {
+  return crypto.createHmac('sha256', getOAuthStateSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * Issue a signed, single-use state for the OAuth redirect. The state carries the user ID,
+ * a nonce and an expiry, signed with HMAC-SHA256; the nonce is also stored server-side
+ * (with the PKCE verifier, if used) so the callback can only be completed once.
+ */
+export async function generateSecureState(userId: string, usePkce: boolean): Promise<{ state: string; codeChallenge: string | null }> {
+  const nonce = crypto.randomBytes(OAUTH_STATE_CONFIG.NONCE_BYTES).toString('base64url');
+  const expiresAt = Date.now() + OAUTH_STATE_CONFIG.TTL_MS;
+  const codeVerifier = usePkce ? crypto.randomBytes(OAUTH_STATE_CONFIG.PKCE_VERIFIER_BYTES).toString('base64url') : null;
+
+  const record: OAuthStateRecord = {
+    userId,
+    codeVerifier,
+    expiresAt,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+  await db.collection(COLLECTIONS.OAUTH_STATES).doc(nonce).set(record);
+
+  const payload = Buffer.from(JSON.stringify({ uid: userId, nonce, exp: expiresAt })).toString('base64url');
+  return {
+    state: `${payload}.${signStatePayload(payload)}`,
+    codeChallenge: codeVerifier ? crypto.createHash('sha256').update(codeVerifier).digest('base64url') : null,
+  };
+}
+
+/**
+ * Verify the state signature and expiry, then atomically consume its nonce. The user ID
+ * comes only from a verified state that matches the stored record.
+ */
+export async function consumeState(state: string): Promise<OAuthStateResult> {
+  const [payload, signature] = state.split('.');
+  if (!payload || !signature) {
+    return { valid: false, reason: 'Invalid state format' };
+  }
+
+  const expected = Buffer.from(signStatePayload(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: 'Invalid state signature' };
+  }
+
+  let stateData: { uid?: string; nonce?: string; exp?: number };
+  try {
+    stateData = JSON.parse(Buffer.from(payload, 'base64url').toString());
+  } catch {
+    return { valid: false, reason: 'Invalid state format' };
+  }
+
+  const { uid, nonce, exp } = stateData;
+  if (!uid || !nonce || !exp) {
+    return { valid: false, reason: 'Missing required state fields' };
+  }
+  if (Date.now() > exp) {
+    return { valid: false, reason: 'State parameter expired' };
+  }
+
+  const stateRef = db.collection(COLLECTIONS.OAUTH_STATES).doc(nonce);
+  return db.runTransaction(async (transaction): Promise<OAuthStateResult> => {
+    const doc = await transaction.get(stateRef);
+    if (!doc.exists) {
+      return { valid: false, reason: 'State already used or unknown' };
+    }
+
+    transaction.delete(stateRef);
+    const record = doc.data() as OAuthStateRecord;
+
+    if (record.userId !== uid) {
+      return { valid: false, reason: 'User ID mismatch' };
+    }
+    if (Date.now() > record.expiresAt) {
+      return { valid: false, reason: 'State parameter expired' };
+    }
+
+    return { valid: true, userId: record.userId, codeVerifier: record.codeVerifier };
+  });
+}
+
+// Remove states whose flow was abandoned before the callback
+export async function deleteExpiredOAuthStates(): Promise<void> {
+  const snapshot = await db.collection(COLLECTIONS.OAUTH_STATES)
+    .where('expiresAt', '<', Date.now())
+    .limit(FIRESTORE_BATCH_LIMIT)
+    .get();
+
+  if (snapshot.empty) {
+    return;
+  }
+
+  const batch = db.batch();
+  snapshot.docs.forEach(doc => batch.delete(doc.ref));
+  await batch.commit();
+  console.log(`Deleted ${snapshot.size} expired OAuth states`);
+}
@@ -0,0 +1,100 @@
+import * as functions from 'firebase-functions';
+import * as crypto from 'crypto';
+
+// AES-256-GCM ciphertext, IV and auth tag, base64 encoded
+export interface EncryptedValue {
+  ciphertext: string;
+  iv: string;
+  tag: string;
+}
+
+// Envelope-encrypted token pair: the tokens are sealed with a random per-document data key,
+// and that key is sealed with a key-encryption key (KEK) from function config
+export interface EncryptedTokens {
+  keyId: string; // Which KEK wrapped the data key
+  wrappedKey: EncryptedValue;
+  tokens: EncryptedValue; // JSON of { accessToken, refreshToken }
+}
+
+/**
+ * Key-encryption keys from TOKEN_ENCRYPTION_KEYS ("keyId:base64Key,...", each key 32 bytes) and
+ * the one used for new writes from TOKEN_ENCRYPTION_KEY_ID. Older keys stay listed during
+ * rotation so existing documents can still be unwrapped and re-wrapped with the current key.
+ */
+export function getTokenEncryptionKeys(): { currentKeyId: string; keys: Map<string, Buffer> } {
+  const keysConfig = process.env.TOKEN_ENCRYPTION_KEYS || functions.config().tokens?.keys;
+  const currentKeyId = process.env.TOKEN_ENCRYPTION_KEY_ID || functions.config().tokens?.key_id;
+
+  if (!keysConfig || !currentKeyId) {
+    throw new Error('Token encryption keys are not configured');
+  }
+
+  const keys = new Map<string, Buffer>();
+  for (const entry of (keysConfig as string).split(',')) {
+    const [keyId, encodedKey] = entry.trim().split(':');
+    const key = Buffer.from(encodedKey ?? '', 'base64');
+    if (!keyId || key.length !== 32) {
+      throw new Error(`Token encryption key "${keyId}" must be 32 bytes, base64 encoded`);
+    }
+    keys.set(keyId, key);
+  }
+
+  if (!keys.has(currentKeyId)) {
+    throw new Error(`Current token encryption key "${currentKeyId}" is not in TOKEN_ENCRYPTION_KEYS`);
+  }
+
+  return { currentKeyId, keys };
+}
+
+// The user ID is bound as additional authenticated data, so ciphertext copied to another user's document fails to decrypt
+function encryptValue(key: Buffer, plaintext: Buffer, userId: string): EncryptedValue {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(userId));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return {
+    ciphertext: ciphertext.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+  };
+}
+
+function decryptValue(key: Buffer, value: EncryptedValue, userId: string): Buffer {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(value.iv, 'base64'));
+  decipher.setAAD(Buffer.from(userId));
+  decipher.setAuthTag(Buffer.from(value.tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(value.ciphertext, 'base64')), decipher.final()]);
+}
+
+export function encryptTokens(userId: string, accessToken: string, refreshToken: string): EncryptedTokens {
+  const { currentKeyId, keys } = getTokenEncryptionKeys();
+  const dataKey = crypto.randomBytes(32);
+
+  return {
+    keyId: currentKeyId,
+    wrappedKey: encryptValue(keys.get(currentKeyId)!, dataKey, userId),
+    tokens: encryptValue(dataKey, Buffer.from(JSON.stringify({ accessToken, refreshToken })), userId),
+  };
+}
+
+function unwrapDataKey(userId: string, encrypted: EncryptedTokens): Buffer {
+  const key = getTokenEncryptionKeys().keys.get(encrypted.keyId);
+  if (!key) {
+    throw new Error(`Token encryption key "${encrypted.keyId}" is no longer configured`);
+  }
+  return decryptValue(key, encrypted.wrappedKey, userId);
+}
+
+export function decryptTokens(userId: string, encrypted: EncryptedTokens): { accessToken: string; refreshToken: string } {
+  return JSON.parse(decryptValue(unwrapDataKey(userId, encrypted), encrypted.tokens, userId).toString());
+}
+
+// Re-wrap the data key with the current KEK; the token ciphertext itself is unchanged
+export function rewrapTokens(userId: string, encrypted: EncryptedTokens): EncryptedTokens {
+  const { currentKeyId, keys } = getTokenEncryptionKeys();
+  return {
+    ...encrypted,
+    keyId: currentKeyId,
+    wrappedKey: encryptValue(keys.get(currentKeyId)!, unwrapDataKey(userId, encrypted), userId),
+  };
+}
@@ -0,0 +1,88 @@
+import * as functions from 'firebase-functions';
+import { SHEETS_API_CONFIG } from './config';
+import { SheetColumnMapping, SheetConfig, SheetConfigInput } from './storage/sheetConfigs';
+
+// Google Sheets utilities
+export function getSheetsApiKey(): string | undefined {
+  return process.env.GOOGLE_SHEETS_API_KEY || functions.config().sheets?.api_key;
+}
+
+// Convert a column letter (A, B, ..., AA) to a zero-based index
+export function columnIndex(column: string): number {
+  return column.split('').reduce((index, letter) => index * 26 + (letter.charCodeAt(0) - 64), 0) - 1;
+}
+
+// The contiguous A1 range covering every mapped column, plus the index of its first column
+export function getSheetRange(config: SheetConfig): { range: string; offset: number; width: number } {
+  const { columns } = config;
+  const indexes = [columns.dateTime, columns.glucoseLevel, columns.comment, columns.dayAverage]
+    .filter((column): column is string => column !== null)
+    .map(columnIndex);
+  const first = Math.min(...indexes);
+  const last = Math.max(...indexes);
+  const letter = (index: number): string =>
+    (index >= 26 ? letter(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+  const tab = config.tabName.replace(/'/g, "''");
+
+  return { range: `'${tab}'!${letter(first)}:${letter(last)}`, offset: first, width: last - first + 1 };
+}
+
+/**
+ * Access token for the functions' service account with the Sheets write scope.
+ * Users grant write access by sharing their sheet with this account's email.
+ */
+export async function getSheetsWriteToken(): Promise<string> {
+  const response = await fetch(
+    `${SHEETS_API_CONFIG.METADATA_URL}/token?scopes=${encodeURIComponent(SHEETS_API_CONFIG.WRITE_SCOPE)}`,
+    { headers: { 'Metadata-Flavor': 'Google' } }
+  );
+  if (!response.ok) {
+    throw new Error(`Metadata server returned ${response.status}`);
+  }
+  const token = await response.json() as { access_token: string };
+  return token.access_token;
+}
+
+export async function getServiceAccountEmail(): Promise<string | null> {
+  try {
+    const response = await fetch(`${SHEETS_API_CONFIG.METADATA_URL}/email`, { headers: { 'Metadata-Flavor': 'Google' } });
+    return response.ok ? await response.text() : null;
+  } catch {
+    // Not running on Google Cloud (e.g. the emulator)
+    return null;
+  }
+}
+
+export function validateSheetConfig(data: unknown): SheetConfigInput {
+  const input = (data ?? {}) as Record<string, unknown>;
+  const columns = (input.columns ?? {}) as Record<string, unknown>;
+  const spreadsheetId = typeof input.spreadsheetId === 'string' ? input.spreadsheetId.trim() : '';
+  const tabName = typeof input.tabName === 'string' ? input.tabName.trim() : '';
+
+  if (!SHEETS_API_CONFIG.SPREADSHEET_ID_PATTERN.test(spreadsheetId)) {
+    throw new functions.https.HttpsError('invalid-argument', 'Invalid spreadsheet ID');
+  }
+  if (!tabName || tabName.length > SHEETS_API_CONFIG.MAX_TAB_NAME_LENGTH) {
+    throw new functions.https.HttpsError('invalid-argument', 'Sheet tab name is required');
+  }
+
+  const column = (key: keyof SheetColumnMapping, required: boolean): string | null => {
+    const value = typeof columns[key] === 'string' ? (columns[key] as string).trim().toUpperCase() : '';
+    if (!value && !required) return null;
+    if (!SHEETS_API_CONFIG.COLUMN_PATTERN.test(value)) {
+      throw new functions.https.HttpsError('invalid-argument', `Invalid column for ${key}`);
+    }
+    return value;
+  };
+
+  return {
+    spreadsheetId,
+    tabName,
+    columns: {
+      dateTime: column('dateTime', true) as string,
+      glucoseLevel: column('glucoseLevel', true) as string,
+      comment: column('comment', false),
+      dayAverage: column('dayAverage', false),
+    },
+  };
+}
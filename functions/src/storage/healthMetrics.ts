@@ -0,0 +1,37 @@
+import * as admin from 'firebase-admin';
+import { db } from '../firebase';
+import { COLLECTIONS } from '../config';
+
+export async function recordHealthMetric(operation: string, success: boolean, responseTime?: number, error?: string): Promise<void> {
+  try {
+    await db.collection(COLLECTIONS.HEALTH_METRICS).add({
+      timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      operation,
+      success,
+      responseTime: responseTime || 0,
+      error: error || null,
+      createdAt: admin.firestore.FieldValue.serverTimestamp()
+    });
+  } catch (error) {
+    console.error('Failed to record health metric:', error);
+  }
+}
+
+// A healthMetrics document as read back; responseTime is 0 when the operation was not timed
+export interface HealthMetric {
+  operation: string;
+  success: boolean;
+  responseTime: number;
+  error: string | null;
+  timestamp: FirebaseFirestore.Timestamp | null;
+}
+
+// Metrics recorded at or after `since`, newest first
+export async function listHealthMetricsSince(since: Date, limit: number): Promise<HealthMetric[]> {
+  const snapshot = await db.collection(COLLECTIONS.HEALTH_METRICS)
+    .where('timestamp', '>=', admin.firestore.Timestamp.fromDate(since))
+    .orderBy('timestamp', 'desc')
+    .limit(limit)
+    .get();
+  return snapshot.docs.map(doc => doc.data() as HealthMetric);
+}
@@ -0,0 +1,167 @@
+import * as admin from 'firebase-admin';
+import { db } from '../firebase';
+import { COLLECTIONS, FIRESTORE_BATCH_LIMIT } from '../config';
+import { parseDexcomTime } from '../dexcom/dates';
+import {
+  DexcomAlertRecord,
+  DexcomCalibrationRecord,
+  DexcomDeviceRecord,
+  DexcomEventRecord,
+  DexcomGlucoseReading,
+} from '../dexcom/types';
+
+interface StoredGlucoseReading {
+  userId: string;
+  systemTime: FirebaseFirestore.Timestamp;
+  displayTime: FirebaseFirestore.Timestamp;
+  value: number;
+  unit: string;
+  trend: string;
+  trendRate?: number;
+  recordedAt: FirebaseFirestore.FieldValue;
+}
+
+type DexcomRecordWrite =
+  | { docId: string; data: Record<string, unknown> }
+  | { docId: string; delete: true };
+
+export async function storeGlucoseReadings(userId: string, readings: DexcomGlucoseReading[]): Promise<void> {
+  if (readings.length === 0) {
+    console.log('No readings to store');
+    return;
+  }
+
+  // Firestore batches are capped at 500 writes, so large imports are committed in chunks
+  for (let start = 0; start < readings.length; start += FIRESTORE_BATCH_LIMIT) {
+    const batch = db.batch();
+
+    for (const reading of readings.slice(start, start + FIRESTORE_BATCH_LIMIT)) {
+      try {
+        // Create unique document ID using userId and systemTime to prevent duplicates
+        const docId = `${userId}_${parseDexcomTime(reading.systemTime).getTime()}`;
+        const docRef = db.collection(COLLECTIONS.GLUCOSE_READINGS).doc(docId);
+
+        const storedReading: StoredGlucoseReading = {
+          userId,
+          systemTime: admin.firestore.Timestamp.fromDate(parseDexcomTime(reading.systemTime)),
+          // Receiver wall-clock time, stored as if it were UTC
+          displayTime: admin.firestore.Timestamp.fromDate(parseDexcomTime(reading.displayTime)),
+          value: reading.value,
+          // Always stored in mg/dL; clients convert to the user's preferred unit for display
+          unit: 'mg/dL',
+          trend: reading.trend,
+          ...(reading.trendRate !== undefined && { trendRate: reading.trendRate }),
+          recordedAt: admin.firestore.FieldValue.serverTimestamp()
+        };
+
+        batch.set(docRef, storedReading, { merge: true });
+      } catch (error) {
+        console.error(`Error processing reading for storage:`, error);
+        throw error;
+      }
+    }
+
+    try {
+      await batch.commit();
+    } catch (error) {
+      console.error(`❌ Failed to commit batch to Firestore:`, error);
+      throw error;
+    }
+  }
+
+  console.log(`✅ Stored ${readings.length} glucose readings`);
+}
+
+// Write or delete Dexcom records in chunks that fit a Firestore batch
+async function commitDexcomRecords(collectionName: string, writes: DexcomRecordWrite[]): Promise<void> {
+  for (let start = 0; start < writes.length; start += FIRESTORE_BATCH_LIMIT) {
+    const batch = db.batch();
+
+    for (const write of writes.slice(start, start + FIRESTORE_BATCH_LIMIT)) {
+      const docRef = db.collection(collectionName).doc(write.docId);
+      if ('delete' in write) {
+        batch.delete(docRef);
+      } else {
+        batch.set(docRef, { ...write.data, recordedAt: admin.firestore.FieldValue.serverTimestamp() }, { merge: true });
+      }
+    }
+
+    await batch.commit();
+  }
+}
+
+const toTimestamp = (value: string) => admin.firestore.Timestamp.fromDate(parseDexcomTime(value));
+
+// Firestore document IDs cannot contain slashes, and device identifiers are free-form
+const toDocIdPart = (value: string) => value.replace(/[^A-Za-z0-9-]/g, '-');
+
+export async function storeDexcomEvents(userId: string, events: DexcomEventRecord[]): Promise<void> {
+  // Events edited or removed on the receiver come back with an updated/deleted status
+  await commitDexcomRecords(COLLECTIONS.DEXCOM_EVENTS, events.map(event => {
+    const docId = `${userId}_${toDocIdPart(event.recordId)}`;
+    if (event.eventStatus === 'deleted') {
+      return { docId, delete: true as const };
+    }
+    return {
+      docId,
+      data: {
+        userId,
+        recordId: event.recordId,
+        systemTime: toTimestamp(event.systemTime),
+        displayTime: toTimestamp(event.displayTime),
+        eventType: event.eventType,
+        eventSubType: event.eventSubType ?? null,
+        value: event.value ?? null,
+        unit: event.unit ?? null,
+        displayDevice: event.displayDevice ?? null,
+      },
+    };
+  }));
+}
+
+export async function storeDexcomCalibrations(userId: string, calibrations: DexcomCalibrationRecord[]): Promise<void> {
+  await commitDexcomRecords(COLLECTIONS.DEXCOM_CALIBRATIONS, calibrations.map(calibration => ({
+    docId: `${userId}_${toDocIdPart(calibration.recordId)}`,
+    data: {
+      userId,
+      recordId: calibration.recordId,
+      systemTime: toTimestamp(calibration.systemTime),
+      displayTime: toTimestamp(calibration.displayTime),
+      value: calibration.value,
+      unit: calibration.unit,
+      displayDevice: calibration.displayDevice ?? null,
+    },
+  })));
+}
+
+export async function storeDexcomDevices(userId: string, devices: DexcomDeviceRecord[]): Promise<void> {
+  // Devices have no record ID; one document per display device and transmitter
+  await commitDexcomRecords(COLLECTIONS.DEXCOM_DEVICES, devices.map(device => ({
+    docId: [userId, device.displayDevice, device.transmitterGeneration, device.transmitterId ?? '']
+      .map(toDocIdPart)
+      .join('_'),
+    data: {
+      userId,
+      transmitterId: device.transmitterId ?? null,
+      transmitterGeneration: device.transmitterGeneration,
+      displayDevice: device.displayDevice,
+      displayApp: device.displayApp ?? null,
+      lastUploadDate: toTimestamp(device.lastUploadDate),
+    },
+  })));
+}
+
+export async function storeDexcomAlerts(userId: string, alerts: DexcomAlertRecord[]): Promise<void> {
+  await commitDexcomRecords(COLLECTIONS.DEXCOM_ALERTS, alerts.map(alert => ({
+    docId: `${userId}_${toDocIdPart(alert.recordId)}`,
+    data: {
+      userId,
+      recordId: alert.recordId,
+      systemTime: toTimestamp(alert.systemTime),
+      displayTime: toTimestamp(alert.displayTime),
+      alertName: alert.alertName,
+      alertState: alert.alertState,
+      displayDevice: alert.displayDevice ?? null,
+    },
+  })));
+}
@@ -0,0 +1,38 @@
+import * as admin from 'firebase-admin';
+import { db } from '../firebase';
+import { COLLECTIONS } from '../config';
+
+export interface SheetColumnMapping {
+  dateTime: string;
+  glucoseLevel: string;
+  comment: string | null;
+  dayAverage: string | null;
+}
+
+export interface SheetConfig {
+  userId: string;
+  spreadsheetId: string;
+  tabName: string;
+  columns: SheetColumnMapping;
+  updatedAt: FirebaseFirestore.FieldValue;
+}
+
+export type SheetConfigInput = Omit<SheetConfig, 'userId' | 'updatedAt'>;
+
+export async function getSheetConfig(userId: string): Promise<SheetConfig | null> {
+  const doc = await db.collection(COLLECTIONS.SHEET_CONFIGS).doc(userId).get();
+  return doc.exists ? doc.data() as SheetConfig : null;
+}
+
+export async function saveSheetConfig(userId: string, config: SheetConfigInput): Promise<void> {
+  const sheetConfig: SheetConfig = {
+    ...config,
+    userId,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+  await db.collection(COLLECTIONS.SHEET_CONFIGS).doc(userId).set(sheetConfig);
+}
+
+export async function deleteSheetConfig(userId: string): Promise<void> {
+  await db.collection(COLLECTIONS.SHEET_CONFIGS).doc(userId).delete();
+}
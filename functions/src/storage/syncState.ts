@@ -0,0 +1,119 @@
+import * as admin from 'firebase-admin';
+import { db } from '../firebase';
+import { COLLECTIONS } from '../config';
+
+interface DexcomSyncState {
+  userId: string;
+  lastSyncedSystemTime: FirebaseFirestore.Timestamp;
+  updatedAt: FirebaseFirestore.FieldValue;
+}
+
+export type DexcomBackfillStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed';
+
+export interface DexcomBackfill {
+  userId: string;
+  status: DexcomBackfillStatus;
+  rangeStart: FirebaseFirestore.Timestamp | null; // Oldest point to import, from /dataRange
+  rangeEnd: FirebaseFirestore.Timestamp | null; // Newest available EGV
+  cursor: FirebaseFirestore.Timestamp | null; // Imported from here to rangeEnd so far
+  readingsImported: number;
+  error: string | null;
+  createdAt: FirebaseFirestore.FieldValue;
+  updatedAt: FirebaseFirestore.FieldValue;
+}
+
+export type DexcomBackfillUpdate = Partial<Omit<DexcomBackfill, 'userId' | 'createdAt' | 'updatedAt'>>;
+
+// Sync cursor utilities
+export async function getSyncCursor(userId: string): Promise<Date | null> {
+  const doc = await db.collection(COLLECTIONS.DEXCOM_SYNC_STATE).doc(userId).get();
+  return doc.exists ? (doc.data() as DexcomSyncState).lastSyncedSystemTime.toDate() : null;
+}
+
+export async function saveSyncCursor(userId: string, cursor: Date): Promise<void> {
+  const syncState: DexcomSyncState = {
+    userId,
+    lastSyncedSystemTime: admin.firestore.Timestamp.fromDate(cursor),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+  await db.collection(COLLECTIONS.DEXCOM_SYNC_STATE).doc(userId).set(syncState, { merge: true });
+}
+
+// Sync cursor and last cursor write for every user that has one
+export async function listSyncStates(): Promise<Map<string, { cursor: Date; updatedAt: Date | null }>> {
+  const snapshot = await db.collection(COLLECTIONS.DEXCOM_SYNC_STATE).get();
+  return new Map(snapshot.docs.map(doc => [doc.id, {
+    cursor: doc.data().lastSyncedSystemTime.toDate(),
+    updatedAt: doc.data().updatedAt?.toDate() ?? null,
+  }]));
+}
+
+// Backfill utilities
+export function getBackfillRef(userId: string): FirebaseFirestore.DocumentReference {
+  return db.collection(COLLECTIONS.DEXCOM_BACKFILLS).doc(userId);
+}
+
+export async function queueBackfill(userId: string): Promise<void> {
+  const backfill: DexcomBackfill = {
+    userId,
+    status: 'queued',
+    rangeStart: null,
+    rangeEnd: null,
+    cursor: null,
+    readingsImported: 0,
+    error: null,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+  await getBackfillRef(userId).set(backfill);
+}
+
+export async function updateBackfill(backfillRef: FirebaseFirestore.DocumentReference, fields: DexcomBackfillUpdate): Promise<void> {
+  await backfillRef.update({ ...fields, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+}
+
+export async function deleteBackfill(userId: string): Promise<void> {
+  await getBackfillRef(userId).delete();
+}
+
+/**
+ * Move a queued backfill to running inside a transaction, so overlapping triggers
+ * do not run it twice. Returns whether this caller claimed it.
+ */
+export async function claimBackfill(backfillRef: FirebaseFirestore.DocumentReference): Promise<boolean> {
+  return db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(backfillRef);
+    if (doc.data()?.status !== 'queued') {
+      return false;
+    }
+    transaction.update(backfillRef, {
+      status: 'running',
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+}
+
+// Re-queue backfills paused by rate limits or left running by a crashed invocation
+export async function requeueStalledBackfills(staleBefore: number): Promise<number> {
+  const snapshot = await db.collection(COLLECTIONS.DEXCOM_BACKFILLS)
+    .where('status', 'in', ['paused', 'running'])
+    .get();
+
+  const stalled = snapshot.docs.filter(doc => {
+    const data = doc.data();
+    return data.status === 'paused' || (data.updatedAt?.toMillis() ?? 0) < staleBefore;
+  });
+
+  await Promise.all(stalled.map(doc => doc.ref.update({
+    status: 'queued',
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  })));
+
+  return stalled.length;
+}
+
+export async function listBackfillStatuses(): Promise<Map<string, DexcomBackfillStatus>> {
+  const snapshot = await db.collection(COLLECTIONS.DEXCOM_BACKFILLS).get();
+  return new Map(snapshot.docs.map(doc => [doc.id, doc.data().status as DexcomBackfillStatus]));
+}
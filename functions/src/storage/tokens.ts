@@ -0,0 +1,114 @@
+import * as admin from 'firebase-admin';
+import { db } from '../firebase';
+import { COLLECTIONS } from '../config';
+import { DexcomTokens } from '../dexcom/types';
+import { recordHealthMetric } from './healthMetrics';
+import { EncryptedTokens, decryptTokens, encryptTokens, getTokenEncryptionKeys, rewrapTokens } from '../security/tokenEncryption';
+
+// What is persisted in dexcomTokens/{userId}; only expiry metadata is stored in plaintext
+interface StoredDexcomTokens extends Omit<DexcomTokens, 'accessToken' | 'refreshToken'> {
+  encryptedTokens: EncryptedTokens;
+}
+
+/**
+ * Decrypted tokens, or null when the user has not connected Dexcom. Key configuration and
+ * decryption failures are recorded as a health metric and rethrown, so a broken or rotated-out
+ * key is not mistaken for a disconnected account.
+ */
+export async function getUserTokens(userId: string): Promise<DexcomTokens | null> {
+  const docRef = db.collection(COLLECTIONS.DEXCOM_TOKENS).doc(userId);
+  const doc = await docRef.get();
+  if (!doc.exists) {
+    return null;
+  }
+
+  const data = doc.data()!;
+
+  try {
+    // Documents written before encryption hold plaintext tokens; encrypt them on first read
+    if (!data.encryptedTokens) {
+      const legacy = data as DexcomTokens;
+      await docRef.update({
+        encryptedTokens: encryptTokens(userId, legacy.accessToken, legacy.refreshToken),
+        accessToken: admin.firestore.FieldValue.delete(),
+        refreshToken: admin.firestore.FieldValue.delete(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      console.log(`Encrypted legacy tokens for user ${userId}`);
+      return legacy;
+    }
+
+    const stored = data as StoredDexcomTokens;
+    const { accessToken, refreshToken } = decryptTokens(userId, stored.encryptedTokens);
+
+    // Lazily move documents onto the current key after a rotation
+    if (stored.encryptedTokens.keyId !== getTokenEncryptionKeys().currentKeyId) {
+      await docRef.update({
+        encryptedTokens: rewrapTokens(userId, stored.encryptedTokens),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      console.log(`Re-wrapped token key for user ${userId}`);
+    }
+
+    return {
+      userId: stored.userId,
+      accessToken,
+      refreshToken,
+      expiresAt: stored.expiresAt,
+      refreshTokenCreatedAt: stored.refreshTokenCreatedAt,
+      lastRefresh: stored.lastRefresh,
+      createdAt: stored.createdAt,
+      updatedAt: stored.updatedAt,
+    };
+  } catch (error) {
+    console.error(`Error reading stored tokens for user ${userId}:`, error);
+    await recordHealthMetric('token_decrypt', false, undefined, error instanceof Error ? error.message : 'Unknown error');
+    throw error;
+  }
+}
+
+// Expiry metadata only, without decrypting the tokens
+export async function getUserTokenStatus(userId: string): Promise<Pick<DexcomTokens, 'expiresAt' | 'refreshTokenCreatedAt'> | null> {
+  const doc = await db.collection(COLLECTIONS.DEXCOM_TOKENS).doc(userId).get();
+  if (!doc.exists) {
+    return null;
+  }
+  const { expiresAt, refreshTokenCreatedAt } = doc.data() as StoredDexcomTokens;
+  return { expiresAt, refreshTokenCreatedAt };
+}
+
+// IDs of every user with stored Dexcom tokens
+export async function listConnectedUserIds(): Promise<string[]> {
+  const snapshot = await db.collection(COLLECTIONS.DEXCOM_TOKENS).get();
+  return snapshot.docs.map(doc => doc.id);
+}
+
+export async function saveUserTokens(userId: string, tokens: Partial<DexcomTokens>): Promise<void> {
+  try {
+    const tokenData: StoredDexcomTokens = {
+      userId,
+      encryptedTokens: encryptTokens(userId, tokens.accessToken!, tokens.refreshToken!),
+      expiresAt: tokens.expiresAt!,
+      refreshTokenCreatedAt: tokens.refreshTokenCreatedAt || Date.now(),
+      lastRefresh: Date.now(),
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    };
+
+    await db.collection(COLLECTIONS.DEXCOM_TOKENS).doc(userId).set(tokenData);
+    console.log(`Tokens saved for user ${userId}`);
+  } catch (error) {
+    console.error('Error saving user tokens:', error);
+    throw error;
+  }
+}
+
+export async function deleteUserTokens(userId: string): Promise<void> {
+  try {
+    await db.collection(COLLECTIONS.DEXCOM_TOKENS).doc(userId).delete();
+    console.log(`Tokens deleted for user ${userId}`);
+  } catch (error) {
+    console.error('Error deleting user tokens:', error);
+    throw error;
+  }
+}
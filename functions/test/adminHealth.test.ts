@@ -0,0 +1,102 @@
+import { beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as admin from 'firebase-admin';
+import { callAs, clearFirestore, cloudFunctions, db } from './harness';
+import type { HealthSummary } from '../src/healthSummary';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const getSummary = (data: unknown = {}) =>
+  callAs<HealthSummary>(cloudFunctions.adminHealthSummary, 'operator', data, { admin: true });
+
+const addMetric = (operation: string, success: boolean, responseTime: number, at: number, error: string | null = null) =>
+  db.collection('healthMetrics').add({
+    operation,
+    success,
+    responseTime,
+    error,
+    timestamp: admin.firestore.Timestamp.fromMillis(at),
+  });
+
+describe('adminHealthSummary', () => {
+  beforeEach(async () => {
+    await clearFirestore();
+  });
+
+  it('requires the admin claim', async () => {
+    await assert.rejects(callAs(cloudFunctions.adminHealthSummary, null), { code: 'unauthenticated' });
+    await assert.rejects(callAs(cloudFunctions.adminHealthSummary, 'user'), { code: 'permission-denied' });
+    await assert.rejects(
+      callAs(cloudFunctions.adminHealthSummary, 'user', {}, { admin: 'true' }),
+      { code: 'permission-denied' }
+    );
+  });
+
+  it('rejects windows outside 1 hour to 7 days', async () => {
+    await assert.rejects(getSummary({ hours: 0 }), { code: 'invalid-argument' });
+    await assert.rejects(getSummary({ hours: 7 * 24 + 1 }), { code: 'invalid-argument' });
+    await assert.rejects(getSummary({ hours: 1.5 }), { code: 'invalid-argument' });
+  });
+
+  it('aggregates success rate, latency and errors by operation and bucket', async () => {
+    const now = Date.now();
+    await Promise.all([
+      addMetric('fetch_glucose_data', true, 100, now - 10 * 60 * 1000),
+      addMetric('fetch_glucose_data', true, 200, now - 20 * 60 * 1000),
+      addMetric('fetch_glucose_data', false, 900, now - 30 * 60 * 1000, 'Dexcom API error: 500'),
+      addMetric('fetch_glucose_data', false, 0, now - 5 * HOUR_MS, 'Dexcom API error: 500'),
+      addMetric('token_refresh', true, 50, now - 2 * HOUR_MS),
+      addMetric('token_refresh', true, 50, now - 48 * HOUR_MS),
+    ]);
+
+    const summary = await getSummary();
+
+    assert.equal(summary.bucketMs, HOUR_MS);
+    assert.equal(summary.truncated, false);
+    assert.deepEqual(summary.operations.map(operation => operation.operation), ['fetch_glucose_data', 'token_refresh']);
+
+    const [fetch, refresh] = summary.operations;
+    assert.equal(fetch.total, 4);
+    assert.equal(fetch.failures, 2);
+    assert.equal(fetch.successRate, 0.5);
+    assert.equal(fetch.p50Ms, 200);
+    assert.equal(fetch.p95Ms, 900);
+    assert.deepEqual(fetch.errors, [{ message: 'Dexcom API error: 500', count: 2 }]);
+    assert.equal(fetch.buckets.length, refresh.buckets.length);
+    assert.equal(fetch.buckets.reduce((total, bucket) => total + bucket.total, 0), 4);
+    assert.equal(fetch.buckets.filter(bucket => bucket.total === 0).every(bucket => bucket.successRate === null), true);
+
+    // The metric from two days ago is outside the default 24-hour window
+    assert.equal(refresh.total, 1);
+  });
+
+  it('reports sync freshness for every connected user', async () => {
+    const now = Date.now();
+    await Promise.all([
+      db.collection('dexcomTokens').doc('fresh-user').set({ userId: 'fresh-user' }),
+      db.collection('dexcomTokens').doc('stale-user').set({ userId: 'stale-user' }),
+      db.collection('dexcomTokens').doc('new-user').set({ userId: 'new-user' }),
+      db.collection('dexcomSyncState').doc('fresh-user').set({
+        lastSyncedSystemTime: admin.firestore.Timestamp.fromMillis(now - 10 * 60 * 1000),
+        updatedAt: admin.firestore.Timestamp.fromMillis(now - 5 * 60 * 1000),
+      }),
+      db.collection('dexcomSyncState').doc('stale-user').set({
+        lastSyncedSystemTime: admin.firestore.Timestamp.fromMillis(now - 3 * HOUR_MS),
+        updatedAt: admin.firestore.Timestamp.fromMillis(now - 3 * HOUR_MS),
+      }),
+      db.collection('dexcomBackfills').doc('new-user').set({ userId: 'new-user', status: 'running' }),
+    ]);
+
+    const { syncFreshness } = await getSummary();
+
+    assert.deepEqual(
+      syncFreshness.map(({ userId, stale, backfillStatus }) => ({ userId, stale, backfillStatus })),
+      [
+        { userId: 'new-user', stale: true, backfillStatus: 'running' },
+        { userId: 'stale-user', stale: true, backfillStatus: null },
+        { userId: 'fresh-user', stale: false, backfillStatus: null },
+      ]
+    );
+    assert.equal(syncFreshness[2].lastSyncedAt, now - 5 * 60 * 1000);
+  });
+});
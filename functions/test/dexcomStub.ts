@@ -0,0 +1,169 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+// Local stand-in for the Dexcom API: the OAuth token endpoint, /egvs, /dataRange and
+// empty responses for the supplemental record endpoints. Every request is recorded.
+
+export interface StubEgv {
+  systemTime: string; // UTC without offset, as Dexcom sends it
+  displayTime: string;
+  value: number;
+  trend: string;
+  trendRate?: number;
+}
+
+export interface StubRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: URLSearchParams;
+  authorization: string | undefined;
+}
+
+export interface StubDataRange {
+  start: string; // systemTime
+  end: string;
+}
+
+const SUPPLEMENTAL_ENDPOINTS = ['events', 'calibrations', 'devices', 'alerts'];
+
+// The only authorization code the token endpoint accepts
+export const VALID_AUTH_CODE = 'valid-code';
+
+const parseUtc = (value: string): number => new Date(value.endsWith('Z') ? value : `${value}Z`).getTime();
+
+export class DexcomStub {
+  requests: StubRequest[] = [];
+  egvs: StubEgv[] = [];
+  dataRange: StubDataRange | null = null;
+  tokenExpiresInSeconds = 7200;
+  failTokenRequests = false;
+  unavailableEndpoints = new Set<string>(); // Answered with 503 and a Retry-After too long to wait out
+
+  private server: http.Server | null = null;
+  private issuedTokens = 0;
+
+  /**
+   * Start listening on a free port and return the base URL
+   */
+  async start(): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      let rawBody = '';
+      req.on('data', chunk => { rawBody += chunk; });
+      req.on('end', () => this.handle(req, rawBody, res));
+    });
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>((resolve, reject) => this.server!.close(error => error ? reject(error) : resolve()));
+    this.server = null;
+  }
+
+  reset(): void {
+    this.requests = [];
+    this.egvs = [];
+    this.dataRange = null;
+    this.tokenExpiresInSeconds = 7200;
+    this.failTokenRequests = false;
+    this.unavailableEndpoints.clear();
+    this.issuedTokens = 0;
+  }
+
+  requestsTo(path: string): StubRequest[] {
+    return this.requests.filter(request => request.path === path);
+  }
+
+  private handle(req: http.IncomingMessage, rawBody: string, res: http.ServerResponse): void {
+    const url = new URL(req.url ?? '/', 'http://stub');
+    const request: StubRequest = {
+      method: req.method ?? 'GET',
+      path: url.pathname,
+      query: url.searchParams,
+      body: new URLSearchParams(rawBody),
+      authorization: req.headers.authorization,
+    };
+    this.requests.push(request);
+
+    if (this.unavailableEndpoints.has(request.path.replace('/v3/users/self/', ''))) {
+      res.writeHead(503, { 'Content-Type': 'application/json', 'Retry-After': '3600' });
+      res.end(JSON.stringify({ error: 'service_unavailable' }));
+      return;
+    }
+
+    if (request.path === '/v2/oauth2/token' && request.method === 'POST') {
+      this.handleToken(request, res);
+    } else if (request.path === '/v3/users/self/egvs') {
+      this.handleEgvs(request, res);
+    } else if (request.path === '/v3/users/self/dataRange') {
+      this.handleDataRange(res);
+    } else if (SUPPLEMENTAL_ENDPOINTS.some(endpoint => request.path === `/v3/users/self/${endpoint}`)) {
+      this.send(res, 200, { records: [] });
+    } else {
+      this.send(res, 404, { error: 'not_found' });
+    }
+  }
+
+  private handleToken(request: StubRequest, res: http.ServerResponse): void {
+    const grantType = request.body.get('grant_type');
+    const validGrant = grantType === 'authorization_code'
+      ? request.body.get('code') === VALID_AUTH_CODE
+      : grantType === 'refresh_token' && !!request.body.get('refresh_token');
+
+    if (this.failTokenRequests || !validGrant) {
+      this.send(res, 400, { error: 'invalid_grant' });
+      return;
+    }
+
+    this.issuedTokens++;
+    this.send(res, 200, {
+      access_token: `access-${this.issuedTokens}`,
+      refresh_token: `refresh-${this.issuedTokens}`,
+      expires_in: this.tokenExpiresInSeconds,
+      token_type: 'Bearer',
+    });
+  }
+
+  private handleEgvs(request: StubRequest, res: http.ServerResponse): void {
+    if (!request.authorization?.startsWith('Bearer ')) {
+      this.send(res, 401, { error: 'unauthorized' });
+      return;
+    }
+
+    const startDate = request.query.get('startDate');
+    const endDate = request.query.get('endDate');
+    if (!startDate || !endDate) {
+      this.send(res, 400, { error: 'startDate and endDate are required' });
+      return;
+    }
+
+    const start = parseUtc(startDate);
+    const end = parseUtc(endDate);
+    const records = this.egvs.filter(egv => {
+      const time = parseUtc(egv.systemTime);
+      return time >= start && time <= end;
+    });
+    this.send(res, 200, { recordType: 'egv', recordVersion: '3.0', userId: 'stub-user', records });
+  }
+
+  private handleDataRange(res: http.ServerResponse): void {
+    if (!this.dataRange) {
+      this.send(res, 200, {});
+      return;
+    }
+    this.send(res, 200, {
+      egvs: {
+        start: { systemTime: this.dataRange.start, displayTime: this.dataRange.start },
+        end: { systemTime: this.dataRange.end, displayTime: this.dataRange.end },
+      },
+    });
+  }
+
+  private send(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
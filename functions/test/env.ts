@@ -0,0 +1,20 @@
+import * as crypto from 'crypto';
+
+// Environment for the integration suite. Imported before the functions module so that
+// module-level initialization (admin.initializeApp, dotenv) sees these values.
+
+if (!process.env.FIRESTORE_EMULATOR_HOST) {
+  throw new Error('FIRESTORE_EMULATOR_HOST is not set; run the suite with `npm test` so it uses the Firestore emulator');
+}
+
+// A demo- project ID keeps the Admin SDK from reaching any real Firebase project
+process.env.GCLOUD_PROJECT = process.env.GCLOUD_PROJECT || 'demo-glucose-dashboard';
+
+process.env.DEXCOM_CLIENT_ID = 'test-client-id';
+process.env.DEXCOM_CLIENT_SECRET = 'test-client-secret';
+process.env.DEXCOM_REDIRECT_URI = 'http://localhost/dexcomOAuthCallback';
+process.env.DEXCOM_FRONTEND_URL = 'http://localhost:5173';
+process.env.DEXCOM_USE_PKCE = 'false';
+process.env.TOKEN_ENCRYPTION_KEYS = `test:${crypto.randomBytes(32).toString('base64')}`;
+process.env.TOKEN_ENCRYPTION_KEY_ID = 'test';
+process.env.OAUTH_STATE_SECRET = crypto.randomBytes(32).toString('base64');
@@ -0,0 +1,215 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  callAs,
+  clearFirestore,
+  cloudFunctions,
+  connectDexcom,
+  db,
+  makeEgvs,
+  startDexcomStub,
+  useProductionApi,
+  useSandboxApi,
+} from './harness';
+import { DexcomStub } from './dexcomStub';
+
+const USER_ID = 'fetch-user';
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const fetchGlucose = (data: Record<string, unknown> = {}) =>
+  callAs<{ glucoseData: unknown[]; datesAdjusted: boolean }>(cloudFunctions.dexcomFetchGlucoseData, USER_ID, data);
+
+describe('dexcomFetchGlucoseData', () => {
+  let stub: DexcomStub;
+
+  before(async () => {
+    stub = await startDexcomStub();
+  });
+
+  after(async () => {
+    await stub.stop();
+  });
+
+  beforeEach(async () => {
+    stub.reset();
+    useProductionApi();
+    await clearFirestore();
+    await connectDexcom(USER_ID);
+    stub.requests = [];
+  });
+
+  it('requires a connected account', async () => {
+    await assert.rejects(
+      callAs(cloudFunctions.dexcomFetchGlucoseData, 'not-connected'),
+      { code: 'not-found' }
+    );
+  });
+
+  it('reports unreadable tokens instead of treating the account as disconnected', async () => {
+    await db.collection('dexcomTokens').doc(USER_ID).update({ 'encryptedTokens.keyId': 'retired' });
+
+    await assert.rejects(fetchGlucose(), { code: 'internal', message: /could not be read/ });
+    assert.equal(stub.requests.length, 0);
+  });
+
+  describe('date validation', () => {
+    it('rejects unparseable dates', async () => {
+      await assert.rejects(fetchGlucose({ startDate: 'yesterday', endDate: 'today' }), { code: 'invalid-argument' });
+    });
+
+    it('rejects dates before 2020', async () => {
+      await assert.rejects(
+        fetchGlucose({ startDate: '2019-06-01T00:00:00Z', endDate: '2020-06-01T00:00:00Z' }),
+        { code: 'invalid-argument', message: 'Start date cannot be before 2020' }
+      );
+    });
+
+    it('rejects a start date that is not before the end date', async () => {
+      await assert.rejects(
+        fetchGlucose({ startDate: '2024-06-02T00:00:00Z', endDate: '2024-06-01T00:00:00Z' }),
+        { code: 'invalid-argument', message: 'Start date must be before end date' }
+      );
+    });
+
+    it('rejects ranges longer than a year', async () => {
+      await assert.rejects(
+        fetchGlucose({ startDate: '2022-01-01T00:00:00Z', endDate: '2023-06-01T00:00:00Z' }),
+        { code: 'invalid-argument', message: 'Date range cannot exceed 1 year' }
+      );
+    });
+
+    it('rejects a start date in the future', async () => {
+      const start = new Date(Date.now() + DAY_MS);
+      await assert.rejects(
+        fetchGlucose({ startDate: start.toISOString(), endDate: new Date(start.getTime() + HOUR_MS).toISOString() }),
+        { code: 'invalid-argument', message: 'Start date cannot be in the future' }
+      );
+      assert.equal(stub.requestsTo('/v3/users/self/egvs').length, 0);
+    });
+
+    it('clamps a future end date to now and sends UTC systemTime parameters', async () => {
+      const start = new Date(Date.now() - 2 * HOUR_MS);
+      await fetchGlucose({ startDate: start.toISOString(), endDate: new Date(Date.now() + DAY_MS).toISOString() });
+
+      const [request] = stub.requestsTo('/v3/users/self/egvs');
+      assert.equal(request.query.get('startDate'), start.toISOString().slice(0, 19));
+      assert.ok(new Date(`${request.query.get('endDate')}Z`).getTime() <= Date.now());
+    });
+
+    it('defaults to the last 12 hours', async () => {
+      await fetchGlucose();
+
+      const [request] = stub.requestsTo('/v3/users/self/egvs');
+      const start = new Date(`${request.query.get('startDate')}Z`).getTime();
+      const end = new Date(`${request.query.get('endDate')}Z`).getTime();
+      assert.ok(Math.abs(end - start - 12 * HOUR_MS) < 5000);
+    });
+
+    it('splits long ranges into 30-day windows for EGVs and supplemental records', async () => {
+      const end = new Date(Date.now() - HOUR_MS);
+      const start = new Date(end.getTime() - 75 * DAY_MS);
+      await fetchGlucose({ startDate: start.toISOString(), endDate: end.toISOString() });
+
+      for (const endpoint of ['egvs', 'events', 'calibrations', 'devices', 'alerts']) {
+        const requests = stub.requestsTo(`/v3/users/self/${endpoint}`);
+        assert.equal(requests.length, 3, endpoint);
+        for (const request of requests) {
+          const windowMs = new Date(`${request.query.get('endDate')}Z`).getTime()
+            - new Date(`${request.query.get('startDate')}Z`).getTime();
+          assert.ok(windowMs <= 30 * DAY_MS, endpoint);
+        }
+      }
+    });
+  });
+
+  describe('sandbox date adjustment', () => {
+    beforeEach(() => {
+      useSandboxApi();
+      stub.dataRange = { start: '2023-01-01T00:00:00', end: '2023-01-10T00:00:00' };
+    });
+
+    it('moves a range outside the available data to its last 12 hours', async () => {
+      const result = await fetchGlucose({ startDate: '2024-06-01T00:00:00Z', endDate: '2024-06-02T00:00:00Z' });
+
+      assert.equal(result.datesAdjusted, true);
+      const [request] = stub.requestsTo('/v3/users/self/egvs');
+      assert.equal(request.query.get('startDate'), '2023-01-09T12:00:00');
+      assert.equal(request.query.get('endDate'), '2023-01-10T00:00:00');
+    });
+
+    it('clamps an overlapping range to the available data', async () => {
+      const result = await fetchGlucose({ startDate: '2023-01-09T18:00:00Z', endDate: '2023-01-12T00:00:00Z' });
+
+      assert.equal(result.datesAdjusted, true);
+      const [request] = stub.requestsTo('/v3/users/self/egvs');
+      assert.equal(request.query.get('startDate'), '2023-01-09T18:00:00');
+      assert.equal(request.query.get('endDate'), '2023-01-10T00:00:00');
+    });
+
+    it('leaves a range inside the available data unchanged', async () => {
+      const result = await fetchGlucose({ startDate: '2023-01-05T00:00:00Z', endDate: '2023-01-06T00:00:00Z' });
+
+      assert.equal(result.datesAdjusted, false);
+      const [request] = stub.requestsTo('/v3/users/self/egvs');
+      assert.equal(request.query.get('startDate'), '2023-01-05T00:00:00');
+    });
+  });
+
+  describe('storage', () => {
+    it('stores each reading once when the same window is fetched again', async () => {
+      const start = new Date(Math.floor((Date.now() - 3 * HOUR_MS) / HOUR_MS) * HOUR_MS);
+      stub.egvs = makeEgvs(start, new Date(start.getTime() + HOUR_MS));
+      const window = { startDate: start.toISOString(), endDate: new Date(start.getTime() + 2 * HOUR_MS).toISOString() };
+
+      const first = await fetchGlucose(window);
+      await fetchGlucose(window);
+
+      assert.equal(first.glucoseData.length, 12);
+      const stored = await db.collection('glucoseReadings').where('userId', '==', USER_ID).get();
+      assert.equal(stored.size, 12);
+      assert.ok(stored.docs.some(doc => doc.id === `${USER_ID}_${start.getTime()}`));
+      assert.equal(stored.docs[0].data().unit, 'mg/dL');
+    });
+
+    it('stores systemTime as UTC', async () => {
+      stub.egvs = [{ systemTime: '2024-03-10T07:30:00', displayTime: '2024-03-10T03:30:00', value: 101, trend: 'flat' }];
+
+      await fetchGlucose({ startDate: '2024-03-10T00:00:00Z', endDate: '2024-03-11T00:00:00Z' });
+
+      const stored = await db.collection('glucoseReadings').doc(`${USER_ID}_${Date.UTC(2024, 2, 10, 7, 30)}`).get();
+      assert.equal(stored.data()?.systemTime.toDate().toISOString(), '2024-03-10T07:30:00.000Z');
+    });
+  });
+
+  describe('token refresh', () => {
+    beforeEach(async () => {
+      // Tokens that expire inside the refresh buffer
+      await clearFirestore();
+      stub.reset();
+      stub.tokenExpiresInSeconds = 60;
+      await connectDexcom(USER_ID);
+      stub.tokenExpiresInSeconds = 7200;
+      stub.requests = [];
+    });
+
+    it('refreshes tokens that are about to expire before calling the API', async () => {
+      await fetchGlucose();
+
+      const [refresh] = stub.requestsTo('/v2/oauth2/token');
+      assert.equal(refresh.body.get('grant_type'), 'refresh_token');
+      assert.equal(refresh.body.get('refresh_token'), 'refresh-1');
+      assert.equal(stub.requestsTo('/v3/users/self/egvs')[0].authorization, 'Bearer access-2');
+
+      const tokenDoc = (await db.collection('dexcomTokens').doc(USER_ID).get()).data()!;
+      assert.ok(tokenDoc.expiresAt > Date.now() + HOUR_MS);
+    });
+
+    it('fails without calling the API when the refresh is rejected', async () => {
+      stub.failTokenRequests = true;
+
+      await assert.rejects(fetchGlucose(), { code: 'internal' });
+      assert.equal(stub.requestsTo('/v3/users/self/egvs').length, 0);
+    });
+  });
+});
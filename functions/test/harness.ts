@@ -0,0 +1,96 @@
+import './env';
+import * as admin from 'firebase-admin';
+import type { Request } from 'firebase-functions/v1/https';
+import type { Response } from 'express';
+import * as cloudFunctions from '../src/index';
+import { DexcomStub, StubEgv, VALID_AUTH_CODE } from './dexcomStub';
+
+export { cloudFunctions };
+
+// Firestore as seen by the functions under test; importing the functions has already initialized the app
+export const db = admin.firestore();
+
+interface Runnable {
+  run: (data: unknown, context: unknown) => unknown;
+}
+
+type RequestHandler = (req: Request, res: Response) => unknown;
+
+/**
+ * Delete every document in the emulator's default database
+ */
+export async function clearFirestore(): Promise<void> {
+  const url = `http://${process.env.FIRESTORE_EMULATOR_HOST}/emulator/v1/projects/${process.env.GCLOUD_PROJECT}/databases/(default)/documents`;
+  const response = await fetch(url, { method: 'DELETE' });
+  if (!response.ok) {
+    throw new Error(`Failed to clear the Firestore emulator: ${response.status}`);
+  }
+}
+
+/**
+ * Invoke a callable function directly, signed in as the given user (or signed out for null)
+ * with the given custom claims on their ID token
+ */
+export async function callAs<T = unknown>(fn: Runnable, uid: string | null, data: unknown = {}, claims: Record<string, unknown> = {}): Promise<T> {
+  return await fn.run(data, uid ? { auth: { uid, token: claims } } : {}) as T;
+}
+
+/**
+ * Invoke an HTTP function with a GET query and resolve with the URL it redirects to
+ */
+export function getRedirect(fn: RequestHandler, query: Record<string, string>): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const headers = new Map<string, unknown>();
+    const req = { method: 'GET', url: `/?${new URLSearchParams(query)}`, headers: {}, query };
+    const res = {
+      statusCode: 200,
+      setHeader: (name: string, value: unknown) => { headers.set(name.toLowerCase(), value); },
+      getHeader: (name: string) => headers.get(name.toLowerCase()),
+      redirect: (url: string) => resolve(url),
+      status(code: number) { this.statusCode = code; return this; },
+      send: (body: unknown) => reject(new Error(`Expected a redirect, got ${res.statusCode}: ${JSON.stringify(body)}`)),
+      end: () => reject(new Error(`Expected a redirect, got ${res.statusCode}`)),
+    };
+    Promise.resolve(fn(req as unknown as Request, res as unknown as Response)).catch(reject);
+  });
+}
+
+/**
+ * Run the OAuth start and callback for a user against the stub and return the callback redirect
+ */
+export async function connectDexcom(uid: string, code: string = VALID_AUTH_CODE): Promise<string> {
+  const { authUrl } = await callAs<{ authUrl: string }>(cloudFunctions.dexcomOAuthStart, uid);
+  const state = new URL(authUrl).searchParams.get('state')!;
+  return getRedirect(cloudFunctions.dexcomOAuthCallback, { code, state });
+}
+
+// getDexcomConfig() treats DEXCOM_USE_SANDBOX === 'false' as sandbox mode, so tests select
+// the mode through these helpers rather than spelling out the flag value
+export function useProductionApi(): void {
+  process.env.DEXCOM_USE_SANDBOX = 'true';
+}
+
+export function useSandboxApi(): void {
+  process.env.DEXCOM_USE_SANDBOX = 'false';
+}
+
+/**
+ * Dexcom-formatted EGVs every 5 minutes from start (inclusive) to end (exclusive)
+ */
+export function makeEgvs(start: Date, end: Date, value: number = 120): StubEgv[] {
+  const egvs: StubEgv[] = [];
+  for (let time = start.getTime(); time < end.getTime(); time += 5 * 60 * 1000) {
+    const systemTime = new Date(time).toISOString().slice(0, 19);
+    egvs.push({ systemTime, displayTime: systemTime, value, trend: 'flat', trendRate: 0 });
+  }
+  return egvs;
+}
+
+/**
+ * Start a stub Dexcom API and point the functions at it
+ */
+export async function startDexcomStub(): Promise<DexcomStub> {
+  const stub = new DexcomStub();
+  process.env.DEXCOM_API_BASE_URL = await stub.start();
+  return stub;
+}
@@ -0,0 +1,158 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import { callAs, clearFirestore, cloudFunctions, connectDexcom, db, getRedirect, startDexcomStub, useProductionApi } from './harness';
+import { DexcomStub, VALID_AUTH_CODE } from './dexcomStub';
+
+const USER_ID = 'oauth-user';
+const FRONTEND_URL = process.env.DEXCOM_FRONTEND_URL;
+
+const startOAuth = async (uid: string = USER_ID): Promise<URL> => {
+  const { authUrl } = await callAs<{ authUrl: string }>(cloudFunctions.dexcomOAuthStart, uid);
+  return new URL(authUrl);
+};
+
+describe('Dexcom OAuth callback', () => {
+  let stub: DexcomStub;
+
+  before(async () => {
+    stub = await startDexcomStub();
+    useProductionApi();
+  });
+
+  after(async () => {
+    await stub.stop();
+  });
+
+  beforeEach(async () => {
+    stub.reset();
+    process.env.DEXCOM_USE_PKCE = 'false';
+    await clearFirestore();
+  });
+
+  it('rejects unauthenticated start requests', async () => {
+    await assert.rejects(callAs(cloudFunctions.dexcomOAuthStart, null), { code: 'unauthenticated' });
+  });
+
+  it('exchanges the code, stores encrypted tokens and queues a backfill', async () => {
+    const redirect = await connectDexcom(USER_ID);
+    assert.equal(redirect, `${FRONTEND_URL}/dexcom?success=true`);
+
+    const [tokenRequest] = stub.requestsTo('/v2/oauth2/token');
+    assert.equal(tokenRequest.body.get('grant_type'), 'authorization_code');
+    assert.equal(tokenRequest.body.get('code'), VALID_AUTH_CODE);
+    assert.equal(tokenRequest.body.get('redirect_uri'), process.env.DEXCOM_REDIRECT_URI);
+    assert.equal(tokenRequest.body.has('code_verifier'), false);
+
+    const tokenDoc = (await db.collection('dexcomTokens').doc(USER_ID).get()).data()!;
+    assert.ok(tokenDoc.encryptedTokens);
+    assert.equal(tokenDoc.accessToken, undefined);
+    assert.equal(tokenDoc.refreshToken, undefined);
+    assert.ok(!JSON.stringify(tokenDoc).includes('access-1'));
+
+    const backfill = await db.collection('dexcomBackfills').doc(USER_ID).get();
+    assert.equal(backfill.data()?.status, 'queued');
+  });
+
+  it('binds the account to the user who started the flow', async () => {
+    const authUrl = await startOAuth('victim');
+    const redirect = await getRedirect(cloudFunctions.dexcomOAuthCallback, {
+      code: VALID_AUTH_CODE,
+      state: authUrl.searchParams.get('state')!,
+    });
+
+    assert.equal(redirect, `${FRONTEND_URL}/dexcom?success=true`);
+    assert.ok((await db.collection('dexcomTokens').doc('victim').get()).exists);
+    assert.equal((await db.collection('dexcomTokens').doc(USER_ID).get()).exists, false);
+  });
+
+  it('rejects a replayed state', async () => {
+    const state = (await startOAuth()).searchParams.get('state')!;
+
+    await getRedirect(cloudFunctions.dexcomOAuthCallback, { code: VALID_AUTH_CODE, state });
+    const replay = await getRedirect(cloudFunctions.dexcomOAuthCallback, { code: VALID_AUTH_CODE, state });
+
+    assert.equal(replay, `${FRONTEND_URL}/dexcom?error=invalid_state`);
+    assert.equal(stub.requestsTo('/v2/oauth2/token').length, 1);
+  });
+
+  it('rejects a state whose payload was changed', async () => {
+    const state = (await startOAuth()).searchParams.get('state')!;
+    const [payload, signature] = state.split('.');
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    const forged = Buffer.from(JSON.stringify({ ...claims, uid: 'attacker' })).toString('base64url');
+
+    const redirect = await getRedirect(cloudFunctions.dexcomOAuthCallback, {
+      code: VALID_AUTH_CODE,
+      state: `${forged}.${signature}`,
+    });
+
+    assert.equal(redirect, `${FRONTEND_URL}/dexcom?error=invalid_state`);
+    assert.equal(stub.requestsTo('/v2/oauth2/token').length, 0);
+  });
+
+  it('rejects an unsigned legacy state', async () => {
+    const legacyState = Buffer.from(JSON.stringify({ userId: USER_ID, timestamp: Date.now(), nonce: 'x' })).toString('base64');
+
+    const redirect = await getRedirect(cloudFunctions.dexcomOAuthCallback, { code: VALID_AUTH_CODE, state: legacyState });
+
+    assert.equal(redirect, `${FRONTEND_URL}/dexcom?error=invalid_state`);
+  });
+
+  it('rejects a state after its stored record has expired', async () => {
+    const state = (await startOAuth()).searchParams.get('state')!;
+    const stored = await db.collection('oauthStates').get();
+    await stored.docs[0].ref.update({ expiresAt: Date.now() - 1000 });
+
+    const redirect = await getRedirect(cloudFunctions.dexcomOAuthCallback, { code: VALID_AUTH_CODE, state });
+
+    assert.equal(redirect, `${FRONTEND_URL}/dexcom?error=invalid_state`);
+    assert.equal((await db.collection('oauthStates').get()).size, 0);
+  });
+
+  it('sends a PKCE verifier matching the challenge when enabled', async () => {
+    process.env.DEXCOM_USE_PKCE = 'true';
+    const authUrl = await startOAuth();
+    assert.equal(authUrl.searchParams.get('code_challenge_method'), 'S256');
+
+    await getRedirect(cloudFunctions.dexcomOAuthCallback, {
+      code: VALID_AUTH_CODE,
+      state: authUrl.searchParams.get('state')!,
+    });
+
+    const verifier = stub.requestsTo('/v2/oauth2/token')[0].body.get('code_verifier')!;
+    const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+    assert.equal(challenge, authUrl.searchParams.get('code_challenge'));
+  });
+
+  it('passes provider errors through to the frontend', async () => {
+    const redirect = await getRedirect(cloudFunctions.dexcomOAuthCallback, { error: 'access_denied' });
+    assert.equal(redirect, `${FRONTEND_URL}/dexcom?error=access_denied`);
+  });
+
+  it('reports missing parameters', async () => {
+    const redirect = await getRedirect(cloudFunctions.dexcomOAuthCallback, { code: VALID_AUTH_CODE });
+    assert.equal(redirect, `${FRONTEND_URL}/dexcom?error=missing_parameters`);
+  });
+
+  it('reports a failed token exchange without storing tokens', async () => {
+    const redirect = await connectDexcom(USER_ID, 'wrong-code');
+
+    assert.equal(redirect, `${FRONTEND_URL}/dexcom?error=token_exchange_failed`);
+    assert.equal((await db.collection('dexcomTokens').doc(USER_ID).get()).exists, false);
+  });
+
+  it('reports a failure to store tokens instead of success', async () => {
+    const keyId = process.env.TOKEN_ENCRYPTION_KEY_ID;
+    process.env.TOKEN_ENCRYPTION_KEY_ID = 'unconfigured';
+    try {
+      const redirect = await connectDexcom(USER_ID);
+
+      assert.equal(redirect, `${FRONTEND_URL}/dexcom?error=connection_failed`);
+    } finally {
+      process.env.TOKEN_ENCRYPTION_KEY_ID = keyId;
+    }
+    assert.equal((await db.collection('dexcomTokens').doc(USER_ID).get()).exists, false);
+    assert.equal((await db.collection('dexcomBackfills').doc(USER_ID).get()).exists, false);
+  });
+});
@@ -0,0 +1,149 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as admin from 'firebase-admin';
+import { clearFirestore, cloudFunctions, connectDexcom, db, makeEgvs, startDexcomStub, useProductionApi } from './harness';
+import { DexcomStub } from './dexcomStub';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const runScheduledPull = () => cloudFunctions.scheduledGlucoseDataPull.run({}, {});
+
+const getCursor = async (uid: string): Promise<number | undefined> => {
+  const doc = await db.collection('dexcomSyncState').doc(uid).get();
+  return doc.data()?.lastSyncedSystemTime.toMillis();
+};
+
+const countReadings = async (uid: string): Promise<number> =>
+  (await db.collection('glucoseReadings').where('userId', '==', uid).get()).size;
+
+describe('scheduledGlucoseDataPull', () => {
+  let stub: DexcomStub;
+
+  before(async () => {
+    stub = await startDexcomStub();
+    useProductionApi();
+  });
+
+  after(async () => {
+    await stub.stop();
+  });
+
+  beforeEach(async () => {
+    stub.reset();
+    await clearFirestore();
+  });
+
+  it('does nothing when no user is connected', async () => {
+    await runScheduledPull();
+    assert.equal(stub.requests.length, 0);
+  });
+
+  it('pulls the last hour for a user without a cursor and saves the cursor', async () => {
+    await connectDexcom('new-user');
+    const now = Date.now();
+    stub.egvs = makeEgvs(new Date(now - 50 * 60 * 1000), new Date(now - 5 * 60 * 1000));
+    stub.requests = [];
+
+    await runScheduledPull();
+
+    const [request] = stub.requestsTo('/v3/users/self/egvs');
+    const start = new Date(`${request.query.get('startDate')}Z`).getTime();
+    assert.ok(Math.abs(start - (now - HOUR_MS)) < 60 * 1000);
+    assert.equal(await countReadings('new-user'), stub.egvs.length);
+
+    const latestReading = new Date(`${stub.egvs[stub.egvs.length - 1].systemTime}Z`).getTime();
+    assert.ok((await getCursor('new-user'))! >= latestReading);
+  });
+
+  it('catches up from an old cursor in chunks', async () => {
+    await connectDexcom('returning-user');
+    const cursor = Date.now() - 40 * DAY_MS;
+    await db.collection('dexcomSyncState').doc('returning-user').set({
+      userId: 'returning-user',
+      lastSyncedSystemTime: admin.firestore.Timestamp.fromMillis(cursor),
+    });
+    stub.egvs = makeEgvs(new Date(cursor + DAY_MS), new Date(cursor + DAY_MS + HOUR_MS));
+    stub.requests = [];
+
+    await runScheduledPull();
+
+    const requests = stub.requestsTo('/v3/users/self/egvs');
+    assert.equal(requests.length, 2);
+    assert.equal(requests[0].query.get('startDate'), new Date(cursor).toISOString().slice(0, 19));
+    assert.equal(requests[1].query.get('startDate'), requests[0].query.get('endDate'));
+    assert.equal(await countReadings('returning-user'), 12);
+    assert.ok((await getCursor('returning-user'))! > Date.now() - HOUR_MS - 60 * 1000);
+  });
+
+  it('keeps the cursor on a window whose supplemental records failed to load', async () => {
+    await connectDexcom('outage-user');
+    const cursor = Date.now() - 3 * HOUR_MS;
+    await db.collection('dexcomSyncState').doc('outage-user').set({
+      userId: 'outage-user',
+      lastSyncedSystemTime: admin.firestore.Timestamp.fromMillis(cursor),
+    });
+    stub.egvs = makeEgvs(new Date(cursor + HOUR_MS), new Date(cursor + 2 * HOUR_MS));
+    stub.unavailableEndpoints.add('events');
+
+    await runScheduledPull();
+
+    assert.equal(await getCursor('outage-user'), cursor);
+
+    stub.unavailableEndpoints.clear();
+    await runScheduledPull();
+
+    assert.ok((await getCursor('outage-user'))! > cursor + 2 * HOUR_MS - 60 * 1000);
+  });
+
+  it('does not store duplicates when overlapping windows are pulled again', async () => {
+    await connectDexcom('repeat-user');
+    const now = Date.now();
+    stub.egvs = makeEgvs(new Date(now - 50 * 60 * 1000), new Date(now - 5 * 60 * 1000));
+
+    await runScheduledPull();
+    await runScheduledPull();
+
+    assert.equal(await countReadings('repeat-user'), stub.egvs.length);
+  });
+
+  it('refreshes expiring tokens before pulling', async () => {
+    stub.tokenExpiresInSeconds = 60;
+    await connectDexcom('expiring-user');
+    stub.tokenExpiresInSeconds = 7200;
+    stub.requests = [];
+
+    await runScheduledPull();
+
+    const [refresh] = stub.requestsTo('/v2/oauth2/token');
+    assert.equal(refresh.body.get('grant_type'), 'refresh_token');
+    assert.equal(stub.requestsTo('/v3/users/self/egvs')[0].authorization, 'Bearer access-2');
+  });
+
+  it('keeps pulling other users when one user fails', async () => {
+    await connectDexcom('healthy-user');
+    await db.collection('dexcomTokens').doc('broken-user').set({
+      userId: 'broken-user',
+      encryptedTokens: { keyId: 'unknown', wrappedKey: {}, tokens: {} },
+      expiresAt: Date.now() + DAY_MS,
+    });
+    const now = Date.now();
+    stub.egvs = makeEgvs(new Date(now - 30 * 60 * 1000), new Date(now - 5 * 60 * 1000));
+
+    await runScheduledPull();
+
+    assert.equal(await countReadings('healthy-user'), stub.egvs.length);
+    assert.equal(await getCursor('broken-user'), undefined);
+  });
+
+  it('removes expired OAuth states', async () => {
+    await db.collection('oauthStates').doc('stale').set({ userId: 'someone', codeVerifier: null, expiresAt: Date.now() - 1000 });
+    await db.collection('oauthStates').doc('pending').set({ userId: 'someone', codeVerifier: null, expiresAt: Date.now() + 60 * 1000 });
+    await connectDexcom('state-user');
+
+    await runScheduledPull();
+
+    const remaining = await db.collection('oauthStates').get();
+    assert.deepEqual(remaining.docs.map(doc => doc.id), ['pending']);
+  });
+});
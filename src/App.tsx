@@ -6,14 +6,23 @@ import { ScrollToTop } from "./components/common/ScrollToTop";
 import Home from "./pages/Dashboard/Home";
 import Dexcom from "./pages/Dashboard/Dexcom";
 import Calendar from "./pages/Calendar";
+import AgpReport from "./pages/AgpReport";
+import ClinicianReport from "./pages/ClinicianReport";
+import Profile from "./pages/Profile";
+import AdminHealth from "./pages/AdminHealth";
 import { GlucoseProvider } from "./context/GlucoseContext";
 import { DexcomProvider } from "./context/DexcomContext";
 import { AuthProvider } from "./context/AuthContext";
+import { UserSettingsProvider } from "./context/UserSettingsContext";
+import { HealthEventsProvider } from "./context/HealthEventsContext";
 import ProtectedRoute from "./components/auth/ProtectedRoute";
+import AdminRoute from "./components/auth/AdminRoute";
 
 export default function App() {
   return (
     <AuthProvider>
+      <UserSettingsProvider>
+      <HealthEventsProvider>
       <GlucoseProvider>
         <DexcomProvider>
           <Router>
@@ -28,8 +37,22 @@ export default function App() {
               <Route index path="/" element={<Home />} />
               <Route path="/dexcom" element={<Dexcom />} />
               <Route path="/calendar" element={<Calendar />} />
+              <Route path="/agp" element={<AgpReport />} />
+              <Route path="/profile" element={<Profile />} />
+              <Route path="/admin/health" element={
+                <AdminRoute>
+                  <AdminHealth />
+                </AdminRoute>
+              } />
             </Route>
 
+            {/* Print-ready report, rendered without the dashboard chrome */}
+            <Route path="/report" element={
+              <ProtectedRoute>
+                <ClinicianReport />
+              </ProtectedRoute>
+            } />
+
             {/* Public Auth Routes */}
             <Route path="/signin" element={<SignIn />} />
 
@@ -39,6 +62,8 @@ export default function App() {
           </Router>
         </DexcomProvider>
       </GlucoseProvider>
+      </HealthEventsProvider>
+      </UserSettingsProvider>
     </AuthProvider>
   );
 }
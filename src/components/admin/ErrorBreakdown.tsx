@@ -0,0 +1,35 @@
+import { ErrorCount } from "../../services/adminHealth";
+
+interface ErrorBreakdownProps {
+  errors: ErrorCount[];
+  failures: number;
+}
+
+export default function ErrorBreakdown({ errors, failures }: ErrorBreakdownProps) {
+  if (errors.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        No failures in this window.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-3">
+      {errors.map(({ message, count }) => (
+        <li key={message}>
+          <div className="flex items-start justify-between gap-4 text-sm">
+            <span className="text-gray-800 dark:text-gray-200 break-all">{message}</span>
+            <span className="shrink-0 font-semibold text-red-600 dark:text-red-400">{count}</span>
+          </div>
+          <div className="mt-1 h-1.5 rounded-full bg-gray-100 dark:bg-gray-800">
+            <div
+              className="h-1.5 rounded-full bg-red-500"
+              style={{ width: `${(count / failures) * 100}%` }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
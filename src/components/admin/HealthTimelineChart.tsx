@@ -0,0 +1,89 @@
+import Chart from "react-apexcharts";
+import { ApexOptions } from "apexcharts";
+import { HealthBucket, formatLatency } from "../../services/adminHealth";
+import { formatInTimeZone } from "../../services/timezone";
+
+interface HealthTimelineChartProps {
+  buckets: HealthBucket[];
+  bucketMs: number;
+  timeZone: string;
+}
+
+// Success rate and p95 latency per time bucket; empty buckets leave gaps rather than dropping to zero
+export default function HealthTimelineChart({ buckets, bucketMs, timeZone }: HealthTimelineChartProps) {
+  const timeFormat = bucketMs >= 24 * 60 * 60 * 1000 ? 'MMM d' : 'MMM d, h a';
+
+  const series = [
+    {
+      name: 'Success rate',
+      type: 'column',
+      data: buckets.map(bucket => ({
+        x: bucket.start,
+        y: bucket.successRate === null ? null : Math.round(bucket.successRate * 1000) / 10
+      }))
+    },
+    {
+      name: 'p95 latency',
+      type: 'line',
+      data: buckets.map(bucket => ({ x: bucket.start, y: bucket.p95Ms }))
+    }
+  ];
+
+  const options: ApexOptions = {
+    chart: {
+      fontFamily: "Outfit, sans-serif",
+      type: 'line',
+      height: 300,
+      toolbar: { show: false },
+      zoom: { enabled: false },
+      animations: { enabled: false },
+      redrawOnWindowResize: true,
+      redrawOnParentResize: true
+    },
+    colors: ["#22c55e", "#3b82f6"],
+    stroke: {
+      width: [0, 2]
+    },
+    markers: { size: [0, 3] },
+    dataLabels: { enabled: false },
+    xaxis: {
+      type: 'datetime',
+      labels: {
+        formatter: (value: string) => formatInTimeZone(Number(value), timeFormat, timeZone)
+      },
+      tooltip: { enabled: false }
+    },
+    yaxis: [
+      {
+        title: { text: 'Success rate (%)' },
+        min: 0,
+        max: 100,
+        tickAmount: 5
+      },
+      {
+        opposite: true,
+        title: { text: 'p95 latency (ms)' },
+        min: 0,
+        labels: { formatter: (value: number) => `${Math.round(value)}` }
+      }
+    ],
+    tooltip: {
+      shared: true,
+      x: { formatter: (value: number) => formatInTimeZone(value, 'MMM d, h:mm a', timeZone) },
+      y: [
+        { formatter: (value: number | null) => (value === null ? '--' : `${value}%`) },
+        { formatter: (value: number | null) => formatLatency(value ?? null) }
+      ]
+    },
+    legend: {
+      position: 'top',
+      horizontalAlign: 'left'
+    }
+  };
+
+  return (
+    <div className="w-full">
+      <Chart options={options} series={series} type="line" height={300} />
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { OperationHealth, formatLatency, formatSuccessRate } from "../../services/adminHealth";
+
+interface OperationHealthTableProps {
+  operations: OperationHealth[];
+  selected: string | null;
+  onSelect: (operation: string) => void;
+}
+
+// Below this success rate an operation is highlighted as degraded
+const DEGRADED_SUCCESS_RATE = 0.95;
+
+const headerClass = "px-4 py-2 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider";
+
+export default function OperationHealthTable({ operations, selected, onSelect }: OperationHealthTableProps) {
+  if (operations.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        No operations were recorded in this window.
+      </p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead className="bg-gray-50 dark:bg-gray-800/50">
+          <tr>
+            <th className={`${headerClass} text-left`}>Operation</th>
+            <th className={`${headerClass} text-right`}>Calls</th>
+            <th className={`${headerClass} text-right`}>Failures</th>
+            <th className={`${headerClass} text-right`}>Success rate</th>
+            <th className={`${headerClass} text-right`}>p50</th>
+            <th className={`${headerClass} text-right`}>p95</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+          {operations.map(operation => {
+            const degraded = operation.successRate !== null && operation.successRate < DEGRADED_SUCCESS_RATE;
+            const isSelected = operation.operation === selected;
+            return (
+              <tr
+                key={operation.operation}
+                onClick={() => onSelect(operation.operation)}
+                className={`cursor-pointer ${isSelected ? 'bg-blue-50 dark:bg-blue-900/20' : 'hover:bg-gray-50 dark:hover:bg-gray-800/30'}`}
+              >
+                <td className="px-4 py-2 text-sm font-medium text-gray-900 dark:text-gray-100">
+                  {operation.operation}
+                </td>
+                <td className="px-4 py-2 text-sm text-right text-gray-600 dark:text-gray-400">{operation.total}</td>
+                <td className="px-4 py-2 text-sm text-right text-gray-600 dark:text-gray-400">{operation.failures}</td>
+                <td className={`px-4 py-2 text-sm text-right font-semibold ${degraded ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                  {formatSuccessRate(operation.successRate)}
+                </td>
+                <td className="px-4 py-2 text-sm text-right text-gray-600 dark:text-gray-400">{formatLatency(operation.p50Ms)}</td>
+                <td className="px-4 py-2 text-sm text-right text-gray-600 dark:text-gray-400">{formatLatency(operation.p95Ms)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
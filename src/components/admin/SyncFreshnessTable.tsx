@@ -0,0 +1,54 @@
+import { formatDistanceStrict } from "date-fns";
+import { SyncFreshness } from "../../services/adminHealth";
+import { formatInTimeZone } from "../../services/timezone";
+
+interface SyncFreshnessTableProps {
+  users: SyncFreshness[];
+  generatedAt: number;
+  timeZone: string;
+}
+
+const headerClass = "px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider";
+
+export default function SyncFreshnessTable({ users, generatedAt, timeZone }: SyncFreshnessTableProps) {
+  if (users.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        No users have connected Dexcom.
+      </p>
+    );
+  }
+
+  return (
+    <div className="max-h-96 overflow-auto">
+      <table className="w-full">
+        <thead className="bg-gray-50 dark:bg-gray-800/50 sticky top-0">
+          <tr>
+            <th className={headerClass}>User</th>
+            <th className={headerClass}>Last scheduled sync</th>
+            <th className={headerClass}>Synced up to</th>
+            <th className={headerClass}>Backfill</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+          {users.map(user => (
+            <tr key={user.userId} className="hover:bg-gray-50 dark:hover:bg-gray-800/30">
+              <td className="px-4 py-2 text-sm font-mono text-gray-900 dark:text-gray-100">{user.userId}</td>
+              <td className={`px-4 py-2 text-sm ${user.stale ? 'font-semibold text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-400'}`}>
+                {user.lastSyncedAt === null
+                  ? 'Never'
+                  : `${formatDistanceStrict(user.lastSyncedAt, generatedAt)} ago`}
+              </td>
+              <td className="px-4 py-2 text-sm text-gray-600 dark:text-gray-400">
+                {user.cursor === null ? '-' : formatInTimeZone(user.cursor, 'MMM d, h:mm a', timeZone)}
+              </td>
+              <td className="px-4 py-2 text-sm text-gray-600 dark:text-gray-400">
+                {user.backfillStatus ?? '-'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
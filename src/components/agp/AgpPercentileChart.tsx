@@ -0,0 +1,112 @@
+import Chart from "react-apexcharts";
+import { ApexOptions } from "apexcharts";
+import { AgpPercentilePoint } from "../../services/agp";
+import { getRangeBandLabel } from "../../services/glucoseStats";
+import { convertGlucose } from "../../services/glucoseUnits";
+import { useUserSettings } from "../../context/UserSettingsContext";
+
+interface AgpPercentileChartProps {
+  profile: AgpPercentilePoint[];
+}
+
+// Percentile points are plotted against an arbitrary day so the x-axis reads as time of day
+const toTimeOfDay = (minuteOfDay: number): number => {
+  const reference = new Date();
+  reference.setHours(0, 0, 0, 0);
+  return reference.getTime() + minuteOfDay * 60 * 1000;
+};
+
+export default function AgpPercentileChart({ profile }: AgpPercentileChartProps) {
+  const { settings: { glucoseUnit, targetThresholds } } = useUserSettings();
+  const toUnit = (value: number) => convertGlucose(value, glucoseUnit);
+
+  const series = [
+    {
+      name: '5–95%',
+      type: 'rangeArea',
+      data: profile.map(point => ({ x: toTimeOfDay(point.minuteOfDay), y: [toUnit(point.p5), toUnit(point.p95)] }))
+    },
+    {
+      name: '25–75%',
+      type: 'rangeArea',
+      data: profile.map(point => ({ x: toTimeOfDay(point.minuteOfDay), y: [toUnit(point.p25), toUnit(point.p75)] }))
+    },
+    {
+      name: 'Median',
+      type: 'line',
+      data: profile.map(point => ({ x: toTimeOfDay(point.minuteOfDay), y: toUnit(point.p50) }))
+    }
+  ];
+
+  const options: ApexOptions = {
+    chart: {
+      fontFamily: "Outfit, sans-serif",
+      type: 'rangeArea',
+      height: 380,
+      toolbar: { show: false },
+      zoom: { enabled: false },
+      animations: { enabled: false },
+      redrawOnWindowResize: true,
+      redrawOnParentResize: true
+    },
+    colors: ["#93c5fd", "#3b82f6", "#1e3a8a"],
+    fill: {
+      opacity: [0.35, 0.55, 1]
+    },
+    stroke: {
+      curve: 'smooth',
+      width: [0, 0, 3]
+    },
+    dataLabels: { enabled: false },
+    xaxis: {
+      type: 'datetime',
+      labels: {
+        datetimeUTC: false,
+        format: 'h TT'
+      },
+      tooltip: { enabled: false }
+    },
+    yaxis: {
+      title: { text: `Blood Glucose (${glucoseUnit})` },
+      min: toUnit(40),
+      max: toUnit(350),
+      tickAmount: 7
+    },
+    tooltip: {
+      shared: true,
+      x: { format: 'h:mm TT' }
+    },
+    annotations: {
+      yaxis: [
+        {
+          y: toUnit(targetThresholds.low),
+          y2: toUnit(targetThresholds.high),
+          fillColor: '#22c55e',
+          opacity: 0.08,
+          borderColor: '#22c55e',
+          label: {
+            text: `Target ${getRangeBandLabel('inRange', targetThresholds, glucoseUnit)}`,
+            style: { color: '#15803d', background: '#dcfce7' }
+          }
+        }
+      ]
+    },
+    legend: {
+      position: 'top'
+    }
+  };
+
+  if (profile.length === 0) {
+    return (
+      <div className="py-12 text-center text-sm text-gray-500 dark:text-gray-400">
+        Not enough CGM data to build a glucose profile.
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full">
+      <Chart options={options} series={series} type="rangeArea" height={380} />
+    </div>
+  );
+}
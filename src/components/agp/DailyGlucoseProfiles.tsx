@@ -0,0 +1,107 @@
+import Chart from "react-apexcharts";
+import { ApexOptions } from "apexcharts";
+import { format, parseISO } from "date-fns";
+import { DailyGlucoseProfile } from "../../services/agp";
+import { GlucoseThresholds } from "../../services/glucoseStats";
+import { GlucoseUnit, convertGlucose } from "../../services/glucoseUnits";
+import { formatInTimeZone, getDayBounds } from "../../services/timezone";
+import { useUserSettings } from "../../context/UserSettingsContext";
+
+interface DailyGlucoseProfilesProps {
+  days: DailyGlucoseProfile[];
+}
+
+interface DailyProfileChartProps {
+  day: DailyGlucoseProfile;
+  glucoseUnit: GlucoseUnit;
+  thresholds: GlucoseThresholds;
+  timeZone: string;
+}
+
+function DailyProfileChart({ day, glucoseUnit, thresholds, timeZone }: DailyProfileChartProps) {
+  const date = parseISO(day.date);
+  const bounds = getDayBounds(day.date, timeZone);
+  const toUnit = (value: number) => convertGlucose(value, glucoseUnit);
+
+  const options: ApexOptions = {
+    chart: {
+      type: 'line',
+      height: 110,
+      sparkline: { enabled: true },
+      animations: { enabled: false }
+    },
+    colors: ["#1e3a8a"],
+    stroke: {
+      curve: 'smooth',
+      width: 1.5
+    },
+    xaxis: {
+      type: 'datetime',
+      min: bounds.start.getTime(),
+      max: bounds.end.getTime()
+    },
+    yaxis: {
+      min: toUnit(40),
+      max: toUnit(350)
+    },
+    tooltip: {
+      x: { formatter: (val: number) => formatInTimeZone(val, 'h:mm a', timeZone) },
+      y: { formatter: (val: number) => `${val} ${glucoseUnit}` }
+    },
+    annotations: {
+      yaxis: [
+        {
+          y: toUnit(thresholds.low),
+          y2: toUnit(thresholds.high),
+          fillColor: '#22c55e',
+          opacity: 0.12,
+          borderColor: 'transparent'
+        }
+      ]
+    }
+  };
+
+  const series = [
+    {
+      name: 'Glucose',
+      data: day.readings.map(reading => ({
+        x: new Date(reading.timestamp).getTime(),
+        y: toUnit(reading.value)
+      }))
+    }
+  ];
+
+  return (
+    <div className="rounded-lg border border-gray-200 p-2 dark:border-gray-800">
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-theme-xs font-medium text-gray-700 dark:text-gray-300">
+          {format(date, 'EEE MMM d')}
+        </span>
+        <span className="text-theme-xs text-gray-500 dark:text-gray-400">
+          {day.readings.length}
+        </span>
+      </div>
+      <Chart options={options} series={series} type="line" height={110} />
+    </div>
+  );
+}
+
+export default function DailyGlucoseProfiles({ days }: DailyGlucoseProfilesProps) {
+  const { settings: { glucoseUnit, targetThresholds, timezone } } = useUserSettings();
+
+  if (days.length === 0) {
+    return (
+      <div className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+        No daily profiles available.
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-3 sm:grid-cols-4 lg:grid-cols-7">
+      {days.map(day => (
+        <DailyProfileChart key={day.date} day={day} glucoseUnit={glucoseUnit} thresholds={targetThresholds} timeZone={timezone} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import React from 'react';
+import { Navigate } from 'react-router';
+import { useAuth } from '../../context/AuthContext';
+
+interface AdminRouteProps {
+  children: React.ReactNode;
+}
+
+// Render only for accounts with the admin claim; used inside ProtectedRoute, so auth has already loaded
+const AdminRoute: React.FC<AdminRouteProps> = ({ children }) => {
+  const { isAdmin } = useAuth();
+
+  if (!isAdmin) {
+    return <Navigate to="/" replace />;
+  }
+
+  return <>{children}</>;
+};
+
+export default AdminRoute;
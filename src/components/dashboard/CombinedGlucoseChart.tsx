@@ -0,0 +1,138 @@
+import Chart from "react-apexcharts";
+import { ApexOptions } from "apexcharts";
+import { useCombinedReadings } from "../../hooks/useCombinedReadings";
+import { getSourceLabel } from "../../services/glucoseData";
+import { convertGlucose } from "../../services/glucoseUnits";
+import { findGlucoseGaps, getGapAnnotations } from "../../services/glucoseGaps";
+import { useUserSettings } from "../../context/UserSettingsContext";
+import { useDexcom } from "../../context/DexcomContext";
+import { DexcomService } from "../../services/dexcom";
+
+export default function CombinedGlucoseChart() {
+  const { fingerstickReadings, cgmReadings, loading } = useCombinedReadings();
+  const { settings: { glucoseUnit } } = useUserSettings();
+  const { connected, timeRange } = useDexcom();
+
+  // CGM values are drawn as a continuous line, fingersticks as individual markers
+  const series = [
+    {
+      name: getSourceLabel('cgm'),
+      type: 'line',
+      data: cgmReadings.map(reading => ({
+        x: new Date(reading.timestamp).getTime(),
+        y: convertGlucose(reading.value, glucoseUnit),
+        source: reading.source,
+        trend: reading.trend,
+      }))
+    },
+    {
+      name: getSourceLabel('fingerstick'),
+      type: 'scatter',
+      data: fingerstickReadings.map(reading => ({
+        x: new Date(reading.timestamp).getTime(),
+        y: convertGlucose(reading.value, glucoseUnit),
+        source: reading.source,
+        comment: reading.comment,
+      }))
+    }
+  ];
+
+  // Shade stretches where the sensor reported nothing, including at the edges of the CGM range
+  const now = new Date();
+  const gaps = connected
+    ? findGlucoseGaps(cgmReadings, DexcomService.getInstance().getTimeRangeStart(timeRange, now) ?? undefined, now)
+    : [];
+
+  const options: ApexOptions = {
+    chart: {
+      fontFamily: "Outfit, sans-serif",
+      type: 'line',
+      height: 400,
+      toolbar: { show: true },
+      zoom: { enabled: true },
+      redrawOnWindowResize: true,
+      redrawOnParentResize: true
+    },
+    colors: ["#06b6d4", "#465fff"],
+    stroke: {
+      curve: 'smooth',
+      width: [2, 0],
+    },
+    markers: {
+      size: [0, 6],
+      strokeWidth: 1,
+      strokeColors: '#fff',
+    },
+    annotations: {
+      xaxis: getGapAnnotations(gaps)
+    },
+    xaxis: {
+      type: 'datetime',
+      title: { text: 'Date & Time' },
+      labels: { datetimeUTC: false }
+    },
+    yaxis: {
+      title: { text: `Blood Glucose (${glucoseUnit})` }
+    },
+    tooltip: {
+      shared: false,
+      intersect: true,
+      custom: function({ series, seriesIndex, dataPointIndex, w }) {
+        const dataPoint = w.globals.initialSeries[seriesIndex].data[dataPointIndex];
+        const val = series[seriesIndex][dataPointIndex];
+        const seriesName = w.globals.seriesNames[seriesIndex];
+        const dateStr = new Date(dataPoint.x).toLocaleString([], {
+          year: 'numeric',
+          month: 'short',
+          day: 'numeric',
+          hour: 'numeric',
+          minute: '2-digit',
+          hour12: true
+        });
+
+        const detailHtml = dataPoint?.comment
+          ? `<div style="padding-top: 5px; font-style: italic;">Comment: ${dataPoint.comment}</div>`
+          : dataPoint?.trend
+            ? `<div style="padding-top: 5px;">Trend: ${dataPoint.trend}</div>`
+            : '';
+
+        return `<div class="apexcharts-tooltip-title" style="padding: 6px 10px;">${dateStr}</div>
+                <div class="apexcharts-tooltip-series-group" style="padding: 6px 10px;display:block;">
+                  ${seriesName}: &nbsp;<strong>${val} ${glucoseUnit}</strong>
+                  ${detailHtml}
+                </div>`;
+      }
+    },
+    legend: {
+      position: 'top'
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="overflow-hidden rounded-2xl border border-gray-200 bg-white px-5 pt-5 dark:border-gray-800 dark:bg-white/[0.03] sm:px-6 sm:pt-6">
+        <div className="animate-pulse">
+          <div className="h-6 bg-gray-200 rounded dark:bg-gray-700 mb-4 w-48"></div>
+          <div className="h-80 bg-gray-200 rounded dark:bg-gray-700"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-hidden rounded-2xl border border-gray-200 bg-white px-5 pt-5 dark:border-gray-800 dark:bg-white/[0.03] sm:px-6 sm:pt-6">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-gray-800 dark:text-white/90">
+          Fingerstick &amp; CGM Timeline
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+          {fingerstickReadings.length} fingerstick and {cgmReadings.length} CGM readings
+        </p>
+      </div>
+
+      <div className="w-full">
+        <Chart options={options} series={series} type="line" height={400} />
+      </div>
+    </div>
+  );
+}
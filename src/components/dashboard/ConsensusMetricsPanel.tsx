@@ -0,0 +1,99 @@
+import {
+  ConsensusMetrics,
+  GlucoseRangeBand,
+  getRangeBandLabel,
+} from "../../services/glucoseStats";
+import { formatGlucose } from "../../services/glucoseUnits";
+import { MIN_COMPLETENESS_PERCENT, hasSufficientCoverage } from "../../services/glucoseGaps";
+import { useUserSettings } from "../../context/UserSettingsContext";
+
+interface ConsensusMetricsPanelProps {
+  metrics: ConsensusMetrics;
+}
+
+// Bands are listed from highest to lowest, matching the AGP report layout
+const RANGE_BANDS: { band: GlucoseRangeBand; name: string; color: string; dot: string }[] = [
+  { band: 'veryHigh', name: 'Very High', color: 'bg-orange-600', dot: 'bg-orange-100 dark:bg-orange-900/20' },
+  { band: 'high', name: 'High', color: 'bg-yellow-500', dot: 'bg-yellow-100 dark:bg-yellow-900/20' },
+  { band: 'inRange', name: 'Target Range', color: 'bg-green-500', dot: 'bg-green-100 dark:bg-green-900/20' },
+  { band: 'low', name: 'Low', color: 'bg-red-500', dot: 'bg-red-100 dark:bg-red-900/20' },
+  { band: 'veryLow', name: 'Very Low', color: 'bg-red-800', dot: 'bg-red-100 dark:bg-red-900/20' },
+];
+
+export default function ConsensusMetricsPanel({ metrics }: ConsensusMetricsPanelProps) {
+  const { rangeCounts, rangePercentages } = metrics;
+  const { settings: { glucoseUnit, targetThresholds } } = useUserSettings();
+
+  const variabilityMetrics = [
+    { label: 'GMI', value: metrics.count > 0 ? `${metrics.gmi}%` : '--', hint: 'Glucose management indicator' },
+    { label: 'CV', value: metrics.count > 0 ? `${metrics.coefficientOfVariation}%` : '--', hint: 'Target ≤36%' },
+    { label: 'SD', value: metrics.count > 0 ? formatGlucose(metrics.standardDeviation, glucoseUnit, false) : '--', hint: glucoseUnit },
+    { label: 'CGM Active', value: metrics.cgmActivePercent !== null ? `${metrics.cgmActivePercent}%` : '--', hint: `Target ≥${MIN_COMPLETENESS_PERCENT}%` },
+  ];
+
+  // Fingerstick-only periods have no CGM coverage to judge
+  const lowCoverage = metrics.cgmActivePercent !== null && !hasSufficientCoverage(metrics.cgmActivePercent);
+
+  return (
+    <div className="space-y-6">
+      {lowCoverage && (
+        <div className="rounded-lg border border-yellow-300 bg-yellow-50 px-4 py-3 text-sm text-yellow-800 dark:border-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300">
+          CGM data covers only {metrics.cgmActivePercent}% of this period (target ≥{MIN_COMPLETENESS_PERCENT}%), so these statistics may not be representative.
+        </div>
+      )}
+
+      {/* Stacked time-in-ranges bar */}
+      <div className="flex h-4 w-full overflow-hidden rounded-sm bg-gray-200 dark:bg-gray-800">
+        {[...RANGE_BANDS].reverse().map(({ band, color }) => (
+          <div
+            key={band}
+            className={`h-full ${color}`}
+            style={{ width: `${rangePercentages[band]}%` }}
+          ></div>
+        ))}
+      </div>
+
+      <div className="space-y-4">
+        {RANGE_BANDS.map(({ band, name, color, dot }) => (
+          <div key={band} className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className={`w-8 h-8 rounded-full ${dot} flex items-center justify-center`}>
+                <div className={`w-3 h-3 rounded-full ${color}`}></div>
+              </div>
+              <div>
+                <p className="font-semibold text-gray-800 text-theme-sm dark:text-white/90">
+                  {name}
+                </p>
+                <span className="block text-gray-500 text-theme-xs dark:text-gray-400">
+                  {rangeCounts[band]} readings ({getRangeBandLabel(band, targetThresholds, glucoseUnit)})
+                </span>
+              </div>
+            </div>
+
+            <div className="flex w-full max-w-[140px] items-center gap-3">
+              <div className="relative block h-2 w-full max-w-[100px] rounded-sm bg-gray-200 dark:bg-gray-800">
+                <div
+                  className={`absolute left-0 top-0 flex h-full items-center justify-center rounded-sm ${color}`}
+                  style={{ width: `${rangePercentages[band]}%` }}
+                ></div>
+              </div>
+              <p className="font-medium text-gray-800 text-theme-sm dark:text-white/90">
+                {rangePercentages[band]}%
+              </p>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 pt-4 border-t border-gray-200 dark:border-gray-800 sm:grid-cols-4">
+        {variabilityMetrics.map(({ label, value, hint }) => (
+          <div key={label}>
+            <span className="text-sm text-gray-500 dark:text-gray-400">{label}</span>
+            <p className="mt-1 font-bold text-gray-800 text-theme-xl dark:text-white/90">{value}</p>
+            <span className="text-gray-500 text-theme-xs dark:text-gray-400">{hint}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -3,13 +3,21 @@ import {
   GroupIcon,
 } from "../../icons";
 import { useGlucose } from "../../context/GlucoseContext";
+import { useUserSettings } from "../../context/UserSettingsContext";
+import { formatGlucose, formatHbA1c } from "../../services/glucoseUnits";
 
 export default function GlucoseMetrics() {
   const { filteredData, stats, loading, error } = useGlucose();
+  const { settings: { glucoseUnit } } = useUserSettings();
 
   // Get the last reading
   const lastReading = filteredData.length > 0 ? filteredData[filteredData.length - 1]?.glucoseLevel : 0;
 
+  // Time below and above the target range across both consensus bands
+  const { rangePercentages } = stats.metrics;
+  const timeBelowRange = Math.round(rangePercentages.veryLow + rangePercentages.low);
+  const timeAboveRange = Math.round(rangePercentages.high + rangePercentages.veryHigh);
+
   if (loading) {
     return (
       <div className="grid grid-cols-1 gap-4 sm:grid-cols-4 md:gap-6">
@@ -47,7 +55,7 @@ export default function GlucoseMetrics() {
               Last Reading
             </span>
             <h4 className="mt-2 font-bold text-gray-800 text-title-sm dark:text-white/90">
-              {lastReading || '--'} <span className="text-sm font-normal text-gray-500">mg/dL</span>
+              {lastReading ? formatGlucose(lastReading, glucoseUnit, false) : '--'} <span className="text-sm font-normal text-gray-500">{glucoseUnit}</span>
             </h4>
           </div>
           <div className="flex items-center justify-center w-12 h-12 bg-gray-100 rounded-xl dark:bg-gray-800">
@@ -64,7 +72,7 @@ export default function GlucoseMetrics() {
               Average Glucose
             </span>
             <h4 className="mt-2 font-bold text-gray-800 text-title-sm dark:text-white/90">
-              {stats.avg} <span className="text-sm font-normal text-gray-500">mg/dL</span>
+              {formatGlucose(stats.metrics.mean, glucoseUnit, false)} <span className="text-sm font-normal text-gray-500">{glucoseUnit}</span>
             </h4>
           </div>
 
@@ -84,6 +92,9 @@ export default function GlucoseMetrics() {
             <h4 className="mt-2 font-bold text-gray-800 text-title-sm dark:text-white/90">
               {stats.timeInRange}%
             </h4>
+            <span className="text-gray-500 text-theme-xs dark:text-gray-400">
+              Below {timeBelowRange}% · Above {timeAboveRange}%
+            </span>
           </div>
           <div className="flex items-center justify-center w-12 h-12 bg-gray-100 rounded-xl dark:bg-gray-800">
             <GroupIcon className="text-gray-800 size-6 dark:text-white/90" />
@@ -91,16 +102,19 @@ export default function GlucoseMetrics() {
         </div>
       </div>
 
-      {/* Estimated HbA1c */}
+      {/* GMI / Estimated HbA1c */}
       <div className="rounded-2xl border border-gray-200 bg-white p-5 dark:border-gray-800 dark:bg-white/[0.03] md:p-6">
         <div className="flex items-end justify-between">
           <div>
             <span className="text-sm text-gray-500 dark:text-gray-400">
-              Estimated HbA1c
+              GMI
             </span>
             <h4 className="mt-2 font-bold text-gray-800 text-title-sm dark:text-white/90">
-              {stats.estimatedHbA1c}%
+              {stats.metrics.gmi}%
             </h4>
+            <span className="text-gray-500 text-theme-xs dark:text-gray-400">
+              Est. HbA1c {formatHbA1c(stats.metrics.estimatedHbA1c, glucoseUnit)} · CV {stats.metrics.coefficientOfVariation}%
+            </span>
           </div>
 
           <div className="flex items-center justify-center w-12 h-12 bg-gray-100 rounded-xl dark:bg-gray-800">
@@ -1,9 +1,12 @@
 import Chart from "react-apexcharts";
 import { ApexOptions } from "apexcharts";
 import { useGlucose } from "../../context/GlucoseContext";
+import { useUserSettings } from "../../context/UserSettingsContext";
+import { convertGlucose } from "../../services/glucoseUnits";
 
 export default function GlucoseScatterChart() {
   const { glucoseData, loading, error } = useGlucose();
+  const { settings: { glucoseUnit } } = useUserSettings();
 
   // Filter to last 90 days only
   const ninetyDaysAgo = new Date();
@@ -29,7 +32,7 @@ export default function GlucoseScatterChart() {
     
     monthlyData[monthYear].push({
       x: dayOfMonth + (hourOfDay / 24), // Day of month with hour as decimal
-      y: reading.glucoseLevel,
+      y: convertGlucose(reading.glucoseLevel, glucoseUnit),
       comment: reading.comment,
       originalDate: reading.dateTime
     });
@@ -72,9 +75,9 @@ export default function GlucoseScatterChart() {
       max: 32
     },
     yaxis: {
-      title: { text: 'Blood Glucose (mg/dL)' },
-      min: 50,
-      max: 160
+      title: { text: `Blood Glucose (${glucoseUnit})` },
+      min: convertGlucose(50, glucoseUnit),
+      max: convertGlucose(160, glucoseUnit)
     },
     tooltip: {
       custom: function({ series, seriesIndex, dataPointIndex, w }) {
@@ -101,7 +104,7 @@ export default function GlucoseScatterChart() {
 
         return `<div class="apexcharts-tooltip-title" style="padding: 6px 10px;">${seriesName} - ${dateStr}</div>
                 <div class="apexcharts-tooltip-series-group" style="padding: 6px 10px;display:block;">
-                  Glucose Level: &nbsp;<strong>${val} mg/dL</strong>
+                  Glucose Level: &nbsp;<strong>${val} ${glucoseUnit}</strong>
                   ${commentHtml}
                 </div>`;
       }
@@ -1,9 +1,17 @@
 import Chart from "react-apexcharts";
 import { ApexOptions } from "apexcharts";
 import { useGlucose } from "../../context/GlucoseContext";
+import { useUserSettings } from "../../context/UserSettingsContext";
+import { formatGlucose } from "../../services/glucoseUnits";
+import { getRangeBandLabel } from "../../services/glucoseStats";
+import { Modal } from "../ui/modal";
+import { useModal } from "../../hooks/useModal";
+import TargetRangeSettings from "../settings/TargetRangeSettings";
 
 export default function GlucoseTargets() {
   const { stats } = useGlucose();
+  const { settings: { glucoseUnit, targetThresholds } } = useUserSettings();
+  const { isOpen, openModal, closeModal } = useModal();
   
   // Use actual time in range data
   const timeInRangePercentage = parseFloat(stats.timeInRange.toString()) || 0;
@@ -66,13 +74,22 @@ export default function GlucoseTargets() {
   return (
     <div className="rounded-2xl border border-gray-200 bg-gray-100 dark:border-gray-800 dark:bg-white/[0.03]">
       <div className="px-5 pt-5 bg-white shadow-default rounded-2xl pb-11 dark:bg-gray-900 sm:px-6 sm:pt-6">
-        <div className="mb-4">
-          <h3 className="text-lg font-semibold text-gray-800 dark:text-white/90">
-            Glucose Goals
-          </h3>
-          <p className="mt-1 text-gray-500 text-theme-sm dark:text-gray-400">
-            Time in range (70-180 mg/dL) target: 70%
-          </p>
+        <div className="flex items-start justify-between gap-3 mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800 dark:text-white/90">
+              Glucose Goals
+            </h3>
+            <p className="mt-1 text-gray-500 text-theme-sm dark:text-gray-400">
+              Time in range ({getRangeBandLabel('inRange', targetThresholds, glucoseUnit)}) target: 70%
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={openModal}
+            className="text-sm font-medium text-blue-600 hover:text-blue-700 dark:text-blue-400"
+          >
+            Edit targets
+          </button>
         </div>
         <div className="relative">
           <div className="w-full h-[330px]" id="chartDarkStyle">
@@ -137,10 +154,20 @@ export default function GlucoseTargets() {
             Avg Glucose
           </p>
           <p className="flex items-center justify-center gap-1 text-base font-semibold text-gray-800 dark:text-white/90 sm:text-lg">
-            {stats.avg} mg/dL
+            {formatGlucose(stats.metrics.mean, glucoseUnit)}
           </p>
         </div>
       </div>
+
+      <Modal isOpen={isOpen} onClose={closeModal} className="max-w-[520px] p-6 lg:p-8">
+        <h5 className="mb-2 font-semibold text-gray-800 text-xl dark:text-white/90">
+          Target range
+        </h5>
+        <p className="mb-6 text-sm text-gray-500 dark:text-gray-400">
+          Thresholds used for time in range, chart bands and reading colours.
+        </p>
+        <TargetRangeSettings onSaved={closeModal} />
+      </Modal>
     </div>
   );
 }
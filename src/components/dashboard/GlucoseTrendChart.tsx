@@ -1,31 +1,60 @@
 import Chart from "react-apexcharts";
 import { ApexOptions } from "apexcharts";
 import { useGlucose } from "../../context/GlucoseContext";
+import { useUserSettings } from "../../context/UserSettingsContext";
+import { useHealthEvents } from "../../context/HealthEventsContext";
+import { convertGlucose } from "../../services/glucoseUnits";
+import { HEALTH_EVENT_TYPES, getHealthEventMarkerLabel } from "../../services/healthEvents";
 
 export default function GlucoseTrendChart() {
   const { filteredData, loading, error } = useGlucose();
+  const { settings: { glucoseUnit } } = useUserSettings();
+  const { events } = useHealthEvents();
 
   // Prepare data for ApexCharts
   const series = [
     {
-      name: 'Blood Glucose (mg/dL)',
+      name: `Blood Glucose (${glucoseUnit})`,
       data: filteredData.map(reading => ({
         x: new Date(reading.dateTime).getTime(),
-        y: reading.glucoseLevel,
+        y: convertGlucose(reading.glucoseLevel, glucoseUnit),
         comment: reading.comment,
       }))
     },
     {
-      name: 'Day Average (mg/dL)',
+      name: `Day Average (${glucoseUnit})`,
       data: filteredData
         .filter(reading => reading.dayAverage > 0)
         .map(reading => ({
           x: new Date(reading.dateTime).getTime(),
-          y: reading.dayAverage
+          y: convertGlucose(reading.dayAverage, glucoseUnit)
         }))
     }
   ];
 
+  // Mark logged events that fall within the plotted readings
+  const times = filteredData.map(reading => new Date(reading.dateTime).getTime());
+  const firstTime = Math.min(...times);
+  const lastTime = Math.max(...times);
+  const eventAnnotations: XAxisAnnotations[] = events
+    .map(event => ({ event, time: new Date(event.timestamp).getTime() }))
+    .filter(({ time }) => time >= firstTime && time <= lastTime)
+    .map(({ event, time }) => ({
+      x: time,
+      borderColor: HEALTH_EVENT_TYPES[event.type].color,
+      strokeDashArray: 4,
+      label: {
+        text: getHealthEventMarkerLabel(event),
+        orientation: 'horizontal',
+        borderColor: HEALTH_EVENT_TYPES[event.type].color,
+        style: {
+          color: '#fff',
+          background: HEALTH_EVENT_TYPES[event.type].color,
+          fontSize: '10px',
+        },
+      },
+    }));
+
   const options: ApexOptions = {
     chart: {
       fontFamily: "Outfit, sans-serif",
@@ -44,13 +73,16 @@ export default function GlucoseTrendChart() {
     markers: {
       size: 4
     },
+    annotations: {
+      xaxis: eventAnnotations
+    },
     xaxis: {
       type: 'datetime',
       title: { text: 'Date & Time' },
       labels: { datetimeUTC: false }
     },
     yaxis: {
-      title: { text: 'Blood Glucose (mg/dL)' }
+      title: { text: `Blood Glucose (${glucoseUnit})` }
     },
     tooltip: {
       x: {
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { Modal } from "../ui/modal";
+import { useModal } from "../../hooks/useModal";
+import Label from "../form/Label";
+import Input from "../form/input/InputField";
+import TextArea from "../form/input/TextArea";
+import Checkbox from "../form/input/Checkbox";
+import Button from "../ui/button/Button";
+import { PlusIcon } from "../../icons";
+import { useGlucose } from "../../context/GlucoseContext";
+import { useUserSettings } from "../../context/UserSettingsContext";
+import { MAX_VALID_MGDL, MIN_VALID_MGDL } from "../../services/csvImport";
+import { formatGlucose, toMgdl } from "../../services/glucoseUnits";
+import { GoogleSheetsService } from "../../services/googleSheets";
+import { formatInTimeZone, parseInTimeZone } from "../../services/timezone";
+
+// Value for a datetime-local input, in the user's zone
+const nowInputValue = (timeZone: string) => formatInTimeZone(new Date(), "yyyy-MM-dd'T'HH:mm", timeZone);
+
+export default function LogReadingButton() {
+  const { isOpen, openModal, closeModal } = useModal();
+  const { logReading } = useGlucose();
+  const { settings: { glucoseUnit, timezone } } = useUserSettings();
+  const googleSheetsService = GoogleSheetsService.getInstance();
+
+  const [dateTime, setDateTime] = useState(() => nowInputValue(timezone));
+  const [value, setValue] = useState('');
+  const [comment, setComment] = useState('');
+  const [appendToSheet, setAppendToSheet] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+
+  const handleOpen = () => {
+    setDateTime(nowInputValue(timezone));
+    setValue('');
+    setComment('');
+    setError(null);
+    setWarning(null);
+    openModal();
+  };
+
+  const handleClose = () => {
+    if (saving) return;
+    closeModal();
+  };
+
+  const handleSave = async () => {
+    const date = parseInTimeZone(dateTime, timezone);
+    const valueMgdl = Math.round(toMgdl(parseFloat(value), glucoseUnit));
+
+    if (isNaN(date.getTime()) || date > new Date()) {
+      setError('Enter a date and time that is not in the future');
+      return;
+    }
+    if (isNaN(valueMgdl) || valueMgdl < MIN_VALID_MGDL || valueMgdl > MAX_VALID_MGDL) {
+      setError(`Enter a value between ${formatGlucose(MIN_VALID_MGDL, glucoseUnit)} and ${formatGlucose(MAX_VALID_MGDL, glucoseUnit)}`);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await logReading({ timestamp: date.toISOString(), value: valueMgdl, comment: comment.trim() });
+    } catch (err) {
+      console.error('Error logging reading:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save reading');
+      setSaving(false);
+      return;
+    }
+
+    // The reading is already saved; a sheet failure only warrants a warning
+    if (appendToSheet && googleSheetsService.isConfigured()) {
+      try {
+        await googleSheetsService.appendReading({
+          dateTime: formatInTimeZone(date, 'M/d/yyyy H:mm', timezone),
+          glucoseLevel: valueMgdl,
+          comment: comment.trim(),
+          dayAverage: 0,
+        });
+      } catch (err) {
+        setWarning(`Reading saved, but it was not added to your sheet: ${err instanceof Error ? err.message : 'unknown error'}`);
+        setSaving(false);
+        return;
+      }
+    }
+
+    setSaving(false);
+    closeModal();
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={handleOpen}
+        className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700"
+      >
+        <PlusIcon className="size-4" />
+        Log reading
+      </button>
+
+      <Modal isOpen={isOpen} onClose={handleClose} className="max-w-[480px] p-6 lg:p-8">
+        <h5 className="mb-6 font-semibold text-gray-800 text-xl dark:text-white/90">
+          Log reading
+        </h5>
+
+        <div className="space-y-5">
+          <div>
+            <Label htmlFor="log-reading-time">Date & time</Label>
+            <Input
+              id="log-reading-time"
+              type="datetime-local"
+              value={dateTime}
+              max={nowInputValue(timezone)}
+              onChange={(e) => setDateTime(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="log-reading-value">Glucose ({glucoseUnit})</Label>
+            <Input
+              id="log-reading-value"
+              type="number"
+              min="0"
+              step={glucoseUnit === 'mmol/L' ? 0.1 : 1}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label>Comment</Label>
+            <TextArea
+              placeholder="e.g. before breakfast"
+              rows={2}
+              value={comment}
+              onChange={setComment}
+            />
+          </div>
+          {googleSheetsService.isConfigured() && (
+            <Checkbox
+              id="log-reading-sheet"
+              label="Also add to my Google Sheet"
+              checked={appendToSheet}
+              onChange={setAppendToSheet}
+            />
+          )}
+        </div>
+
+        {error && (
+          <p className="mt-4 text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+        {warning && (
+          <p className="mt-4 text-sm text-yellow-600 dark:text-yellow-400">{warning}</p>
+        )}
+
+        <div className="flex justify-end gap-3 mt-6">
+          <Button size="sm" variant="outline" onClick={handleClose} disabled={saving}>
+            {warning ? 'Close' : 'Cancel'}
+          </Button>
+          {!warning && (
+            <Button size="sm" onClick={handleSave} disabled={saving || !value}>
+              {saving ? 'Saving...' : 'Save reading'}
+            </Button>
+          )}
+        </div>
+      </Modal>
+    </>
+  );
+}
@@ -7,17 +7,21 @@ import {
 } from "../ui/table";
 import Badge from "../ui/badge/Badge";
 import { useGlucose } from "../../context/GlucoseContext";
+import { useUserSettings } from "../../context/UserSettingsContext";
+import { formatGlucose } from "../../services/glucoseUnits";
+import { GlucoseThresholds } from "../../services/glucoseStats";
 import { format } from "date-fns";
 
 // Helper function to get glucose level status
-const getGlucoseStatus = (level: number): { status: string; variant: "success" | "warning" | "danger" } => {
-  if (level < 70) return { status: "Low", variant: "danger" };
-  if (level > 180) return { status: "High", variant: "warning" };
+const getGlucoseStatus = (level: number, thresholds: GlucoseThresholds): { status: string; variant: "success" | "warning" | "danger" } => {
+  if (level < thresholds.low) return { status: "Low", variant: "danger" };
+  if (level > thresholds.high) return { status: "High", variant: "warning" };
   return { status: "Normal", variant: "success" };
 };
 
 export default function RecentReadings() {
   const { filteredData, loading, error } = useGlucose();
+  const { settings } = useUserSettings();
 
   if (loading) {
     return (
@@ -106,7 +110,7 @@ export default function RecentReadings() {
               </TableRow>
             ) : (
               recentReadings.map((reading, index) => {
-                const glucoseStatus = getGlucoseStatus(reading.glucoseLevel);
+                const glucoseStatus = getGlucoseStatus(reading.glucoseLevel, settings.targetThresholds);
                 const readingDate = new Date(reading.dateTime);
                 
                 return (
@@ -124,10 +128,10 @@ export default function RecentReadings() {
                     <TableCell className="py-3">
                       <div className="flex items-center gap-2">
                         <span className="font-semibold text-gray-800 dark:text-white">
-                          {reading.glucoseLevel}
+                          {formatGlucose(reading.glucoseLevel, settings.glucoseUnit, false)}
                         </span>
                         <span className="text-gray-500 text-theme-xs dark:text-gray-400">
-                          mg/dL
+                          {settings.glucoseUnit}
                         </span>
                       </div>
                     </TableCell>
@@ -0,0 +1,221 @@
+import { useState } from "react";
+import { Modal } from "../ui/modal";
+import { useModal } from "../../hooks/useModal";
+import Label from "../form/Label";
+import Input from "../form/input/InputField";
+import TextArea from "../form/input/TextArea";
+import Select from "../form/Select";
+import Button from "../ui/button/Button";
+import { useHealthEvents } from "../../context/HealthEventsContext";
+import { useUserSettings } from "../../context/UserSettingsContext";
+import { formatInTimeZone, parseInTimeZone } from "../../services/timezone";
+import {
+  EVENT_SEVERITIES,
+  EXERCISE_INTENSITIES,
+  EventSeverity,
+  ExerciseIntensity,
+  HEALTH_EVENT_TYPES,
+  HealthEventType,
+  INSULIN_TYPES,
+  InsulinType,
+  NewHealthEvent,
+} from "../../services/healthEvents";
+
+// Value for a datetime-local input, in the user's zone
+const nowInputValue = (timeZone: string) => formatInTimeZone(new Date(), "yyyy-MM-dd'T'HH:mm", timeZone);
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+export default function LogEventButton() {
+  const { isOpen, openModal, closeModal } = useModal();
+  const { addEvent } = useHealthEvents();
+  const { settings: { timezone } } = useUserSettings();
+
+  const [type, setType] = useState<HealthEventType>('carbs');
+  const [dateTime, setDateTime] = useState(() => nowInputValue(timezone));
+  const [amount, setAmount] = useState('');
+  const [insulinType, setInsulinType] = useState<InsulinType>('rapid');
+  const [intensity, setIntensity] = useState<ExerciseIntensity>('moderate');
+  const [severity, setSeverity] = useState<EventSeverity>('moderate');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpen = () => {
+    setDateTime(nowInputValue(timezone));
+    setAmount('');
+    setNote('');
+    setError(null);
+    openModal();
+  };
+
+  const handleClose = () => {
+    if (saving) return;
+    closeModal();
+  };
+
+  const buildEvent = (): NewHealthEvent => {
+    const timestamp = parseInTimeZone(dateTime, timezone).toISOString();
+    const value = parseFloat(amount);
+
+    switch (type) {
+      case 'carbs':
+        return { type, timestamp, note, grams: Math.round(value) };
+      case 'insulin':
+        return { type, timestamp, note, insulinType, units: value };
+      case 'exercise':
+        return { type, timestamp, note, intensity, durationMinutes: Math.round(value) };
+      case 'illness':
+      case 'stress':
+        return { type, timestamp, note, severity };
+      case 'note':
+        return { type, timestamp, note };
+    }
+  };
+
+  const handleSave = async () => {
+    if (isNaN(parseInTimeZone(dateTime, timezone).getTime())) {
+      setError('Enter a valid date and time');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await addEvent(buildEvent());
+      closeModal();
+    } catch (err) {
+      console.error('Error logging event:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save event');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const amountField = {
+    carbs: { label: 'Carbohydrates (g)', step: 1 },
+    insulin: { label: 'Insulin (units)', step: 0.5 },
+    exercise: { label: 'Duration (minutes)', step: 5 },
+  } as const;
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={handleOpen}
+        className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700"
+      >
+        Log event
+      </button>
+
+      <Modal isOpen={isOpen} onClose={handleClose} className="max-w-[520px] p-6 lg:p-8">
+        <h5 className="mb-6 font-semibold text-gray-800 text-xl dark:text-white/90">
+          Log event
+        </h5>
+
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(HEALTH_EVENT_TYPES) as HealthEventType[]).map(eventType => (
+            <button
+              key={eventType}
+              type="button"
+              onClick={() => { setType(eventType); setError(null); }}
+              className={`px-3 py-1.5 text-sm font-medium rounded-lg border ${
+                type === eventType
+                  ? 'text-white border-transparent'
+                  : 'text-gray-700 bg-white border-gray-300 hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-300 dark:border-gray-600'
+              }`}
+              style={type === eventType ? { backgroundColor: HEALTH_EVENT_TYPES[eventType].color } : undefined}
+            >
+              {HEALTH_EVENT_TYPES[eventType].label}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-5 mt-5">
+          <div>
+            <Label htmlFor="log-event-time">Date & time</Label>
+            <Input
+              id="log-event-time"
+              type="datetime-local"
+              value={dateTime}
+              onChange={(e) => setDateTime(e.target.value)}
+            />
+          </div>
+
+          {(type === 'carbs' || type === 'insulin' || type === 'exercise') && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="log-event-amount">{amountField[type].label}</Label>
+                <Input
+                  id="log-event-amount"
+                  type="number"
+                  min="0"
+                  step={amountField[type].step}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+              {type === 'insulin' && (
+                <div>
+                  <Label htmlFor="log-event-insulin-type">Insulin type</Label>
+                  <Select
+                    id="log-event-insulin-type"
+                    options={INSULIN_TYPES}
+                    value={insulinType}
+                    onChange={(value) => setInsulinType(value as InsulinType)}
+                  />
+                </div>
+              )}
+              {type === 'exercise' && (
+                <div>
+                  <Label htmlFor="log-event-intensity">Intensity</Label>
+                  <Select
+                    id="log-event-intensity"
+                    options={EXERCISE_INTENSITIES.map(value => ({ value, label: capitalize(value) }))}
+                    value={intensity}
+                    onChange={(value) => setIntensity(value as ExerciseIntensity)}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {(type === 'illness' || type === 'stress') && (
+            <div>
+              <Label htmlFor="log-event-severity">Severity</Label>
+              <Select
+                id="log-event-severity"
+                options={EVENT_SEVERITIES.map(value => ({ value, label: capitalize(value) }))}
+                value={severity}
+                onChange={(value) => setSeverity(value as EventSeverity)}
+              />
+            </div>
+          )}
+
+          <div>
+            <Label>{type === 'note' ? 'Note' : 'Note (optional)'}</Label>
+            <TextArea
+              placeholder={type === 'carbs' ? 'e.g. pasta dinner' : ''}
+              rows={2}
+              value={note}
+              onChange={setNote}
+            />
+          </div>
+        </div>
+
+        {error && (
+          <p className="mt-4 text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+
+        <div className="flex justify-end gap-3 mt-6">
+          <Button size="sm" variant="outline" onClick={handleClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save event'}
+          </Button>
+        </div>
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { format, subDays, parseISO } from "date-fns";
+import { Modal } from "../ui/modal";
+import { useModal } from "../../hooks/useModal";
+import Label from "../form/Label";
+import Input from "../form/input/InputField";
+import Radio from "../form/input/Radio";
+import Button from "../ui/button/Button";
+import { DownloadIcon } from "../../icons";
+import { ExportService, ExportFormat } from "../../services/export";
+import { useUserSettings } from "../../context/UserSettingsContext";
+import { getDayBounds, getDayKey } from "../../services/timezone";
+
+// Default export window
+const DEFAULT_EXPORT_DAYS = 30;
+
+export default function ExportDataButton() {
+  const { isOpen, openModal, closeModal } = useModal();
+  const { settings: { glucoseUnit, timezone } } = useUserSettings();
+  const today = getDayKey(new Date(), timezone);
+  const [startDate, setStartDate] = useState(format(subDays(parseISO(today), DEFAULT_EXPORT_DAYS - 1), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(today);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [exporting, setExporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const rangeInvalid = !startDate || !endDate || startDate > endDate;
+
+  const handleClose = () => {
+    setMessage(null);
+    setError(null);
+    closeModal();
+  };
+
+  const handleExport = async () => {
+    if (rangeInvalid) return;
+
+    try {
+      setExporting(true);
+      setError(null);
+      setMessage(null);
+
+      const count = await ExportService.getInstance().exportReadings(
+        getDayBounds(startDate, timezone).start,
+        new Date(getDayBounds(endDate, timezone).end.getTime() - 1),
+        exportFormat,
+        timezone,
+        glucoseUnit
+      );
+      setMessage(`Exported ${count} readings.`);
+    } catch (err) {
+      console.error('Error exporting readings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export readings');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={openModal}
+        className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700"
+      >
+        <DownloadIcon className="size-4" />
+        Export data
+      </button>
+
+      <Modal isOpen={isOpen} onClose={handleClose} className="max-w-[480px] p-6 lg:p-8">
+        <h5 className="mb-2 font-semibold text-gray-800 text-xl dark:text-white/90">
+          Export readings
+        </h5>
+        <p className="mb-6 text-sm text-gray-500 dark:text-gray-400">
+          Downloads fingerstick and CGM readings for the selected dates. Values are in {glucoseUnit}.
+        </p>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="export-start">Start date</Label>
+            <Input
+              type="date"
+              id="export-start"
+              value={startDate}
+              max={endDate || today}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="export-end">End date</Label>
+            <Input
+              type="date"
+              id="export-end"
+              value={endDate}
+              min={startDate}
+              max={today}
+              onChange={(e) => setEndDate(e.target.value)}
+              error={rangeInvalid}
+              hint={rangeInvalid ? 'End date must be on or after the start date' : undefined}
+            />
+          </div>
+        </div>
+
+        <div className="mt-5">
+          <Label>Format</Label>
+          <div className="flex gap-6">
+            <Radio
+              id="export-format-csv"
+              name="export-format"
+              value="csv"
+              checked={exportFormat === 'csv'}
+              label="CSV"
+              onChange={(value) => setExportFormat(value as ExportFormat)}
+            />
+            <Radio
+              id="export-format-json"
+              name="export-format"
+              value="json"
+              checked={exportFormat === 'json'}
+              label="JSON"
+              onChange={(value) => setExportFormat(value as ExportFormat)}
+            />
+          </div>
+        </div>
+
+        {message && (
+          <p className="mt-4 text-sm text-green-600 dark:text-green-400">{message}</p>
+        )}
+        {error && (
+          <p className="mt-4 text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+
+        <div className="flex justify-end gap-3 mt-6">
+          <Button size="sm" variant="outline" onClick={handleClose}>
+            Close
+          </Button>
+          <Button size="sm" onClick={handleExport} disabled={rangeInvalid || exporting}>
+            {exporting ? 'Exporting...' : 'Download'}
+          </Button>
+        </div>
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,55 @@
+import type { FC } from "react";
+
+interface Option {
+  value: string;
+  label: string;
+}
+
+interface SelectProps {
+  options: Option[];
+  value: string;
+  onChange: (value: string) => void;
+  id?: string;
+  placeholder?: string;
+  className?: string;
+  disabled?: boolean;
+}
+
+const Select: FC<SelectProps> = ({
+  options,
+  value,
+  onChange,
+  id,
+  placeholder,
+  className = "",
+  disabled = false,
+}) => {
+  return (
+    <select
+      id={id}
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value)}
+      className={`h-11 w-full appearance-none rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 pr-11 text-sm shadow-theme-xs placeholder:text-gray-400 focus:border-brand-300 focus:outline-hidden focus:ring-3 focus:ring-brand-500/20 disabled:cursor-not-allowed disabled:opacity-40 dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:focus:border-brand-800 ${
+        value ? "text-gray-800 dark:text-white/90" : "text-gray-400 dark:text-gray-400"
+      } ${className}`}
+    >
+      {placeholder !== undefined && (
+        <option value="" className="text-gray-700 dark:bg-gray-900 dark:text-gray-400">
+          {placeholder}
+        </option>
+      )}
+      {options.map((option) => (
+        <option
+          key={option.value}
+          value={option.value}
+          className="text-gray-700 dark:bg-gray-900 dark:text-gray-400"
+        >
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default Select;
@@ -3,10 +3,13 @@ import { useNavigate } from "react-router";
 import { DropdownItem } from "../ui/dropdown/DropdownItem";
 import { Dropdown } from "../ui/dropdown/Dropdown";
 import { useAuth } from "../../context/AuthContext";
+import { useUserSettings } from "../../context/UserSettingsContext";
+import { GLUCOSE_UNITS, GlucoseUnit } from "../../services/glucoseUnits";
 
 export default function UserDropdown() {
   const [isOpen, setIsOpen] = useState(false);
   const { user, logout } = useAuth();
+  const { settings, updateSettings } = useUserSettings();
   const navigate = useNavigate();
 
   function toggleDropdown() {
@@ -17,6 +20,12 @@ export default function UserDropdown() {
     setIsOpen(false);
   }
 
+  function handleUnitChange(glucoseUnit: GlucoseUnit) {
+    updateSettings({ glucoseUnit }).catch((error) => {
+      console.error('Failed to update glucose unit:', error);
+    });
+  }
+
   function handleLogout() {
     logout();
     closeDropdown();
@@ -33,7 +42,7 @@ export default function UserDropdown() {
           <img src="/images/user/owner.jpg" alt="User" />
         </span>
 
-        <span className="block mr-1 font-medium text-theme-sm">{user?.name || 'User'}</span>
+        <span className="block mr-1 font-medium text-theme-sm">{settings.displayName || user?.name || 'User'}</span>
         <svg
           className={`stroke-gray-500 dark:stroke-gray-400 transition-transform duration-200 ${
             isOpen ? "rotate-180" : ""
@@ -61,13 +70,35 @@ export default function UserDropdown() {
       >
         <div>
           <span className="block font-medium text-gray-700 text-theme-sm dark:text-gray-400">
-            {user?.name || 'Glucose User'}
+            {settings.displayName || user?.name || 'Glucose User'}
           </span>
           <span className="mt-0.5 block text-theme-xs text-gray-500 dark:text-gray-400">
             {user?.email || 'user@glucose.app'}
           </span>
         </div>
 
+        <div className="flex items-center justify-between pt-4">
+          <span className="font-medium text-gray-700 text-theme-sm dark:text-gray-400">
+            Glucose units
+          </span>
+          <div className="flex rounded-lg bg-gray-100 p-0.5 dark:bg-gray-900">
+            {GLUCOSE_UNITS.map((unit) => (
+              <button
+                key={unit}
+                type="button"
+                onClick={() => handleUnitChange(unit)}
+                className={`rounded-md px-2.5 py-1 text-theme-xs font-medium ${
+                  settings.glucoseUnit === unit
+                    ? "bg-white text-gray-900 shadow-theme-xs dark:bg-gray-800 dark:text-white"
+                    : "text-gray-500 hover:text-gray-700 dark:text-gray-400"
+                }`}
+              >
+                {unit}
+              </button>
+            ))}
+          </div>
+        </div>
+
         <ul className="flex flex-col gap-1 pt-4 pb-3 border-b border-gray-200 dark:border-gray-800">
           <li>
             <DropdownItem
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { Modal } from "../ui/modal";
+import { useModal } from "../../hooks/useModal";
+import Label from "../form/Label";
+import FileInput from "../form/input/FileInput";
+import Button from "../ui/button/Button";
+import { FileIcon } from "../../icons";
+import { DexcomService } from "../../services/dexcom";
+import { ClarityParseResult, parseClarityCsv } from "../../services/clarityImport";
+import { useUserSettings } from "../../context/UserSettingsContext";
+import { formatInTimeZone } from "../../services/timezone";
+
+interface ClarityImportButtonProps {
+  onImported?: () => void;
+}
+
+export default function ClarityImportButton({ onImported }: ClarityImportButtonProps) {
+  const { isOpen, openModal, closeModal } = useModal();
+  const { settings: { timezone } } = useUserSettings();
+  const [parsed, setParsed] = useState<ClarityParseResult | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClose = () => {
+    if (importing) return;
+    setParsed(null);
+    setMessage(null);
+    setError(null);
+    closeModal();
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    setParsed(null);
+    setMessage(null);
+    setError(null);
+    if (!file) return;
+
+    try {
+      const result = parseClarityCsv(await file.text(), timezone);
+      if (result.readings.length === 0) {
+        setError('No glucose readings (EGV rows) were found in this file');
+        return;
+      }
+      setParsed(result);
+    } catch (err) {
+      console.error('Error reading Clarity export:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read the file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!parsed) return;
+
+    try {
+      setImporting(true);
+      setProgress(0);
+      setError(null);
+
+      const { imported, rejected } = await DexcomService.getInstance().importClarityReadings(
+        parsed.readings,
+        (uploaded, total) => setProgress(Math.round((uploaded / total) * 100))
+      );
+      setMessage(`Imported ${imported} readings${rejected > 0 ? ` (${rejected} rejected as invalid)` : ''}.`);
+      setParsed(null);
+      onImported?.();
+    } catch (err) {
+      console.error('Error importing Clarity readings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import readings');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const firstReading = parsed?.readings[0];
+  const lastReading = parsed?.readings[parsed.readings.length - 1];
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={openModal}
+        className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700"
+      >
+        <FileIcon className="size-4" />
+        Import Clarity
+      </button>
+
+      <Modal isOpen={isOpen} onClose={handleClose} className="max-w-[480px] p-6 lg:p-8">
+        <h5 className="mb-2 font-semibold text-gray-800 text-xl dark:text-white/90">
+          Import Clarity export
+        </h5>
+        <p className="mb-6 text-sm text-gray-500 dark:text-gray-400">
+          Upload a CSV exported from Dexcom Clarity to add historical CGM readings. Readings that are already stored are updated, not duplicated.
+        </p>
+
+        <div>
+          <Label htmlFor="clarity-file">Clarity CSV file</Label>
+          <FileInput id="clarity-file" accept=".csv,text/csv" onChange={handleFileChange} />
+        </div>
+
+        {parsed && firstReading && lastReading && (
+          <p className="mt-4 text-sm text-gray-600 dark:text-gray-300">
+            Found {parsed.readings.length} readings from {formatInTimeZone(firstReading.systemTime, 'MMM d, yyyy', timezone)} to {formatInTimeZone(lastReading.systemTime, 'MMM d, yyyy', timezone)}
+            {parsed.skippedRows > 0 && ` (${parsed.skippedRows} unreadable rows skipped)`}.
+          </p>
+        )}
+        {importing && (
+          <div className="mt-4">
+            <div className="h-2 w-full overflow-hidden rounded-full bg-gray-200 dark:bg-gray-700">
+              <div className="h-full bg-blue-600 transition-all" style={{ width: `${progress}%` }}></div>
+            </div>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Importing... {progress}%</p>
+          </div>
+        )}
+        {message && (
+          <p className="mt-4 text-sm text-green-600 dark:text-green-400">{message}</p>
+        )}
+        {error && (
+          <p className="mt-4 text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+
+        <div className="flex justify-end gap-3 mt-6">
+          <Button size="sm" variant="outline" onClick={handleClose} disabled={importing}>
+            Close
+          </Button>
+          <Button size="sm" onClick={handleImport} disabled={!parsed || importing}>
+            {importing ? 'Importing...' : 'Import'}
+          </Button>
+        </div>
+      </Modal>
+    </>
+  );
+}
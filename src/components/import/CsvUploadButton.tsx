@@ -0,0 +1,206 @@
+import { useMemo, useState } from "react";
+import { Modal } from "../ui/modal";
+import { useModal } from "../../hooks/useModal";
+import Label from "../form/Label";
+import FileInput from "../form/input/FileInput";
+import Select from "../form/Select";
+import Radio from "../form/input/Radio";
+import Button from "../ui/button/Button";
+import { FileIcon } from "../../icons";
+import { useGlucose } from "../../context/GlucoseContext";
+import { useUserSettings } from "../../context/UserSettingsContext";
+import { parseCsv } from "../../services/csv";
+import { CsvColumnMapping, guessColumnMapping, parseMappedCsv } from "../../services/csvImport";
+import { GlucoseUnit } from "../../services/glucoseUnits";
+import { FingerstickReadingsService } from "../../services/fingerstickReadings";
+
+const MAPPING_FIELDS: { field: keyof CsvColumnMapping; label: string; required: boolean }[] = [
+  { field: 'timestamp', label: 'Date & time', required: true },
+  { field: 'value', label: 'Glucose value', required: true },
+  { field: 'comment', label: 'Comment', required: false },
+  { field: 'unit', label: 'Unit', required: false },
+];
+
+const EMPTY_MAPPING: CsvColumnMapping = { timestamp: null, value: null, comment: null, unit: null };
+
+export default function CsvUploadButton() {
+  const { isOpen, openModal, closeModal } = useModal();
+  const { refreshData } = useGlucose();
+  const { settings } = useUserSettings();
+  const [header, setHeader] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<CsvColumnMapping>(EMPTY_MAPPING);
+  const [defaultUnit, setDefaultUnit] = useState<GlucoseUnit>(settings.glucoseUnit);
+  const [uploading, setUploading] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setHeader([]);
+    setRows([]);
+    setMapping(EMPTY_MAPPING);
+    setMessage(null);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    if (uploading) return;
+    reset();
+    closeModal();
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    reset();
+    if (!file) return;
+
+    try {
+      const [headerRow, ...dataRows] = parseCsv(await file.text());
+      if (!headerRow || dataRows.length === 0) {
+        setError('The file needs a header row and at least one reading');
+        return;
+      }
+      const trimmedHeader = headerRow.map(cell => cell.trim());
+      setHeader(trimmedHeader);
+      setRows(dataRows);
+      setMapping(guessColumnMapping(trimmedHeader));
+    } catch (err) {
+      console.error('Error reading CSV file:', err);
+      setError('Failed to read the file');
+    }
+  };
+
+  // Re-parse whenever the mapping changes so the preview stays accurate
+  const preview = useMemo(() => {
+    if (rows.length === 0 || mapping.timestamp === null || mapping.value === null) return null;
+    return parseMappedCsv(rows, mapping, defaultUnit, settings.timezone);
+  }, [rows, mapping, defaultUnit, settings.timezone]);
+
+  const columnOptions = header.map((name, index) => ({
+    value: String(index),
+    label: name || `Column ${index + 1}`,
+  }));
+
+  const handleUpload = async () => {
+    if (!preview || preview.readings.length === 0) return;
+
+    try {
+      setUploading(true);
+      setProgress(0);
+      setError(null);
+
+      const saved = await FingerstickReadingsService.getInstance().saveReadings(
+        preview.readings,
+        'csv',
+        (count, total) => setProgress(Math.round((count / total) * 100))
+      );
+      reset();
+      setMessage(`Uploaded ${saved} readings.`);
+      await refreshData();
+    } catch (err) {
+      console.error('Error uploading CSV readings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to upload readings');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={openModal}
+        className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700"
+      >
+        <FileIcon className="size-4" />
+        Upload CSV
+      </button>
+
+      <Modal isOpen={isOpen} onClose={handleClose} className="max-w-[560px] p-6 lg:p-8">
+        <h5 className="mb-2 font-semibold text-gray-800 text-xl dark:text-white/90">
+          Upload readings
+        </h5>
+        <p className="mb-6 text-sm text-gray-500 dark:text-gray-400">
+          Upload fingerstick readings from any CSV file with a header row. Readings are stored in your account and only visible to you.
+        </p>
+
+        <div>
+          <Label htmlFor="csv-upload-file">CSV file</Label>
+          <FileInput id="csv-upload-file" accept=".csv,text/csv" onChange={handleFileChange} />
+        </div>
+
+        {header.length > 0 && (
+          <>
+            <div className="grid grid-cols-2 gap-4 mt-5">
+              {MAPPING_FIELDS.map(({ field, label, required }) => (
+                <div key={field}>
+                  <Label htmlFor={`csv-column-${field}`}>{label}{required && ' *'}</Label>
+                  <Select
+                    id={`csv-column-${field}`}
+                    options={columnOptions}
+                    placeholder={required ? 'Select column' : 'None'}
+                    value={mapping[field] === null ? '' : String(mapping[field])}
+                    onChange={(value) => setMapping({ ...mapping, [field]: value === '' ? null : Number(value) })}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="mt-5">
+              <Label>{mapping.unit === null ? 'Values are in' : 'Unit when the unit column is blank'}</Label>
+              <div className="flex gap-6">
+                <Radio
+                  id="csv-unit-mgdl"
+                  name="csv-unit"
+                  value="mg/dL"
+                  checked={defaultUnit === 'mg/dL'}
+                  label="mg/dL"
+                  onChange={(value) => setDefaultUnit(value as GlucoseUnit)}
+                />
+                <Radio
+                  id="csv-unit-mmol"
+                  name="csv-unit"
+                  value="mmol/L"
+                  checked={defaultUnit === 'mmol/L'}
+                  label="mmol/L"
+                  onChange={(value) => setDefaultUnit(value as GlucoseUnit)}
+                />
+              </div>
+            </div>
+          </>
+        )}
+
+        {preview && (
+          <p className="mt-4 text-sm text-gray-600 dark:text-gray-300">
+            {preview.readings.length} readings ready to upload
+            {preview.skippedRows > 0 && `, ${preview.skippedRows} rows skipped (unreadable date or value)`}.
+          </p>
+        )}
+        {uploading && (
+          <div className="mt-4">
+            <div className="h-2 w-full overflow-hidden rounded-full bg-gray-200 dark:bg-gray-700">
+              <div className="h-full bg-blue-600 transition-all" style={{ width: `${progress}%` }}></div>
+            </div>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Uploading... {progress}%</p>
+          </div>
+        )}
+        {message && (
+          <p className="mt-4 text-sm text-green-600 dark:text-green-400">{message}</p>
+        )}
+        {error && (
+          <p className="mt-4 text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+
+        <div className="flex justify-end gap-3 mt-6">
+          <Button size="sm" variant="outline" onClick={handleClose} disabled={uploading}>
+            Close
+          </Button>
+          <Button size="sm" onClick={handleUpload} disabled={!preview || preview.readings.length === 0 || uploading}>
+            {uploading ? 'Uploading...' : 'Upload'}
+          </Button>
+        </div>
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { format, parseISO, subDays } from "date-fns";
+import { Modal } from "../ui/modal";
+import { useModal } from "../../hooks/useModal";
+import Label from "../form/Label";
+import Input from "../form/input/InputField";
+import Button from "../ui/button/Button";
+import { DownloadIcon } from "../../icons";
+import { GlucoseReadingSource, getSourceLabel } from "../../services/glucoseData";
+import { useUserSettings } from "../../context/UserSettingsContext";
+import { getDayKey } from "../../services/timezone";
+
+interface ExportReportButtonProps {
+  source: GlucoseReadingSource;
+}
+
+// Default report window covers the usual two weeks between clinic reviews
+const DEFAULT_REPORT_DAYS = 14;
+
+export default function ExportReportButton({ source }: ExportReportButtonProps) {
+  const { isOpen, openModal, closeModal } = useModal();
+  const { settings: { timezone } } = useUserSettings();
+  const today = getDayKey(new Date(), timezone);
+  const [startDate, setStartDate] = useState(format(subDays(parseISO(today), DEFAULT_REPORT_DAYS - 1), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(today);
+
+  const rangeInvalid = !startDate || !endDate || startDate > endDate;
+
+  const handleExport = () => {
+    if (rangeInvalid) return;
+
+    const params = new URLSearchParams({ source, start: startDate, end: endDate });
+    window.open(`/report?${params}`, '_blank');
+    closeModal();
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={openModal}
+        className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700"
+      >
+        <DownloadIcon className="size-4" />
+        Export report
+      </button>
+
+      <Modal isOpen={isOpen} onClose={closeModal} className="max-w-[480px] p-6 lg:p-8">
+        <h5 className="mb-2 font-semibold text-gray-800 text-xl dark:text-white/90">
+          Export clinician report
+        </h5>
+        <p className="mb-6 text-sm text-gray-500 dark:text-gray-400">
+          Opens a print-ready {getSourceLabel(source).toLowerCase()} report. Use your browser's print dialog to save it as PDF.
+        </p>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="report-start">Start date</Label>
+            <Input
+              type="date"
+              id="report-start"
+              value={startDate}
+              max={endDate || today}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="report-end">End date</Label>
+            <Input
+              type="date"
+              id="report-end"
+              value={endDate}
+              min={startDate}
+              max={today}
+              onChange={(e) => setEndDate(e.target.value)}
+              error={rangeInvalid}
+              hint={rangeInvalid ? 'End date must be on or after the start date' : undefined}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <Button size="sm" variant="outline" onClick={closeModal}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleExport} disabled={rangeInvalid}>
+            Open report
+          </Button>
+        </div>
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react";
+import Label from "../form/Label";
+import Input from "../form/input/InputField";
+import Button from "../ui/button/Button";
+import { useGlucose } from "../../context/GlucoseContext";
+import {
+  DEFAULT_SHEET_COLUMNS,
+  GoogleSheetsService,
+  SheetColumnMapping,
+  SheetConfig,
+} from "../../services/googleSheets";
+
+const COLUMN_FIELDS: { field: keyof SheetColumnMapping; label: string; required: boolean }[] = [
+  { field: 'dateTime', label: 'Date & time column', required: true },
+  { field: 'glucoseLevel', label: 'Glucose column', required: true },
+  { field: 'comment', label: 'Comment column', required: false },
+  { field: 'dayAverage', label: 'Day average column', required: false },
+];
+
+const EMPTY_CONFIG: SheetConfig = {
+  spreadsheetId: '',
+  tabName: '',
+  columns: DEFAULT_SHEET_COLUMNS,
+};
+
+// Accept a full sheet URL as well as the bare ID
+const extractSpreadsheetId = (value: string): string => {
+  const match = value.match(/\/spreadsheets\/d\/([a-zA-Z0-9_-]+)/);
+  return match ? match[1] : value.trim();
+};
+
+/**
+ * Link the user's own Google Sheet. The configuration is stored server-side and
+ * rows are fetched through a Cloud Function.
+ */
+export default function SheetConfigSettings() {
+  const { refreshData } = useGlucose();
+  const [config, setConfig] = useState<SheetConfig>(EMPTY_CONFIG);
+  const [linked, setLinked] = useState(false);
+  const [serviceAccountEmail, setServiceAccountEmail] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const googleSheetsService = GoogleSheetsService.getInstance();
+
+  useEffect(() => {
+    googleSheetsService.getSheetConfig()
+      .then(response => {
+        setServiceAccountEmail(response.serviceAccountEmail);
+        if (response.config) {
+          setConfig(response.config);
+          setLinked(true);
+        }
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load sheet configuration'))
+      .finally(() => setLoading(false));
+  }, [googleSheetsService]);
+
+  const setColumn = (field: keyof SheetColumnMapping, value: string) => {
+    setConfig({ ...config, columns: { ...config.columns, [field]: value.toUpperCase() || null } });
+    setMessage(null);
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      await googleSheetsService.saveSheetConfig({
+        ...config,
+        spreadsheetId: extractSpreadsheetId(config.spreadsheetId),
+      });
+      setLinked(true);
+      setMessage('Sheet linked.');
+      await refreshData();
+    } catch (err) {
+      console.error('Error linking sheet:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save sheet configuration');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUnlink = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      await googleSheetsService.deleteSheetConfig();
+      setConfig(EMPTY_CONFIG);
+      setLinked(false);
+      setMessage('Sheet unlinked.');
+      await refreshData();
+    } catch (err) {
+      console.error('Error unlinking sheet:', err);
+      setError(err instanceof Error ? err.message : 'Failed to unlink sheet');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="animate-pulse h-32 bg-gray-200 rounded dark:bg-gray-700"></div>;
+  }
+
+  return (
+    <div>
+      <p className="mb-5 text-sm text-gray-500 dark:text-gray-400">
+        Share the sheet with "Anyone with the link can view", then paste its URL or ID below.
+        {serviceAccountEmail && (
+          <> To log readings from the dashboard into the sheet, also share it with <strong>{serviceAccountEmail}</strong> as an editor.</>
+        )}
+      </p>
+
+      <div className="grid grid-cols-1 gap-5 sm:grid-cols-2">
+        <div>
+          <Label htmlFor="sheet-spreadsheet-id">Spreadsheet URL or ID *</Label>
+          <Input
+            id="sheet-spreadsheet-id"
+            value={config.spreadsheetId}
+            onChange={(e) => setConfig({ ...config, spreadsheetId: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="sheet-tab-name">Tab name *</Label>
+          <Input
+            id="sheet-tab-name"
+            value={config.tabName}
+            placeholder="2025_all_data"
+            onChange={(e) => setConfig({ ...config, tabName: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-5 mt-5 sm:grid-cols-4">
+        {COLUMN_FIELDS.map(({ field, label, required }) => (
+          <div key={field}>
+            <Label htmlFor={`sheet-column-${field}`}>{label}{required && ' *'}</Label>
+            <Input
+              id={`sheet-column-${field}`}
+              value={config.columns[field] ?? ''}
+              placeholder={required ? undefined : 'None'}
+              onChange={(e) => setColumn(field, e.target.value)}
+            />
+          </div>
+        ))}
+      </div>
+
+      {message && (
+        <p className="mt-4 text-sm text-green-600 dark:text-green-400">{message}</p>
+      )}
+      {error && (
+        <p className="mt-4 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      <div className="flex justify-end gap-3 mt-6">
+        {linked && (
+          <Button size="sm" variant="outline" onClick={handleUnlink} disabled={saving}>
+            Unlink
+          </Button>
+        )}
+        <Button size="sm" onClick={handleSave} disabled={saving || !config.spreadsheetId || !config.tabName}>
+          {saving ? 'Saving...' : linked ? 'Update sheet' : 'Link sheet'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import Label from "../form/Label";
+import Input from "../form/input/InputField";
+import Button from "../ui/button/Button";
+import { useUserSettings } from "../../context/UserSettingsContext";
+import {
+  GlucoseThresholds,
+  THRESHOLD_PRESETS,
+  ThresholdPreset,
+  findThresholdPreset,
+  validateThresholds,
+} from "../../services/glucoseStats";
+import { convertGlucose, toMgdl } from "../../services/glucoseUnits";
+
+const THRESHOLD_FIELDS: { field: keyof GlucoseThresholds; label: string }[] = [
+  { field: 'veryLow', label: 'Very low below' },
+  { field: 'low', label: 'Low below' },
+  { field: 'high', label: 'High above' },
+  { field: 'veryHigh', label: 'Very high above' },
+];
+
+type ThresholdInputs = Record<keyof GlucoseThresholds, string>;
+
+interface TargetRangeSettingsProps {
+  onSaved?: () => void;
+}
+
+/**
+ * Edit the user's glucose thresholds in their display unit, starting from a preset or custom values
+ */
+export default function TargetRangeSettings({ onSaved }: TargetRangeSettingsProps) {
+  const { settings, updateSettings } = useUserSettings();
+  const { glucoseUnit } = settings;
+
+  const toInputs = (thresholds: GlucoseThresholds): ThresholdInputs => ({
+    veryLow: String(convertGlucose(thresholds.veryLow, glucoseUnit)),
+    low: String(convertGlucose(thresholds.low, glucoseUnit)),
+    high: String(convertGlucose(thresholds.high, glucoseUnit)),
+    veryHigh: String(convertGlucose(thresholds.veryHigh, glucoseUnit)),
+  });
+
+  const [inputs, setInputs] = useState<ThresholdInputs>(() => toInputs(settings.targetThresholds));
+  // Preset whose exact mg/dL values are shown, until an input is edited. Display values in
+  // mmol/L are rounded, so converting them back would not reproduce the preset.
+  const [appliedPreset, setAppliedPreset] = useState<ThresholdPreset | null>(
+    () => findThresholdPreset(settings.targetThresholds)
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Inputs are in the display unit; thresholds are always stored in mg/dL
+  const thresholds: GlucoseThresholds = appliedPreset ? THRESHOLD_PRESETS[appliedPreset].thresholds : {
+    veryLow: toMgdl(parseFloat(inputs.veryLow), glucoseUnit),
+    low: toMgdl(parseFloat(inputs.low), glucoseUnit),
+    high: toMgdl(parseFloat(inputs.high), glucoseUnit),
+    veryHigh: toMgdl(parseFloat(inputs.veryHigh), glucoseUnit),
+  };
+  const activePreset = appliedPreset ?? findThresholdPreset(thresholds);
+
+  const applyPreset = (preset: ThresholdPreset) => {
+    setInputs(toInputs(THRESHOLD_PRESETS[preset].thresholds));
+    setAppliedPreset(preset);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    const validationError = validateThresholds(thresholds);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await updateSettings({ targetThresholds: thresholds });
+      onSaved?.();
+    } catch (err) {
+      console.error('Error saving target thresholds:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save targets');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(THRESHOLD_PRESETS) as ThresholdPreset[]).map(preset => (
+          <button
+            key={preset}
+            type="button"
+            onClick={() => applyPreset(preset)}
+            title={THRESHOLD_PRESETS[preset].description}
+            className={`px-3 py-1.5 text-sm font-medium rounded-lg border ${
+              activePreset === preset
+                ? 'bg-blue-600 text-white border-blue-600'
+                : 'text-gray-700 bg-white border-gray-300 hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700'
+            }`}
+          >
+            {THRESHOLD_PRESETS[preset].label}
+          </button>
+        ))}
+      </div>
+      <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+        {activePreset ? THRESHOLD_PRESETS[activePreset].description : 'Custom targets agreed with your care team'}
+      </p>
+
+      <div className="grid grid-cols-2 gap-4 mt-5">
+        {THRESHOLD_FIELDS.map(({ field, label }) => (
+          <div key={field}>
+            <Label htmlFor={`threshold-${field}`}>{label} ({glucoseUnit})</Label>
+            <Input
+              id={`threshold-${field}`}
+              type="number"
+              min="0"
+              step={glucoseUnit === 'mmol/L' ? 0.1 : 1}
+              value={inputs[field]}
+              onChange={(e) => {
+                setInputs({ ...inputs, [field]: e.target.value });
+                setAppliedPreset(null);
+              }}
+            />
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <p className="mt-4 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      <div className="flex justify-end mt-6">
+        <Button size="sm" onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save targets'}
+        </Button>
+      </div>
+    </div>
+  );
+}
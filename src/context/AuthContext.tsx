@@ -17,6 +17,7 @@ interface User {
 interface AuthContextType {
   isAuthenticated: boolean;
   user: User | null;
+  isAdmin: boolean; // Set from the `admin` custom claim on the user's ID token
   login: (email: string, password: string) => Promise<boolean>;
   register: (email: string, password: string) => Promise<boolean>;
   logout: () => void;
@@ -51,6 +52,7 @@ const convertFirebaseUser = (firebaseUser: FirebaseUser): User => {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [user, setUser] = useState<User | null>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
   const [loading, setLoading] = useState(true);
   const authCallbacks = useRef<{
     onUserAuthenticated?: (user: User) => void;
@@ -111,11 +113,19 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   // Check authentication status on mount
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (firebaseUser) => {
+    const unsubscribe = onAuthStateChanged(auth, async (firebaseUser) => {
       if (firebaseUser) {
         const user = convertFirebaseUser(firebaseUser);
         setUser(user);
         setIsAuthenticated(true);
+
+        try {
+          const tokenResult = await firebaseUser.getIdTokenResult();
+          setIsAdmin(tokenResult.claims.admin === true);
+        } catch (error) {
+          console.error('Error reading auth claims:', error);
+          setIsAdmin(false);
+        }
         
         // Call authentication callback if user is being restored or logged in
         if (authCallbacks.current.onUserAuthenticated) {
@@ -124,6 +134,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       } else {
         setUser(null);
         setIsAuthenticated(false);
+        setIsAdmin(false);
       }
       setLoading(false);
     });
@@ -135,6 +146,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const value: AuthContextType = {
     isAuthenticated,
     user,
+    isAdmin,
     login,
     register,
     logout,
@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback, useMemo } from 'react';
 import { useAuth } from './AuthContext';
-import { DexcomService, DexcomGlucoseReading, DexcomStats, DexcomConnectionStatus } from '../services/dexcom';
+import { useUserSettings } from './UserSettingsContext';
+import { DexcomService, DexcomGlucoseReading, DexcomStats, DexcomConnectionStatus, DexcomBackfillProgress } from '../services/dexcom';
+import { DashboardTimeRange } from '../services/userSettings';
 import { subDays, subHours } from 'date-fns';
 
 interface DexcomApiResponse {
@@ -25,6 +27,7 @@ interface DexcomContextType {
   error: string | null;
   connected: boolean;
   connectionLoading: boolean;
+  backfill: DexcomBackfillProgress | null;
   timeRange: string;
   setTimeRange: (range: string) => void;
   refreshData: () => Promise<void>;
@@ -47,6 +50,14 @@ interface DexcomProviderProps {
   children: ReactNode;
 }
 
+// Dexcom range for each dashboard default range saved in the user's settings
+const DEXCOM_TIME_RANGES: Record<DashboardTimeRange, string> = {
+  last_twelve: 'last_twelve',
+  week: 'last_week',
+  month: 'last_month',
+  three_months: 'last_three_months',
+};
+
 // Helper function to get start and end dates based on time range
 const getTimeRangeDates = (timeRange: string): { startDate: Date; endDate: Date } => {
   const now = new Date();
@@ -62,6 +73,9 @@ const getTimeRangeDates = (timeRange: string): { startDate: Date; endDate: Date
     case 'last_month':
       startDate = subDays(now, 30);
       break;
+    case 'last_three_months':
+      startDate = subDays(now, 90);
+      break;
     case 'all_time':
       startDate = subDays(now, 365); // 1 year for all time
       break;
@@ -79,11 +93,18 @@ export const DexcomProvider: React.FC<DexcomProviderProps> = ({ children }) => {
   const [error, setError] = useState<string | null>(null);
   const [connected, setConnected] = useState(false);
   const [connectionLoading, setConnectionLoading] = useState(true);
+  const [backfill, setBackfill] = useState<DexcomBackfillProgress | null>(null);
   const [timeRange, setTimeRange] = useState('last_twelve');
   
   // Services
   const { user, isAuthenticated, loading: authLoading } = useAuth();
+  const { settings } = useUserSettings();
   const dexcomService = useMemo(() => DexcomService.getInstance(), []);
+
+  // Start from the user's preferred range whenever it loads or changes
+  useEffect(() => {
+    setTimeRange(DEXCOM_TIME_RANGES[settings.defaultTimeRange]);
+  }, [settings.defaultTimeRange]);
   
   // Firestore real-time subscription
   useEffect(() => {
@@ -113,6 +134,16 @@ export const DexcomProvider: React.FC<DexcomProviderProps> = ({ children }) => {
     return unsubscribe;
   }, [user, connected, timeRange, dexcomService]);
 
+  // History import progress, written by the backfill worker after connecting
+  useEffect(() => {
+    if (!user || !connected) {
+      setBackfill(null);
+      return;
+    }
+
+    return dexcomService.subscribeToBackfill(setBackfill);
+  }, [user, connected, dexcomService]);
+
   const refreshData = useCallback(async () => {
     if (!user) {
       return;
@@ -289,6 +320,9 @@ export const DexcomProvider: React.FC<DexcomProviderProps> = ({ children }) => {
         case 'token_exchange_failed':
           userFriendlyError = 'Failed to exchange authorization code. Please try again.';
           break;
+        case 'connection_failed':
+          userFriendlyError = 'Your Dexcom account could not be saved. Please try connecting again.';
+          break;
         case 'missing_parameters':
           userFriendlyError = 'Missing required parameters. Please try connecting again.';
           break;
@@ -367,7 +401,7 @@ export const DexcomProvider: React.FC<DexcomProviderProps> = ({ children }) => {
   };
 
   // Calculate stats based on current glucose data
-  const stats = dexcomService.calculateStats(glucoseData);
+  const stats = dexcomService.calculateStats(glucoseData, settings.targetThresholds);
 
   const value: DexcomContextType = {
     glucoseData,
@@ -376,6 +410,7 @@ export const DexcomProvider: React.FC<DexcomProviderProps> = ({ children }) => {
     error,
     connected,
     connectionLoading,
+    backfill,
     timeRange,
     setTimeRange,
     refreshData,
@@ -1,6 +1,9 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
-import { GoogleSheetsService, GlucoseReading, GlucoseStats } from '../services/googleSheets';
+import { GoogleSheetsService, GlucoseReading, GlucoseStats, getFingerstickKey } from '../services/googleSheets';
+import { FingerstickReadingsService } from '../services/fingerstickReadings';
+import { ParsedCsvReading } from '../services/csvImport';
 import { useAuth } from './AuthContext';
+import { useUserSettings } from './UserSettingsContext';
 
 interface GlucoseContextType {
   glucoseData: GlucoseReading[]; // Raw unfiltered data
@@ -12,6 +15,7 @@ interface GlucoseContextType {
   timeRange: string;
   setTimeRange: (range: string) => void;
   refreshData: () => Promise<void>;
+  logReading: (reading: ParsedCsvReading) => Promise<void>;
 }
 
 const GlucoseContext = createContext<GlucoseContextType | undefined>(undefined);
@@ -28,6 +32,20 @@ interface GlucoseProviderProps {
   children: ReactNode;
 }
 
+const byDateTime = (a: GlucoseReading, b: GlucoseReading) =>
+  new Date(a.dateTime).getTime() - new Date(b.dateTime).getTime();
+
+// A reading logged to both Firestore and the sheet comes back from each source; keep one copy
+const dedupeReadings = (readings: GlucoseReading[]): GlucoseReading[] => {
+  const seen = new Set<string>();
+  return readings.filter(reading => {
+    const key = getFingerstickKey(reading);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
 export const GlucoseProvider: React.FC<GlucoseProviderProps> = ({ children }) => {
   const [glucoseData, setGlucoseData] = useState<GlucoseReading[]>([]);
   const [loading, setLoading] = useState(true);
@@ -36,7 +54,9 @@ export const GlucoseProvider: React.FC<GlucoseProviderProps> = ({ children }) =>
   const [timeRange, setTimeRange] = useState('last_twelve');
   
   const { isAuthenticated, loading: authLoading } = useAuth();
+  const { settings } = useUserSettings();
   const googleSheetsService = GoogleSheetsService.getInstance();
+  const fingerstickReadingsService = FingerstickReadingsService.getInstance();
 
   const fetchData = useCallback(async (isRefresh = false) => {
     if (isRefresh) {
@@ -46,8 +66,22 @@ export const GlucoseProvider: React.FC<GlucoseProviderProps> = ({ children }) =>
     }
     
     try {
-      const data = await googleSheetsService.fetchGlucoseData();
-      setGlucoseData(data);
+      // The sheet source resolves empty when the user has not linked a sheet
+      const results = await Promise.allSettled([
+        fingerstickReadingsService.fetchGlucoseData(),
+        googleSheetsService.fetchGlucoseData(settings.timezone),
+      ]);
+      const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+      failures.forEach(failure => console.error('Error fetching fingerstick source:', failure.reason));
+
+      if (failures.length === results.length) {
+        throw failures[0].reason;
+      }
+
+      const data = results
+        .flatMap(result => (result.status === 'fulfilled' ? result.value : []))
+        .sort(byDateTime);
+      setGlucoseData(dedupeReadings(data));
       setError(null);
     } catch (err) {
       console.error('Error fetching glucose data:', err);
@@ -59,12 +93,32 @@ export const GlucoseProvider: React.FC<GlucoseProviderProps> = ({ children }) =>
         setLoading(false);
       }
     }
-  }, [googleSheetsService]);
+  }, [googleSheetsService, fingerstickReadingsService, settings.timezone]);
 
   const refreshData = useCallback(async () => {
     await fetchData(true);
   }, [fetchData]);
 
+  /**
+   * Save a reading logged from the dashboard, showing it immediately and rolling back on failure
+   */
+  const logReading = useCallback(async (reading: ParsedCsvReading) => {
+    const row: GlucoseReading = {
+      dateTime: reading.timestamp,
+      glucoseLevel: reading.value,
+      comment: reading.comment,
+      dayAverage: 0,
+    };
+    setGlucoseData(current => [...current, row].sort(byDateTime));
+
+    try {
+      await fingerstickReadingsService.saveReading(reading, 'manual');
+    } catch (err) {
+      setGlucoseData(current => current.filter(existing => existing !== row));
+      throw err;
+    }
+  }, [fingerstickReadingsService]);
+
   useEffect(() => {
     // Only fetch data when user is authenticated and auth is not loading
     if (isAuthenticated && !authLoading) {
@@ -73,12 +127,18 @@ export const GlucoseProvider: React.FC<GlucoseProviderProps> = ({ children }) =>
       // If not authenticated, reset loading state
       setLoading(false);
     }
+    // Sheet times are read in the user's zone, so changing it reloads the sheet
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isAuthenticated, authLoading]);
+  }, [isAuthenticated, authLoading, settings.timezone]);
+
+  // Start from the user's preferred range whenever it loads or changes
+  useEffect(() => {
+    setTimeRange(settings.defaultTimeRange);
+  }, [settings.defaultTimeRange]);
 
   // Calculate filtered data and stats based on current time range
   const filteredData = googleSheetsService.filterDataByTimeRange(glucoseData, timeRange);
-  const stats = googleSheetsService.calculateStats(filteredData);
+  const stats = googleSheetsService.calculateStats(filteredData, settings.targetThresholds);
 
   const value: GlucoseContextType = {
     glucoseData,
@@ -90,6 +150,7 @@ export const GlucoseProvider: React.FC<GlucoseProviderProps> = ({ children }) =>
     timeRange,
     setTimeRange,
     refreshData,
+    logReading,
   };
 
   return (
@@ -0,0 +1,114 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import { HealthEvent, HealthEventsService, NewHealthEvent } from '../services/healthEvents';
+import { DexcomService } from '../services/dexcom';
+import { useAuth } from './AuthContext';
+
+interface HealthEventsContextType {
+  events: HealthEvent[]; // Logged and receiver-entered events, newest first
+  loading: boolean;
+  error: string | null;
+  addEvent: (event: NewHealthEvent) => Promise<void>;
+  deleteEvent: (eventId: string) => Promise<void>;
+}
+
+const HealthEventsContext = createContext<HealthEventsContextType | undefined>(undefined);
+
+export const useHealthEvents = () => {
+  const context = useContext(HealthEventsContext);
+  if (context === undefined) {
+    throw new Error('useHealthEvents must be used within a HealthEventsProvider');
+  }
+  return context;
+};
+
+interface HealthEventsProviderProps {
+  children: ReactNode;
+}
+
+export const HealthEventsProvider: React.FC<HealthEventsProviderProps> = ({ children }) => {
+  const [manualEvents, setManualEvents] = useState<HealthEvent[]>([]);
+  const [dexcomEvents, setDexcomEvents] = useState<HealthEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { user, loading: authLoading } = useAuth();
+  const healthEventsService = HealthEventsService.getInstance();
+  const dexcomService = DexcomService.getInstance();
+
+  useEffect(() => {
+    if (authLoading) return;
+
+    if (!user) {
+      setManualEvents([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const unsubscribe = healthEventsService.subscribeToEvents(
+      user.id,
+      (newEvents) => {
+        setManualEvents(newEvents);
+        setError(null);
+        setLoading(false);
+      },
+      (subscriptionError) => {
+        setError(subscriptionError.message);
+        setLoading(false);
+      }
+    );
+
+    return unsubscribe;
+  }, [user, authLoading, healthEventsService]);
+
+  // Events entered on a Dexcom receiver; a failure here leaves logged events usable
+  useEffect(() => {
+    if (authLoading) return;
+
+    if (!user) {
+      setDexcomEvents([]);
+      return;
+    }
+
+    return dexcomService.subscribeToEvents(
+      (newEvents) => setDexcomEvents(dexcomService.toHealthEvents(newEvents)),
+      () => setDexcomEvents([])
+    );
+  }, [user, authLoading, dexcomService]);
+
+  const events = useMemo(
+    () => [...manualEvents, ...dexcomEvents].sort(
+      (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+    ),
+    [manualEvents, dexcomEvents]
+  );
+
+  // The snapshot listener picks up local writes immediately, so no manual state updates are needed
+  const addEvent = useCallback(async (event: NewHealthEvent) => {
+    if (!user) {
+      throw new Error('User must be authenticated');
+    }
+    await healthEventsService.saveEvent(user.id, event);
+  }, [user, healthEventsService]);
+
+  const deleteEvent = useCallback(async (eventId: string) => {
+    if (dexcomEvents.some(event => event.id === eventId)) {
+      throw new Error('Events from your Dexcom receiver can only be removed on the receiver');
+    }
+    await healthEventsService.deleteEvent(eventId);
+  }, [dexcomEvents, healthEventsService]);
+
+  const value: HealthEventsContextType = {
+    events,
+    loading,
+    error,
+    addEvent,
+    deleteEvent,
+  };
+
+  return (
+    <HealthEventsContext.Provider value={value}>
+      {children}
+    </HealthEventsContext.Provider>
+  );
+};
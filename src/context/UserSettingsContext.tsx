@@ -0,0 +1,80 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { DEFAULT_USER_SETTINGS, UserSettings, UserSettingsService } from '../services/userSettings';
+import { useAuth } from './AuthContext';
+
+interface UserSettingsContextType {
+  settings: UserSettings;
+  loading: boolean;
+  updateSettings: (updates: Partial<UserSettings>) => Promise<void>;
+}
+
+const UserSettingsContext = createContext<UserSettingsContextType | undefined>(undefined);
+
+export const useUserSettings = () => {
+  const context = useContext(UserSettingsContext);
+  if (context === undefined) {
+    throw new Error('useUserSettings must be used within a UserSettingsProvider');
+  }
+  return context;
+};
+
+interface UserSettingsProviderProps {
+  children: ReactNode;
+}
+
+export const UserSettingsProvider: React.FC<UserSettingsProviderProps> = ({ children }) => {
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_USER_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  // Last settings confirmed by the server snapshot, restored when a save fails
+  const savedSettings = useRef<UserSettings>(DEFAULT_USER_SETTINGS);
+
+  const { user, loading: authLoading } = useAuth();
+  const userSettingsService = UserSettingsService.getInstance();
+
+  useEffect(() => {
+    if (authLoading) return;
+
+    if (!user) {
+      savedSettings.current = DEFAULT_USER_SETTINGS;
+      setSettings(DEFAULT_USER_SETTINGS);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const unsubscribe = userSettingsService.subscribeToSettings(user.id, (newSettings) => {
+      savedSettings.current = newSettings;
+      setSettings(newSettings);
+      setLoading(false);
+    });
+
+    return unsubscribe;
+  }, [user, authLoading, userSettingsService]);
+
+  const updateSettings = useCallback(async (updates: Partial<UserSettings>) => {
+    if (!user) {
+      throw new Error('User must be authenticated');
+    }
+    // Apply locally first so the UI responds before the snapshot round-trip
+    setSettings(current => ({ ...current, ...updates }));
+    try {
+      await userSettingsService.updateSettings(user.id, updates);
+    } catch (error) {
+      // Rejected updates (e.g. invalid thresholds) never reach the snapshot listener
+      setSettings(savedSettings.current);
+      throw error;
+    }
+  }, [user, userSettingsService]);
+
+  const value: UserSettingsContextType = {
+    settings,
+    loading,
+    updateSettings,
+  };
+
+  return (
+    <UserSettingsContext.Provider value={value}>
+      {children}
+    </UserSettingsContext.Provider>
+  );
+};
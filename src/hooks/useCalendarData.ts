@@ -1,30 +1,64 @@
 import { useState, useEffect } from 'react';
-import { GoogleSheetsService, GlucoseReading } from '../services/googleSheets';
+import { GoogleSheetsService } from '../services/googleSheets';
+import { DexcomService } from '../services/dexcom';
+import { FingerstickReadingsService } from '../services/fingerstickReadings';
+import { UnifiedGlucoseReading, mergeReadings } from '../services/glucoseData';
 import { useAuth } from '../context/AuthContext';
+import { useUserSettings } from '../context/UserSettingsContext';
 
 interface UseCalendarDataReturn {
-  calendarData: GlucoseReading[];
+  calendarData: UnifiedGlucoseReading[];
+  cgmRange: { start: Date; end: Date } | null; // Range the CGM history was loaded for, if it loaded
   loading: boolean;
   error: string | null;
   refreshCalendarData: () => Promise<void>;
 }
 
+// CGM history shown on the calendar (30 days of 5-minute readings)
+const CGM_TIME_RANGE = 'last_month';
+const CGM_MAX_READINGS = 30 * 288;
+
 export const useCalendarData = (): UseCalendarDataReturn => {
-  const [calendarData, setCalendarData] = useState<GlucoseReading[]>([]);
+  const [calendarData, setCalendarData] = useState<UnifiedGlucoseReading[]>([]);
+  const [cgmRange, setCgmRange] = useState<{ start: Date; end: Date } | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  
+
   const { isAuthenticated, loading: authLoading } = useAuth();
+  const { settings: { timezone } } = useUserSettings();
   const googleSheetsService = GoogleSheetsService.getInstance();
+  const dexcomService = DexcomService.getInstance();
+  const fingerstickReadingsService = FingerstickReadingsService.getInstance();
 
   const fetchCalendarData = async () => {
     setLoading(true);
+    const now = new Date();
     try {
-      // console.log('useCalendarData: Fetching all glucose data for calendar...');
-      const data = await googleSheetsService.fetchGlucoseData();
-      // console.log('useCalendarData: Received data:', data.length, 'readings');
-      // console.log('useCalendarData: Sample data:', data.slice(0, 3));
-      setCalendarData(data);
+      const results = await Promise.allSettled([
+        googleSheetsService.fetchReadings(undefined, timezone),
+        fingerstickReadingsService.fetchReadings(),
+        dexcomService.fetchReadings(CGM_TIME_RANGE, CGM_MAX_READINGS),
+      ]);
+
+      const readings = results
+        .filter((result): result is PromiseFulfilledResult<UnifiedGlucoseReading[]> => result.status === 'fulfilled')
+        .map(result => result.value);
+      const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+
+      failures.forEach(failure => {
+        console.error('useCalendarData: Error fetching data:', failure.reason);
+      });
+
+      // Only surface an error when no source could be loaded
+      if (readings.length === 0 && failures.length > 0) {
+        const reason = failures[0].reason;
+        throw reason instanceof Error ? reason : new Error('Failed to fetch calendar data');
+      }
+
+      setCalendarData(mergeReadings(...readings));
+      setCgmRange(results[2].status === 'fulfilled'
+        ? { start: dexcomService.getTimeRangeStart(CGM_TIME_RANGE, now)!, end: now }
+        : null);
       setError(null);
     } catch (err) {
       console.error('useCalendarData: Error fetching data:', err);
@@ -46,12 +80,13 @@ export const useCalendarData = (): UseCalendarDataReturn => {
       // If not authenticated, reset loading state
       setLoading(false);
     }
-  }, [isAuthenticated, authLoading]);
+  }, [isAuthenticated, authLoading, timezone]);
 
   return {
     calendarData,
+    cgmRange,
     loading,
     error,
     refreshCalendarData,
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,43 @@
+import { useMemo } from 'react';
+import { useGlucose } from '../context/GlucoseContext';
+import { useDexcom } from '../context/DexcomContext';
+import { GoogleSheetsService } from '../services/googleSheets';
+import { DexcomService } from '../services/dexcom';
+import { mergeReadings, UnifiedGlucoseReading } from '../services/glucoseData';
+
+interface UseCombinedReadingsReturn {
+  readings: UnifiedGlucoseReading[];
+  fingerstickReadings: UnifiedGlucoseReading[];
+  cgmReadings: UnifiedGlucoseReading[];
+  loading: boolean;
+}
+
+/**
+ * Fingerstick (Google Sheets) and CGM (Dexcom) readings on a single timeline
+ */
+export const useCombinedReadings = (): UseCombinedReadingsReturn => {
+  const { filteredData, loading: glucoseLoading } = useGlucose();
+  const { glucoseData: dexcomData, loading: dexcomLoading } = useDexcom();
+
+  const fingerstickReadings = useMemo(
+    () => GoogleSheetsService.getInstance().toUnifiedReadings(filteredData),
+    [filteredData]
+  );
+
+  const cgmReadings = useMemo(
+    () => DexcomService.getInstance().toUnifiedReadings(dexcomData),
+    [dexcomData]
+  );
+
+  const readings = useMemo(
+    () => mergeReadings(fingerstickReadings, cgmReadings),
+    [fingerstickReadings, cgmReadings]
+  );
+
+  return {
+    readings,
+    fingerstickReadings,
+    cgmReadings,
+    loading: glucoseLoading || dexcomLoading,
+  };
+};
@@ -7,7 +7,10 @@ import {
   GridIcon,
   // HorizontaLDots,
   CalenderIcon,
+  PieChartIcon,
+  PlugInIcon,
 } from "../icons";
+import { useAuth } from "../context/AuthContext";
 import { useSidebar } from "../context/SidebarContext";
 import { useGlucose } from "../context/GlucoseContext";
 
@@ -36,6 +39,20 @@ const navItems: NavItem[] = [
     name: "Dexcom G7",
     path: "/dexcom",
   },
+  {
+    icon: <PieChartIcon />,
+    name: "AGP Report",
+    path: "/agp",
+  },
+];
+
+// Shown only to accounts with the admin claim
+const adminNavItems: NavItem[] = [
+  {
+    icon: <PlugInIcon />,
+    name: "Operations Health",
+    path: "/admin/health",
+  },
 ];
 
 // const othersItems: NavItem[] = [
@@ -72,6 +89,7 @@ const navItems: NavItem[] = [
 const AppSidebar: React.FC = () => {
   const { isExpanded, isMobileOpen, isHovered, setIsHovered } = useSidebar();
   const { refreshData, refreshing } = useGlucose();
+  const { isAdmin } = useAuth();
   const location = useLocation();
 
   const [openSubmenu, setOpenSubmenu] = useState<{
@@ -328,7 +346,7 @@ const AppSidebar: React.FC = () => {
                   <HorizontaLDots className="size-6" />
                 )} */}
               </h2>
-              {renderMenuItems(navItems, "main")}
+              {renderMenuItems(isAdmin ? [...navItems, ...adminNavItems] : navItems, "main")}
             </div>
             {/* <div className="">
               <h2
@@ -0,0 +1,171 @@
+import { useState, useEffect } from "react";
+import PageMeta from "../components/common/PageMeta";
+import Label from "../components/form/Label";
+import Select from "../components/form/Select";
+import OperationHealthTable from "../components/admin/OperationHealthTable";
+import HealthTimelineChart from "../components/admin/HealthTimelineChart";
+import ErrorBreakdown from "../components/admin/ErrorBreakdown";
+import SyncFreshnessTable from "../components/admin/SyncFreshnessTable";
+import { useUserSettings } from "../context/UserSettingsContext";
+import { AdminHealthService, HealthSummary, formatSuccessRate } from "../services/adminHealth";
+import { formatInTimeZone } from "../services/timezone";
+
+const WINDOW_OPTIONS = [
+  { value: '1', label: 'Last hour' },
+  { value: '6', label: 'Last 6 hours' },
+  { value: '24', label: 'Last 24 hours' },
+  { value: '72', label: 'Last 3 days' },
+  { value: '168', label: 'Last 7 days' },
+];
+
+const AdminHealth: React.FC = () => {
+  const [hours, setHours] = useState('24');
+  const [summary, setSummary] = useState<HealthSummary | null>(null);
+  const [selectedOperation, setSelectedOperation] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { settings: { timezone } } = useUserSettings();
+
+  useEffect(() => {
+    setLoading(true);
+
+    AdminHealthService.getInstance().getHealthSummary(Number(hours))
+      .then(data => {
+        setSummary(data);
+        setError(null);
+        // Keep the selected operation across window changes when it still has metrics
+        setSelectedOperation(current =>
+          data.operations.some(operation => operation.operation === current)
+            ? current
+            : data.operations[0]?.operation ?? null
+        );
+      })
+      .catch(err => {
+        console.error('Error loading health summary:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load health summary');
+      })
+      .finally(() => setLoading(false));
+  }, [hours]);
+
+  const operation = summary?.operations.find(candidate => candidate.operation === selectedOperation) ?? null;
+  const staleUsers = summary?.syncFreshness.filter(user => user.stale).length ?? 0;
+
+  return (
+    <>
+      <PageMeta
+        title="Operations Health | Glucose Dashboard"
+        description="Success rates, latency and errors for Cloud Functions operations, and Dexcom sync freshness"
+      />
+      <div className="space-y-6">
+        <div className="rounded-2xl border border-gray-200 bg-white p-5 dark:border-gray-800 dark:bg-white/[0.03] sm:p-6">
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-800 dark:text-white/90">
+                Operations Health
+              </h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                {summary
+                  ? `${formatInTimeZone(summary.since, 'MMM d, h:mm a', timezone)} – ${formatInTimeZone(summary.until, 'MMM d, h:mm a', timezone)} · ${staleUsers} of ${summary.syncFreshness.length} users with stale syncs`
+                  : 'Loading health metrics...'}
+              </p>
+              {summary?.truncated && (
+                <p className="text-sm text-orange-600 dark:text-orange-400 mt-2">
+                  More metrics were recorded than can be aggregated at once; only the most recent are included. Choose a shorter window for complete figures.
+                </p>
+              )}
+            </div>
+            <div className="sm:w-56">
+              <Label htmlFor="health-window">Window</Label>
+              <Select
+                id="health-window"
+                options={WINDOW_OPTIONS}
+                value={hours}
+                onChange={setHours}
+                disabled={loading}
+              />
+            </div>
+          </div>
+        </div>
+
+        {error && (
+          <div className="rounded-2xl border border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-900/20 p-6">
+            <div className="text-center">
+              <h3 className="text-lg font-semibold text-red-800 dark:text-red-200 mb-2">
+                Error Loading Health Metrics
+              </h3>
+              <p className="text-red-600 dark:text-red-400">{error}</p>
+            </div>
+          </div>
+        )}
+
+        {loading && !summary && (
+          <div className="rounded-2xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-white/[0.03] p-6">
+            <div className="animate-pulse">
+              <div className="h-6 bg-gray-200 rounded dark:bg-gray-700 mb-4 w-64"></div>
+              <div className="h-64 bg-gray-200 rounded dark:bg-gray-700"></div>
+            </div>
+          </div>
+        )}
+
+        {summary && (
+          <>
+            <div className="rounded-2xl border border-gray-200 bg-white p-5 dark:border-gray-800 dark:bg-white/[0.03] sm:p-6">
+              <h3 className="text-lg font-semibold text-gray-800 dark:text-white/90 mb-1">
+                Operations
+              </h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                Latency percentiles cover timed calls only. Select an operation for its timeline and errors.
+              </p>
+              <OperationHealthTable
+                operations={summary.operations}
+                selected={selectedOperation}
+                onSelect={setSelectedOperation}
+              />
+            </div>
+
+            {operation && (
+              <div className="grid grid-cols-12 gap-4 md:gap-6">
+                <div className="col-span-12 xl:col-span-8 rounded-2xl border border-gray-200 bg-white p-5 dark:border-gray-800 dark:bg-white/[0.03] sm:p-6">
+                  <h3 className="text-lg font-semibold text-gray-800 dark:text-white/90 mb-1">
+                    {operation.operation} over time
+                  </h3>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                    {formatSuccessRate(operation.successRate)} success across {operation.total} calls, in {summary.bucketMs / (60 * 60 * 1000)}-hour buckets
+                  </p>
+                  <HealthTimelineChart buckets={operation.buckets} bucketMs={summary.bucketMs} timeZone={timezone} />
+                </div>
+
+                <div className="col-span-12 xl:col-span-4 rounded-2xl border border-gray-200 bg-white p-5 dark:border-gray-800 dark:bg-white/[0.03] sm:p-6">
+                  <h3 className="text-lg font-semibold text-gray-800 dark:text-white/90 mb-1">
+                    Errors
+                  </h3>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                    Most frequent failure messages
+                  </p>
+                  <ErrorBreakdown errors={operation.errors} failures={operation.failures} />
+                </div>
+              </div>
+            )}
+
+            <div className="rounded-2xl border border-gray-200 bg-white p-5 dark:border-gray-800 dark:bg-white/[0.03] sm:p-6">
+              <h3 className="text-lg font-semibold text-gray-800 dark:text-white/90 mb-1">
+                Dexcom Sync Freshness
+              </h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                Progress of the 15-minute scheduled pull for each connected user, stalest first
+              </p>
+              <SyncFreshnessTable
+                users={summary.syncFreshness}
+                generatedAt={summary.generatedAt}
+                timeZone={timezone}
+              />
+            </div>
+          </>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default AdminHealth;
@@ -0,0 +1,136 @@
+import { useState, useEffect, useMemo } from "react";
+import PageMeta from "../components/common/PageMeta";
+import AgpPercentileChart from "../components/agp/AgpPercentileChart";
+import DailyGlucoseProfiles from "../components/agp/DailyGlucoseProfiles";
+import ConsensusMetricsPanel from "../components/dashboard/ConsensusMetricsPanel";
+import { useAuth } from "../context/AuthContext";
+import { useUserSettings } from "../context/UserSettingsContext";
+import { DexcomService } from "../services/dexcom";
+import { UnifiedGlucoseReading } from "../services/glucoseData";
+import { calculateConsensusMetrics } from "../services/glucoseStats";
+import { formatGlucose } from "../services/glucoseUnits";
+import { formatInTimeZone } from "../services/timezone";
+import {
+  AGP_PERIOD_DAYS,
+  AGP_MAX_READINGS,
+  calculatePercentileProfile,
+  getAgpPeriod,
+  groupReadingsByDay,
+} from "../services/agp";
+
+const AgpReport: React.FC = () => {
+  const [readings, setReadings] = useState<UnifiedGlucoseReading[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { isAuthenticated, loading: authLoading } = useAuth();
+  const { settings: { glucoseUnit, targetThresholds, timezone } } = useUserSettings();
+  const period = useMemo(() => getAgpPeriod(timezone), [timezone]);
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!isAuthenticated) {
+      setLoading(false);
+      return;
+    }
+
+    const dexcomService = DexcomService.getInstance();
+    setLoading(true);
+
+    dexcomService.getGlucoseDataForDateRange(period.startDate, period.endDate, AGP_MAX_READINGS)
+      .then(data => {
+        setReadings(dexcomService.toUnifiedReadings(data));
+        setError(null);
+      })
+      .catch(err => {
+        console.error('Error loading AGP data:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load glucose data');
+      })
+      .finally(() => setLoading(false));
+  }, [isAuthenticated, authLoading, period]);
+
+  const metrics = useMemo(() => calculateConsensusMetrics(readings, targetThresholds), [readings, targetThresholds]);
+  const profile = useMemo(() => calculatePercentileProfile(readings, timezone), [readings, timezone]);
+  const days = useMemo(() => groupReadingsByDay(readings, timezone), [readings, timezone]);
+
+  if (loading) {
+    return (
+      <div className="rounded-2xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-white/[0.03] p-6">
+        <div className="animate-pulse">
+          <div className="h-6 bg-gray-200 rounded dark:bg-gray-700 mb-4 w-64"></div>
+          <div className="h-96 bg-gray-200 rounded dark:bg-gray-700"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-2xl border border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-900/20 p-6">
+        <div className="text-center">
+          <h3 className="text-lg font-semibold text-red-800 dark:text-red-200 mb-2">
+            Error Loading AGP Report
+          </h3>
+          <p className="text-red-600 dark:text-red-400">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const periodLabel = `${formatInTimeZone(period.startDate, 'MMM d, yyyy', timezone)} – ${formatInTimeZone(period.endDate, 'MMM d, yyyy', timezone)}`;
+
+  return (
+    <>
+      <PageMeta
+        title="AGP Report | Glucose Dashboard"
+        description="Ambulatory Glucose Profile for the last 14 days of CGM data"
+      />
+      <div className="space-y-6">
+        <div className="rounded-2xl border border-gray-200 bg-white p-5 dark:border-gray-800 dark:bg-white/[0.03] sm:p-6">
+          <h2 className="text-xl font-semibold text-gray-800 dark:text-white/90">
+            Ambulatory Glucose Profile
+          </h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            {periodLabel} · {days.length} of {AGP_PERIOD_DAYS} days with CGM data · {metrics.count} readings
+          </p>
+          {readings.length === 0 && (
+            <p className="text-sm text-blue-600 dark:text-blue-400 mt-3">
+              No CGM readings stored for the last {AGP_PERIOD_DAYS} days. Connect Dexcom and refresh your data first.
+            </p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-12 gap-4 md:gap-6">
+          <div className="col-span-12 xl:col-span-5 rounded-2xl border border-gray-200 bg-white p-5 dark:border-gray-800 dark:bg-white/[0.03] sm:p-6">
+            <h3 className="text-lg font-semibold text-gray-800 dark:text-white/90 mb-1">
+              Glucose Statistics and Targets
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+              Mean glucose {metrics.count > 0 ? formatGlucose(metrics.mean, glucoseUnit) : '--'}
+            </p>
+            <ConsensusMetricsPanel metrics={metrics} />
+          </div>
+
+          <div className="col-span-12 xl:col-span-7 rounded-2xl border border-gray-200 bg-white p-5 dark:border-gray-800 dark:bg-white/[0.03] sm:p-6">
+            <h3 className="text-lg font-semibold text-gray-800 dark:text-white/90 mb-1">
+              Glucose Profile
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              Median, interquartile (25–75%) and 5–95% ranges by time of day
+            </p>
+            <AgpPercentileChart profile={profile} />
+          </div>
+        </div>
+
+        <div className="rounded-2xl border border-gray-200 bg-white p-5 dark:border-gray-800 dark:bg-white/[0.03] sm:p-6">
+          <h3 className="text-lg font-semibold text-gray-800 dark:text-white/90 mb-4">
+            Daily Glucose Profiles
+          </h3>
+          <DailyGlucoseProfiles days={days} />
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default AgpReport;
@@ -7,18 +7,27 @@ import { EventInput, EventClickArg } from "@fullcalendar/core";
 import { Modal } from "../components/ui/modal";
 import { useModal } from "../hooks/useModal";
 import PageMeta from "../components/common/PageMeta";
-import { GlucoseReading } from "../services/googleSheets";
+import { UnifiedGlucoseReading, getSourceLabel } from "../services/glucoseData";
 import { useCalendarData } from "../hooks/useCalendarData";
+import { useUserSettings } from "../context/UserSettingsContext";
+import { useHealthEvents } from "../context/HealthEventsContext";
+import { useDexcom } from "../context/DexcomContext";
+import { HEALTH_EVENT_TYPES, describeHealthEvent } from "../services/healthEvents";
+import { formatGlucose } from "../services/glucoseUnits";
+import { DailyCompleteness, calculateDailyCompleteness, hasSufficientCoverage } from "../services/glucoseGaps";
 import { format, parseISO, isValid } from "date-fns";
+import { formatInTimeZone, getDayKey } from "../services/timezone";
 
 interface GlucoseEvent extends EventInput {
   extendedProps: {
     glucoseLevel: number;
     comment?: string;
-    dayAverage?: number;
     readingsCount: number;
+    fingerstickCount: number;
+    cgmCount: number;
+    completeness: DailyCompleteness | null; // Only for days in the loaded CGM range while Dexcom is connected
     timeRange: string;
-    readings: GlucoseReading[]; // Store all individual readings for the day
+    readings: UnifiedGlucoseReading[]; // Store all individual readings for the day
   };
 }
 
@@ -27,7 +36,10 @@ const Calendar: React.FC = () => {
   const [events, setEvents] = useState<GlucoseEvent[]>([]);
   const calendarRef = useRef<FullCalendar>(null);
   const { isOpen, openModal, closeModal } = useModal();
-  const { calendarData: glucoseData, loading, error } = useCalendarData();
+  const { calendarData: glucoseData, cgmRange, loading, error } = useCalendarData();
+  const { settings: { glucoseUnit, targetThresholds, timezone } } = useUserSettings();
+  const { events: healthEvents } = useHealthEvents();
+  const { connected: dexcomConnected } = useDexcom();
 
   useEffect(() => {
     // console.log('=== CALENDAR DEBUG ===');
@@ -43,44 +55,28 @@ const Calendar: React.FC = () => {
     
     // console.log('Processing data:', glucoseData.length, 'readings');
 
-    // Group glucose readings by date
+    // Group glucose readings by date in the user's zone
     const eventsByDate = new Map<string, {
-      readings: GlucoseReading[];
+      readings: UnifiedGlucoseReading[];
       comments: string[];
-      dayAverage?: number;
     }>();
 
-    glucoseData.forEach((reading: GlucoseReading /* , index: number */) => {
+    glucoseData.forEach((reading: UnifiedGlucoseReading /* , index: number */) => {
       // if (index < 5) console.log(`Processing reading ${index}:`, reading);
       
-      if (!reading.dateTime) {
-        // if (index < 5) console.log('Skipping reading without dateTime:', reading);
+      if (!reading.timestamp) {
+        // if (index < 5) console.log('Skipping reading without timestamp:', reading);
         return;
       }
       
-      let date: Date;
-      
-      // Handle different date formats
-      if (typeof reading.dateTime === 'string') {
-        // Try parsing as ISO string first
-        date = parseISO(reading.dateTime);
-        
-        // If that fails, try parsing as regular date
-        if (!isValid(date)) {
-          date = new Date(reading.dateTime);
-        }
-      } else {
-        date = reading.dateTime;
-      }
+      const date = parseISO(reading.timestamp);
 
       if (!isValid(date)) {
-        // if (index < 5) console.log('Invalid date for reading:', reading.dateTime);
+        // if (index < 5) console.log('Invalid date for reading:', reading.timestamp);
         return;
       }
-      
-      // if (index < 5) console.log('Parsed date:', date.toISOString(), 'from:', reading.dateTime);
 
-      const dateKey = format(date, 'yyyy-MM-dd');
+      const dateKey = getDayKey(date, timezone);
       
       if (!eventsByDate.has(dateKey)) {
         eventsByDate.set(dateKey, { readings: [], comments: [] });
@@ -92,20 +88,24 @@ const Calendar: React.FC = () => {
       if (reading.comment && reading.comment.trim()) {
         dayData.comments.push(reading.comment.trim());
       }
-      
-      if (reading.dayAverage && !dayData.dayAverage) {
-        dayData.dayAverage = reading.dayAverage;
-      }
     });
 
+    // Every day of the CGM range, so days the sensor recorded nothing show up at 0%
+    const completenessByDate = new Map(
+      dexcomConnected && cgmRange
+        ? calculateDailyCompleteness(glucoseData, timezone, cgmRange.start, cgmRange.end).map(day => [day.date, day])
+        : []
+    );
+
     // Convert to calendar events
     const calendarEvents: GlucoseEvent[] = Array.from(eventsByDate.entries()).map(([dateKey, dayData]) => {
-      const avgGlucose = dayData.dayAverage || 
-        dayData.readings.reduce((sum: number, r: GlucoseReading) => sum + r.glucoseLevel, 0) / dayData.readings.length;
+      const avgGlucose = dayData.readings.reduce((sum: number, r: UnifiedGlucoseReading) => sum + r.value, 0) / dayData.readings.length;
       
       const readingsCount = dayData.readings.length;
-      const highReadings = dayData.readings.filter((r: GlucoseReading) => r.glucoseLevel > 180).length;
-      const lowReadings = dayData.readings.filter((r: GlucoseReading) => r.glucoseLevel < 70).length;
+      const cgmCount = dayData.readings.filter((r: UnifiedGlucoseReading) => r.source === 'cgm').length;
+      const fingerstickCount = readingsCount - cgmCount;
+      const highReadings = dayData.readings.filter((r: UnifiedGlucoseReading) => r.value > targetThresholds.high).length;
+      const lowReadings = dayData.readings.filter((r: UnifiedGlucoseReading) => r.value < targetThresholds.low).length;
       
       // Determine event color based on glucose levels
       let eventColor = 'success'; // green for normal
@@ -117,15 +117,15 @@ const Calendar: React.FC = () => {
       } else if (highReadings > readingsCount * 0.3) { // >30% high readings
         eventColor = 'warning'; // yellow for high readings
         timeRange = 'High Readings';
-      } else if (avgGlucose < 70) {
+      } else if (avgGlucose < targetThresholds.low) {
         eventColor = 'danger';
         timeRange = 'Low Average';
-      } else if (avgGlucose > 180) {
+      } else if (avgGlucose > targetThresholds.high) {
         eventColor = 'warning';
         timeRange = 'High Average';
       }
 
-      const title = `${Math.round(avgGlucose)} mg/dL (${readingsCount} readings)`;
+      const title = `${formatGlucose(Math.round(avgGlucose), glucoseUnit)} (${readingsCount} readings)`;
       
       return {
         id: dateKey,
@@ -137,21 +137,44 @@ const Calendar: React.FC = () => {
         extendedProps: {
           glucoseLevel: Math.round(avgGlucose),
           comment: dayData.comments.join('; '),
-          dayAverage: dayData.dayAverage,
           readingsCount,
+          fingerstickCount,
+          cgmCount,
+          completeness: completenessByDate.get(dateKey) ?? null,
           timeRange,
-          readings: dayData.readings.sort((a, b) => new Date(a.dateTime).getTime() - new Date(b.dateTime).getTime()), // Sort readings by time
+          readings: dayData.readings.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()), // Sort readings by time
         },
       };
     });
 
+    completenessByDate.forEach((completeness, dateKey) => {
+      if (eventsByDate.has(dateKey)) return;
+      calendarEvents.push({
+        id: dateKey,
+        title: 'No readings',
+        start: dateKey,
+        allDay: true,
+        backgroundColor: getEventColor('none'),
+        borderColor: getEventColor('none'),
+        extendedProps: {
+          glucoseLevel: 0,
+          readingsCount: 0,
+          fingerstickCount: 0,
+          cgmCount: 0,
+          completeness,
+          timeRange: 'No Data',
+          readings: [],
+        },
+      });
+    });
+
     // console.log('Final grouped events by date:', eventsByDate.size);
     // console.log('Sample grouped data:', Array.from(eventsByDate.entries()).slice(0, 3));
     // console.log('Created calendar events:', calendarEvents.length);
     // console.log('Sample calendar events:', calendarEvents.slice(0, 3));
     
     setEvents(calendarEvents);
-  }, [glucoseData]);
+  }, [glucoseData, cgmRange, dexcomConnected, glucoseUnit, targetThresholds, timezone]);
 
   const getEventColor = (type: string): string => {
     switch (type) {
@@ -174,6 +197,13 @@ const Calendar: React.FC = () => {
     openModal();
   };
 
+  // Logged events for the selected day, oldest first
+  const selectedDayEvents = selectedEvent
+    ? healthEvents
+        .filter(event => getDayKey(event.timestamp, timezone) === selectedEvent.id)
+        .reverse()
+    : [];
+
   const closeModalAndReset = () => {
     setSelectedEvent(null);
     closeModal();
@@ -202,10 +232,9 @@ const Calendar: React.FC = () => {
             Please check your Google Sheets configuration:
           </p>
           <ul className="text-sm text-red-500 dark:text-red-300 mt-2 space-y-1">
-            <li>• VITE_GOOGLE_API_KEY environment variable</li>
-            <li>• VITE_SPREADSHEET_ID environment variable</li>
-            <li>• Google Sheets API is enabled</li>
-            <li>• Sheet name: '2025_all_data'</li>
+            <li>• The sheet is linked on your profile page</li>
+            <li>• The sheet is shared with "Anyone with the link can view"</li>
+            <li>• The tab name and column letters match your sheet</li>
           </ul>
         </div>
       </div>
@@ -220,10 +249,10 @@ const Calendar: React.FC = () => {
             No Glucose Data Available
           </h3>
           <p className="text-blue-600 dark:text-blue-400 mb-4">
-            No glucose readings found in your Google Sheets.
+            No glucose readings found in your Google Sheets or Dexcom history.
           </p>
           <p className="text-sm text-blue-500 dark:text-blue-300">
-            Make sure your Google Sheets contains data in the '2025_all_data' sheet with:
+            Link your Google Sheet on your profile page, or upload readings. The default sheet layout is:
           </p>
           <ul className="text-sm text-blue-500 dark:text-blue-300 mt-2 space-y-1">
             <li>• Column A: Date/Time</li>
@@ -248,7 +277,7 @@ const Calendar: React.FC = () => {
             Glucose Calendar
           </h2>
           <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-            Daily glucose averages and reading counts from your Google Sheets data
+            Daily glucose averages and reading counts from your Google Sheets and Dexcom data
           </p>
           <p className="text-xs text-blue-600 dark:text-blue-400 mt-2">
             Debug: {glucoseData?.length || 0} total readings loaded, {events.length} calendar events created
@@ -282,6 +311,7 @@ const Calendar: React.FC = () => {
             eventClick={handleEventClick}
             eventContent={renderEventContent}
             height="auto"
+            now={getDayKey(new Date(), timezone)}
             dayMaxEvents={3}
             moreLinkClick="popover"
           />
@@ -311,7 +341,9 @@ const Calendar: React.FC = () => {
                       Average Glucose
                     </h6>
                     <p className="text-2xl font-bold text-gray-800 dark:text-white">
-                      {selectedEvent.extendedProps.glucoseLevel} mg/dL
+                      {selectedEvent.extendedProps.readingsCount > 0
+                        ? formatGlucose(selectedEvent.extendedProps.glucoseLevel, glucoseUnit)
+                        : '--'}
                     </p>
                   </div>
                   
@@ -322,6 +354,19 @@ const Calendar: React.FC = () => {
                     <p className="text-2xl font-bold text-gray-800 dark:text-white">
                       {selectedEvent.extendedProps.readingsCount}
                     </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      {selectedEvent.extendedProps.fingerstickCount} fingerstick, {selectedEvent.extendedProps.cgmCount} CGM
+                    </p>
+                    {selectedEvent.extendedProps.completeness && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        CGM {selectedEvent.extendedProps.completeness.percent}% complete
+                        {selectedEvent.extendedProps.completeness.gaps.length > 0 && (
+                          `, gaps: ${selectedEvent.extendedProps.completeness.gaps
+                            .map(gap => `${formatInTimeZone(gap.start, 'h:mm a', timezone)}–${formatInTimeZone(gap.end, 'h:mm a', timezone)}`)
+                            .join(', ')}`
+                        )}
+                      </p>
+                    )}
                   </div>
                 </div>
 
@@ -331,6 +376,7 @@ const Calendar: React.FC = () => {
                   </h6>
                   <p className={`text-sm font-medium ${
                     selectedEvent.extendedProps.timeRange === 'Normal' ? 'text-green-600' :
+                    selectedEvent.extendedProps.timeRange === 'No Data' ? 'text-gray-500' :
                     selectedEvent.extendedProps.timeRange.includes('Low') ? 'text-red-600' :
                     'text-orange-600'
                   }`}>
@@ -338,17 +384,6 @@ const Calendar: React.FC = () => {
                   </p>
                 </div>
 
-                {selectedEvent.extendedProps.dayAverage && (
-                  <div className="bg-gray-50 dark:bg-gray-800/50 rounded-lg p-4">
-                    <h6 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                      Day Average (from sheet)
-                    </h6>
-                    <p className="text-lg font-semibold text-gray-800 dark:text-white">
-                      {Math.round(selectedEvent.extendedProps.dayAverage)} mg/dL
-                    </p>
-                  </div>
-                )}
-
                 {/* All Individual Readings */}
                 <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700">
                   <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700">
@@ -366,6 +401,9 @@ const Calendar: React.FC = () => {
                           <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                             Glucose
                           </th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                            Source
+                          </th>
                           <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                             Comment
                           </th>
@@ -373,23 +411,26 @@ const Calendar: React.FC = () => {
                       </thead>
                       <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
                         {selectedEvent.extendedProps.readings.map((reading, index) => {
-                          const readingTime = new Date(reading.dateTime);
-                          const glucoseValue = reading.glucoseLevel;
+                          const readingTime = new Date(reading.timestamp);
+                          const glucoseValue = reading.value;
                           let glucoseColor = 'text-green-600 dark:text-green-400';
                           
-                          if (glucoseValue < 70) {
+                          if (glucoseValue < targetThresholds.low) {
                             glucoseColor = 'text-red-600 dark:text-red-400';
-                          } else if (glucoseValue > 180) {
+                          } else if (glucoseValue > targetThresholds.high) {
                             glucoseColor = 'text-orange-600 dark:text-orange-400';
                           }
                           
                           return (
                             <tr key={index} className="hover:bg-gray-50 dark:hover:bg-gray-800/30">
                               <td className="px-4 py-2 text-sm text-gray-900 dark:text-gray-100">
-                                {format(readingTime, 'h:mm a')}
+                                {formatInTimeZone(readingTime, 'h:mm a', timezone)}
                               </td>
                               <td className={`px-4 py-2 text-sm font-semibold ${glucoseColor}`}>
-                                {glucoseValue} mg/dL
+                                {formatGlucose(glucoseValue, glucoseUnit)}
+                              </td>
+                              <td className="px-4 py-2 text-sm text-gray-600 dark:text-gray-400">
+                                {getSourceLabel(reading.source)}
                               </td>
                               <td className="px-4 py-2 text-sm text-gray-600 dark:text-gray-400">
                                 {reading.comment || '-'}
@@ -402,6 +443,40 @@ const Calendar: React.FC = () => {
                   </div>
                 </div>
 
+                {selectedDayEvents.length > 0 && (
+                  <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700">
+                    <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+                      <h6 className="text-lg font-semibold text-gray-800 dark:text-white">
+                        Events ({selectedDayEvents.length})
+                      </h6>
+                    </div>
+                    <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {selectedDayEvents.map(event => (
+                        <li key={event.id} className="flex items-start gap-3 px-4 py-2 text-sm">
+                          <span className="w-16 shrink-0 text-gray-900 dark:text-gray-100">
+                            {formatInTimeZone(event.timestamp, 'h:mm a', timezone)}
+                          </span>
+                          <span
+                            className="shrink-0 rounded-full px-2 py-0.5 text-xs font-medium text-white"
+                            style={{ backgroundColor: HEALTH_EVENT_TYPES[event.type].color }}
+                          >
+                            {HEALTH_EVENT_TYPES[event.type].label}
+                          </span>
+                          <span className="text-gray-600 dark:text-gray-400">
+                            {describeHealthEvent(event)}
+                            {event.type !== 'note' && event.note && ` — ${event.note}`}
+                          </span>
+                          {event.source === 'dexcom' && (
+                            <span className="ml-auto shrink-0 text-xs text-gray-400 dark:text-gray-500">
+                              Dexcom
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {selectedEvent.extendedProps.comment && (
                   <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-4">
                     <h6 className="text-sm font-medium text-blue-700 dark:text-blue-300 mb-2">
@@ -432,11 +507,24 @@ const Calendar: React.FC = () => {
 };
 
 const renderEventContent = (eventInfo: any) => {
+  const completeness: DailyCompleteness | null = eventInfo.event.extendedProps.completeness;
   return (
     <div className="fc-event-main p-1">
       <div className="fc-event-title text-xs font-medium truncate">
         {eventInfo.event.title}
       </div>
+      {completeness && (
+        <span
+          className={`mt-0.5 inline-block rounded px-1 text-[10px] font-medium ${
+            hasSufficientCoverage(completeness.percent)
+              ? 'bg-white/20 text-white'
+              : 'bg-white text-gray-800'
+          }`}
+          title={`CGM data ${completeness.percent}% complete`}
+        >
+          CGM {completeness.percent}%
+        </span>
+      )}
     </div>
   );
 };
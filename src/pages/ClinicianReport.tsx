@@ -0,0 +1,332 @@
+import { useState, useEffect, useMemo } from "react";
+import { useSearchParams } from "react-router";
+import Chart from "react-apexcharts";
+import { ApexOptions } from "apexcharts";
+import { format, parseISO, isValid, differenceInCalendarDays, subDays } from "date-fns";
+import PageMeta from "../components/common/PageMeta";
+import { useAuth } from "../context/AuthContext";
+import { useGlucose } from "../context/GlucoseContext";
+import { useUserSettings } from "../context/UserSettingsContext";
+import { GoogleSheetsService } from "../services/googleSheets";
+import { DexcomService } from "../services/dexcom";
+import { GlucoseReadingSource, UnifiedGlucoseReading, getSourceLabel } from "../services/glucoseData";
+import {
+  ConsensusMetrics,
+  GlucoseRangeBand,
+  calculateConsensusMetrics,
+  calculateDailySummaries,
+  getRangeBandLabel,
+} from "../services/glucoseStats";
+import { convertGlucose, formatGlucose, formatHbA1c } from "../services/glucoseUnits";
+import { MIN_COMPLETENESS_PERCENT, findGlucoseGaps, getGapAnnotations, hasSufficientCoverage } from "../services/glucoseGaps";
+import { formatInTimeZone, getDayBounds, getDayKey } from "../services/timezone";
+
+const RANGE_ROWS: { band: GlucoseRangeBand; name: string }[] = [
+  { band: 'veryHigh', name: 'Very High' },
+  { band: 'high', name: 'High' },
+  { band: 'inRange', name: 'Target Range' },
+  { band: 'low', name: 'Low' },
+  { band: 'veryLow', name: 'Very Low' },
+];
+
+// Parse the yyyy-MM-dd query parameters as days in the user's zone, falling back to the last 14 days
+const parseReportRange = (
+  start: string | null,
+  end: string | null,
+  timeZone: string
+): { startDate: Date; endDate: Date } => {
+  const parsedEnd = end ? parseISO(end) : null;
+  const endKey = parsedEnd && isValid(parsedEnd) ? end! : getDayKey(new Date(), timeZone);
+  const defaultStartKey = format(subDays(parseISO(endKey), 13), 'yyyy-MM-dd');
+  const parsedStart = start ? parseISO(start) : null;
+  const startKey = parsedStart && isValid(parsedStart) && start! <= endKey ? start! : defaultStartKey;
+  return {
+    startDate: getDayBounds(startKey, timeZone).start,
+    endDate: new Date(getDayBounds(endKey, timeZone).end.getTime() - 1),
+  };
+};
+
+const ClinicianReport: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const source: GlucoseReadingSource = searchParams.get('source') === 'cgm' ? 'cgm' : 'fingerstick';
+  const startParam = searchParams.get('start');
+  const endParam = searchParams.get('end');
+  const { settings: { displayName, glucoseUnit, targetThresholds, timezone } } = useUserSettings();
+  const { startDate, endDate } = useMemo(
+    () => parseReportRange(startParam, endParam, timezone),
+    [startParam, endParam, timezone]
+  );
+
+  const { user } = useAuth();
+  const { glucoseData, loading: sheetsLoading, error: sheetsError } = useGlucose();
+  const show = (valueMgdl: number) => formatGlucose(valueMgdl, glucoseUnit, false);
+
+  const [cgmReadings, setCgmReadings] = useState<UnifiedGlucoseReading[]>([]);
+  const [cgmMetrics, setCgmMetrics] = useState<ConsensusMetrics | null>(null);
+  const [cgmLoading, setCgmLoading] = useState(source === 'cgm');
+  const [cgmError, setCgmError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (source !== 'cgm' || !user) return;
+
+    const dexcomService = DexcomService.getInstance();
+    const days = differenceInCalendarDays(endDate, startDate) + 1;
+    setCgmLoading(true);
+
+    dexcomService.getGlucoseDataForDateRange(startDate, endDate, days * 288)
+      .then(data => {
+        setCgmReadings(dexcomService.toUnifiedReadings(data));
+        setCgmMetrics(dexcomService.calculateStats(data, targetThresholds).metrics);
+        setCgmError(null);
+      })
+      .catch(err => {
+        console.error('Error loading report data:', err);
+        setCgmError(err instanceof Error ? err.message : 'Failed to load glucose data');
+      })
+      .finally(() => setCgmLoading(false));
+  }, [source, user, startDate, endDate, targetThresholds]);
+
+  // Fingerstick data comes from the already loaded sheet rows
+  const fingerstickReport = useMemo(() => {
+    const googleSheetsService = GoogleSheetsService.getInstance();
+    const inRange = glucoseData.filter(reading => {
+      const date = new Date(reading.dateTime);
+      return date >= startDate && date <= endDate;
+    });
+    return {
+      readings: googleSheetsService.toUnifiedReadings(inRange),
+      metrics: googleSheetsService.calculateStats(inRange, targetThresholds).metrics,
+    };
+  }, [glucoseData, startDate, endDate, targetThresholds]);
+
+  const readings = source === 'cgm' ? cgmReadings : fingerstickReport.readings;
+  const metrics = source === 'cgm' ? (cgmMetrics ?? calculateConsensusMetrics([], targetThresholds)) : fingerstickReport.metrics;
+  const loading = source === 'cgm' ? cgmLoading : sheetsLoading;
+  const error = source === 'cgm' ? cgmError : sheetsError;
+
+  const dailySummaries = useMemo(() => calculateDailySummaries(readings, timezone, targetThresholds), [readings, timezone, targetThresholds]);
+
+  // Fingersticks are taken on demand, so only CGM reports show gaps
+  const gaps = useMemo(
+    () => source === 'cgm'
+      ? findGlucoseGaps(readings, startDate, new Date(Math.min(endDate.getTime(), Date.now())))
+      : [],
+    [source, readings, startDate, endDate]
+  );
+
+  const chartOptions: ApexOptions = {
+    chart: {
+      fontFamily: "Outfit, sans-serif",
+      type: 'line',
+      height: 280,
+      toolbar: { show: false },
+      zoom: { enabled: false },
+      animations: { enabled: false }
+    },
+    colors: ["#465fff"],
+    stroke: {
+      curve: 'smooth',
+      width: source === 'cgm' ? 1.5 : 2
+    },
+    markers: {
+      size: source === 'cgm' ? 0 : 3
+    },
+    xaxis: {
+      type: 'datetime',
+      min: startDate.getTime(),
+      max: endDate.getTime(),
+      labels: {
+        formatter: (_value: string, timestamp?: number) =>
+          timestamp === undefined ? '' : formatInTimeZone(timestamp, 'MMM d', timezone)
+      }
+    },
+    yaxis: {
+      title: { text: `Blood Glucose (${glucoseUnit})` },
+      min: convertGlucose(40, glucoseUnit)
+    },
+    tooltip: { enabled: false },
+    legend: { show: false },
+    annotations: {
+      yaxis: [
+        { y: convertGlucose(targetThresholds.low, glucoseUnit), borderColor: '#EF4444' },
+        { y: convertGlucose(targetThresholds.high, glucoseUnit), borderColor: '#F59E0B' }
+      ],
+      xaxis: getGapAnnotations(gaps)
+    }
+  };
+
+  const chartSeries = [
+    {
+      name: `Blood Glucose (${glucoseUnit})`,
+      data: readings.map(reading => ({ x: new Date(reading.timestamp).getTime(), y: convertGlucose(reading.value, glucoseUnit) }))
+    }
+  ];
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-white">
+        <div className="inline-block animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <PageMeta
+        title="Clinician Report | Glucose Dashboard"
+        description="Print-ready glucose report for clinic appointments"
+      />
+      <div className="print-report mx-auto max-w-[960px] bg-white p-8 text-gray-900 print:max-w-none print:p-0">
+        <div className="flex justify-end gap-3 mb-6 print:hidden">
+          <button
+            type="button"
+            onClick={() => window.close()}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            Close
+          </button>
+          <button
+            type="button"
+            onClick={() => window.print()}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700"
+          >
+            Print / Save as PDF
+          </button>
+        </div>
+
+        {/* Report header */}
+        <header className="flex items-start justify-between pb-4 mb-6 border-b-2 border-gray-800">
+          <div>
+            <h1 className="text-2xl font-bold">Glucose Report</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              {getSourceLabel(source)} readings · {formatInTimeZone(startDate, 'MMM d, yyyy', timezone)} – {formatInTimeZone(endDate, 'MMM d, yyyy', timezone)}
+            </p>
+          </div>
+          <div className="text-right text-sm text-gray-600">
+            <p className="font-semibold text-gray-900">{displayName || user?.name}</p>
+            <p>{user?.email}</p>
+            <p>Generated {formatInTimeZone(new Date(), 'MMM d, yyyy h:mm a zzz', timezone)}</p>
+          </div>
+        </header>
+
+        {error && (
+          <p className="mb-6 text-sm text-red-600">Error loading glucose data: {error}</p>
+        )}
+
+        {/* Summary statistics */}
+        <section className="mb-8 break-inside-avoid">
+          <h2 className="text-lg font-semibold mb-3">Summary</h2>
+          <div className="grid grid-cols-4 gap-4 text-sm">
+            <div className="border border-gray-300 rounded p-3">
+              <p className="text-gray-500">Mean glucose</p>
+              <p className="text-xl font-bold">{metrics.count > 0 ? formatGlucose(metrics.mean, glucoseUnit) : '--'}</p>
+            </div>
+            <div className="border border-gray-300 rounded p-3">
+              <p className="text-gray-500">GMI / Est. HbA1c</p>
+              <p className="text-xl font-bold">{metrics.count > 0 ? `${metrics.gmi}% / ${formatHbA1c(metrics.estimatedHbA1c, glucoseUnit)}` : '--'}</p>
+            </div>
+            <div className="border border-gray-300 rounded p-3">
+              <p className="text-gray-500">CV / SD</p>
+              <p className="text-xl font-bold">{metrics.count > 0 ? `${metrics.coefficientOfVariation}% / ${show(metrics.standardDeviation)}` : '--'}</p>
+            </div>
+            <div className="border border-gray-300 rounded p-3">
+              <p className="text-gray-500">Readings (min–max)</p>
+              <p className="text-xl font-bold">{metrics.count} {metrics.count > 0 && <span className="text-sm font-normal">({show(metrics.min)}–{show(metrics.max)})</span>}</p>
+            </div>
+          </div>
+
+          <table className="w-full mt-4 text-sm border-collapse">
+            <thead>
+              <tr className="border-b border-gray-300 text-left">
+                <th className="py-1">Range</th>
+                <th className="py-1">Limits</th>
+                <th className="py-1 text-right">Readings</th>
+                <th className="py-1 text-right">% of readings</th>
+              </tr>
+            </thead>
+            <tbody>
+              {RANGE_ROWS.map(({ band, name }) => (
+                <tr key={band} className="border-b border-gray-200">
+                  <td className="py-1">{name}</td>
+                  <td className="py-1">{getRangeBandLabel(band, targetThresholds, glucoseUnit)}</td>
+                  <td className="py-1 text-right">{metrics.rangeCounts[band]}</td>
+                  <td className="py-1 text-right">{metrics.rangePercentages[band]}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {metrics.cgmActivePercent !== null && (
+            <p className={`mt-2 text-xs ${hasSufficientCoverage(metrics.cgmActivePercent) ? 'text-gray-500' : 'text-yellow-700 font-medium'}`}>
+              CGM active {metrics.cgmActivePercent}% of the period
+              {!hasSufficientCoverage(metrics.cgmActivePercent) && ` (below the ${MIN_COMPLETENESS_PERCENT}% needed for reliable metrics)`}
+            </p>
+          )}
+        </section>
+
+        {/* Trend chart */}
+        <section className="mb-8 break-inside-avoid">
+          <h2 className="text-lg font-semibold mb-3">Glucose Trend</h2>
+          {readings.length > 0 ? (
+            <Chart options={chartOptions} series={chartSeries} type="line" height={280} />
+          ) : (
+            <p className="text-sm text-gray-500">No readings in the selected range.</p>
+          )}
+        </section>
+
+        {/* Daily averages */}
+        <section className="mb-8">
+          <h2 className="text-lg font-semibold mb-3">Daily Averages</h2>
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr className="border-b border-gray-300 text-left">
+                <th className="py-1">Date</th>
+                <th className="py-1 text-right">Readings</th>
+                <th className="py-1 text-right">Average</th>
+                <th className="py-1 text-right">Min</th>
+                <th className="py-1 text-right">Max</th>
+                <th className="py-1 text-right">In range</th>
+              </tr>
+            </thead>
+            <tbody>
+              {dailySummaries.map(day => (
+                <tr key={day.date} className="border-b border-gray-200 break-inside-avoid">
+                  <td className="py-1">{format(parseISO(day.date), 'EEE MMM d, yyyy')}</td>
+                  <td className="py-1 text-right">{day.count}</td>
+                  <td className="py-1 text-right">{formatGlucose(day.average, glucoseUnit)}</td>
+                  <td className="py-1 text-right">{show(day.min)}</td>
+                  <td className="py-1 text-right">{show(day.max)}</td>
+                  <td className="py-1 text-right">{day.timeInRange}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        {/* Readings */}
+        <section className="print:break-before-page">
+          <h2 className="text-lg font-semibold mb-3">Readings</h2>
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr className="border-b border-gray-300 text-left">
+                <th className="py-1">Date &amp; Time</th>
+                <th className="py-1 text-right">Glucose</th>
+                <th className="py-1 pl-6">{source === 'cgm' ? 'Trend' : 'Comment'}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {readings.map(reading => (
+                <tr key={reading.id} className="border-b border-gray-200 break-inside-avoid">
+                  <td className="py-1">{formatInTimeZone(reading.timestamp, 'MMM d, yyyy h:mm a', timezone)}</td>
+                  <td className="py-1 text-right">{formatGlucose(reading.value, glucoseUnit)}</td>
+                  <td className="py-1 pl-6 text-gray-600">{(source === 'cgm' ? reading.trend : reading.comment) || '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      </div>
+    </>
+  );
+};
+
+export default ClinicianReport;
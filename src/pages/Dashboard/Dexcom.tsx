@@ -1,9 +1,18 @@
 import React from 'react';
 import { useDexcom } from '../../context/DexcomContext';
 import { DexcomService } from '../../services/dexcom';
+import { useUserSettings } from '../../context/UserSettingsContext';
+import { convertGlucose, formatGlucose, formatHbA1c } from '../../services/glucoseUnits';
+import { getRangeBandLabel } from '../../services/glucoseStats';
+import { findGlucoseGaps, getGapAnnotations } from '../../services/glucoseGaps';
 import Chart from "react-apexcharts";
 import { ApexOptions } from "apexcharts";
 import { formatDistanceToNow } from 'date-fns';
+import CombinedGlucoseChart from '../../components/dashboard/CombinedGlucoseChart';
+import ConsensusMetricsPanel from '../../components/dashboard/ConsensusMetricsPanel';
+import ExportReportButton from '../../components/report/ExportReportButton';
+import ExportDataButton from '../../components/export/ExportDataButton';
+import ClarityImportButton from '../../components/import/ClarityImportButton';
 
 const Dexcom: React.FC = () => {
   const {
@@ -13,6 +22,7 @@ const Dexcom: React.FC = () => {
     error,
     connected,
     connectionLoading,
+    backfill,
     timeRange,
     setTimeRange,
     refreshData,
@@ -20,6 +30,7 @@ const Dexcom: React.FC = () => {
     disconnectFromDexcom,
   } = useDexcom();
 
+  const { settings: { glucoseUnit, targetThresholds, timezone } } = useUserSettings();
   const dexcomService = DexcomService.getInstance();
 
   const handleConnect = async () => {
@@ -75,12 +86,19 @@ const Dexcom: React.FC = () => {
 
   // Prepare chart data for Dexcom readings
   const chartData = glucoseData.map(reading => ({
-    x: new Date(reading.displayTime).getTime(),
-    y: reading.value,
+    x: new Date(reading.systemTime).getTime(),
+    y: convertGlucose(reading.value, glucoseUnit),
+    mgdl: reading.value,
     trend: reading.trend,
     trendArrow: dexcomService.getTrendArrow(reading.trend),
   }));
 
+  // Missing data at the start or end of the selected range is shaded as well
+  const now = new Date();
+  const gaps = connected
+    ? findGlucoseGaps(dexcomService.toUnifiedReadings(glucoseData), dexcomService.getTimeRangeStart(timeRange, now) ?? undefined, now)
+    : [];
+
   const chartOptions: ApexOptions = {
     chart: {
       fontFamily: "Outfit, sans-serif",
@@ -111,15 +129,16 @@ const Dexcom: React.FC = () => {
           return new Date(Number(val)).toLocaleTimeString([], { 
             hour: 'numeric', 
             minute: '2-digit',
-            hour12: true 
+            hour12: true,
+            timeZone: timezone
           });
         }
       }
     },
     yaxis: {
-      title: { text: 'Blood Glucose (mg/dL)' },
-      min: 50,
-      max: 400
+      title: { text: `Blood Glucose (${glucoseUnit})` },
+      min: convertGlucose(50, glucoseUnit),
+      max: convertGlucose(400, glucoseUnit)
     },
     tooltip: {
       custom: function({ series, seriesIndex, dataPointIndex, w }) {
@@ -128,6 +147,7 @@ const Dexcom: React.FC = () => {
         const timestamp = dataPoint.x;
         const trend = dataPoint.trend;
         const trendArrow = dataPoint.trendArrow;
+        const glucoseColor = dexcomService.getGlucoseColor(dataPoint.mgdl, targetThresholds);
         
         const dateStr = new Date(timestamp).toLocaleString([], { 
           year: 'numeric', 
@@ -135,12 +155,13 @@ const Dexcom: React.FC = () => {
           day: 'numeric', 
           hour: 'numeric', 
           minute: '2-digit', 
-          hour12: true 
+          hour12: true,
+          timeZone: timezone
         });
         
         return `<div class="apexcharts-tooltip-title" style="padding: 6px 10px;">${dateStr}</div>
                 <div class="apexcharts-tooltip-series-group" style="padding: 6px 10px;display:block;">
-                  Glucose: &nbsp;<strong style="color: ${dexcomService.getGlucoseColor(val).includes('red') ? '#DC2626' : dexcomService.getGlucoseColor(val).includes('yellow') ? '#D97706' : '#059669'}">${val} mg/dL</strong><br/>
+                  Glucose: &nbsp;<strong style="color: ${glucoseColor.includes('red') ? '#DC2626' : glucoseColor.includes('yellow') ? '#D97706' : '#059669'}">${val} ${glucoseUnit}</strong><br/>
                   Trend: &nbsp;<strong>${trendArrow} ${trend}</strong>
                 </div>`;
       }
@@ -152,22 +173,23 @@ const Dexcom: React.FC = () => {
     annotations: {
       yaxis: [
         {
-          y: 70,
+          y: convertGlucose(targetThresholds.low, glucoseUnit),
           borderColor: '#EF4444',
           label: {
-            text: 'Low (70)',
+            text: `Low (${formatGlucose(targetThresholds.low, glucoseUnit, false)})`,
             style: { color: '#EF4444', background: '#FEE2E2' }
           }
         },
         {
-          y: 180,
+          y: convertGlucose(targetThresholds.high, glucoseUnit),
           borderColor: '#F59E0B', 
           label: {
-            text: 'High (180)',
+            text: `High (${formatGlucose(targetThresholds.high, glucoseUnit, false)})`,
             style: { color: '#F59E0B', background: '#FEF3C7' }
           }
         }
-      ]
+      ],
+      xaxis: getGapAnnotations(gaps)
     }
   };
 
@@ -261,6 +283,10 @@ const Dexcom: React.FC = () => {
         </div>
         
         <div className="flex items-center space-x-2">
+          <ExportReportButton source="cgm" />
+          <ExportDataButton />
+          <ClarityImportButton onImported={refreshData} />
+
           <button
             onClick={handleRefresh}
             disabled={loading}
@@ -311,6 +337,36 @@ const Dexcom: React.FC = () => {
         </div>
       </div>
 
+      {backfill && backfill.status !== 'completed' && (
+        <div className={`mb-6 p-4 border rounded-lg ${
+          backfill.status === 'failed'
+            ? 'bg-red-100 dark:bg-red-900 border-red-400 text-red-700 dark:text-red-300'
+            : 'bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800 text-blue-700 dark:text-blue-300'
+        }`}>
+          {backfill.status === 'failed' ? (
+            <span>{backfill.error || 'Importing your Dexcom history failed.'}</span>
+          ) : (
+            <>
+              <div className="flex items-center justify-between text-sm">
+                <span>
+                  {backfill.historyDays
+                    ? `Importing ${backfill.historyDays} days… ${backfill.percent}%`
+                    : 'Preparing to import your Dexcom history…'}
+                  {backfill.status === 'paused' && ' (paused, will resume shortly)'}
+                </span>
+                <span className="text-xs">{backfill.readingsImported.toLocaleString()} readings</span>
+              </div>
+              <div className="mt-2 h-2 w-full rounded-full bg-blue-100 dark:bg-blue-900">
+                <div
+                  className="h-2 rounded-full bg-blue-600 transition-all duration-500"
+                  style={{ width: `${backfill.percent}%` }}
+                />
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
       {error && (
         <div className="mb-6 p-4 bg-red-100 dark:bg-red-900 border border-red-400 text-red-700 dark:text-red-300 rounded-lg">
           <div className="flex items-center justify-between">
@@ -365,13 +421,13 @@ const Dexcom: React.FC = () => {
               </h3>
               {stats.lastReading ? (
                 <div className="space-y-2">
-                  <div className={`text-2xl font-bold ${dexcomService.getGlucoseColor(stats.lastReading.value)}`}>
-                    {dexcomService.formatGlucoseValue(stats.lastReading.value)}
+                  <div className={`text-2xl font-bold ${dexcomService.getGlucoseColor(stats.lastReading.value, targetThresholds)}`}>
+                    {dexcomService.formatGlucoseValue(stats.lastReading.value, glucoseUnit)}
                   </div>
                   <div className="flex items-center space-x-2">
                     <span className="text-lg">{dexcomService.getTrendArrow(stats.lastReading.trend)}</span>
                     <span className="text-sm text-gray-600 dark:text-gray-400">
-                      {formatDistanceToNow(new Date(stats.lastReading.displayTime), { addSuffix: true })}
+                      {formatDistanceToNow(new Date(stats.lastReading.systemTime), { addSuffix: true })}
                     </span>
                   </div>
                 </div>
@@ -385,8 +441,8 @@ const Dexcom: React.FC = () => {
               <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">
                 Average Glucose
               </h3>
-              <div className={`text-2xl font-bold ${dexcomService.getGlucoseColor(stats.average)}`}>
-                {dexcomService.formatGlucoseValue(stats.average)}
+              <div className={`text-2xl font-bold ${dexcomService.getGlucoseColor(stats.average, targetThresholds)}`}>
+                {dexcomService.formatGlucoseValue(stats.average, glucoseUnit)}
               </div>
               <div className="text-sm text-gray-600 dark:text-gray-400 mt-1">
                 {stats.readingsCount} readings
@@ -402,7 +458,7 @@ const Dexcom: React.FC = () => {
                 {stats.timeInRange}%
               </div>
               <div className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-                70-180 mg/dL
+                {getRangeBandLabel('inRange', targetThresholds, glucoseUnit)}
               </div>
             </div>
 
@@ -412,7 +468,7 @@ const Dexcom: React.FC = () => {
                 Estimated HbA1c
               </h3>
               <div className="text-2xl font-bold text-purple-600">
-                {stats.estimatedHbA1c}%
+                {formatHbA1c(stats.estimatedHbA1c, glucoseUnit)}
               </div>
               <div className="text-sm text-gray-600 dark:text-gray-400 mt-1">
                 Estimated
@@ -420,6 +476,14 @@ const Dexcom: React.FC = () => {
             </div>
           </div>
 
+          {/* Consensus Metrics */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-8">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+              Time in Ranges &amp; Variability
+            </h2>
+            <ConsensusMetricsPanel metrics={stats.metrics} />
+          </div>
+
           {/* Glucose Chart */}
           {chartData.length > 0 ? (
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
@@ -456,6 +520,11 @@ const Dexcom: React.FC = () => {
               </button>
             </div>
           )}
+
+          {/* Fingerstick readings alongside CGM */}
+          <div className="mt-8">
+            <CombinedGlucoseChart />
+          </div>
         </>
       )}
     </div>
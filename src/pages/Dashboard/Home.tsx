@@ -1,10 +1,16 @@
 import GlucoseMetrics from "../../components/dashboard/GlucoseMetrics";
 import GlucoseTrendChart from "../../components/dashboard/GlucoseTrendChart";
 import GlucoseScatterChart from "../../components/dashboard/GlucoseScatterChart";
+import CombinedGlucoseChart from "../../components/dashboard/CombinedGlucoseChart";
 // import GlucoseTargets from "../../components/dashboard/GlucoseTargets";
 import RecentReadings from "../../components/dashboard/RecentReadings";
 import GlucoseInsights from "../../components/dashboard/GlucoseInsights";
 import PageMeta from "../../components/common/PageMeta";
+import ExportReportButton from "../../components/report/ExportReportButton";
+import ExportDataButton from "../../components/export/ExportDataButton";
+import CsvUploadButton from "../../components/import/CsvUploadButton";
+import LogReadingButton from "../../components/dashboard/LogReadingButton";
+import LogEventButton from "../../components/events/LogEventButton";
 import { useGlucose } from "../../context/GlucoseContext";
 
 export default function Home() {
@@ -21,7 +27,7 @@ export default function Home() {
           <GlucoseMetrics />
 
           <div className="col-span-12 space-y-6 xl:col-span-12" >
-            <div className="flex justify-center">
+            <div className="flex flex-wrap items-center justify-center gap-3">
               <div className="inline-flex p-1" role="group">
                 <button
                   type="button"
@@ -64,9 +70,15 @@ export default function Home() {
                   Last 3 Months
                 </button>
               </div>
+              <LogReadingButton />
+              <LogEventButton />
+              <ExportReportButton source="fingerstick" />
+              <ExportDataButton />
+              <CsvUploadButton />
             </div>
           </div>
           <GlucoseTrendChart />
+          <CombinedGlucoseChart />
           <GlucoseScatterChart />
         </div>
 
@@ -0,0 +1,205 @@
+import { useState } from "react";
+import PageMeta from "../components/common/PageMeta";
+import PageBreadcrumb from "../components/common/PageBreadCrumb";
+import ComponentCard from "../components/common/ComponentCard";
+import Label from "../components/form/Label";
+import Input from "../components/form/input/InputField";
+import Select from "../components/form/Select";
+import Radio from "../components/form/input/Radio";
+import Checkbox from "../components/form/input/Checkbox";
+import Button from "../components/ui/button/Button";
+import TargetRangeSettings from "../components/settings/TargetRangeSettings";
+import SheetConfigSettings from "../components/settings/SheetConfigSettings";
+import { useAuth } from "../context/AuthContext";
+import { useUserSettings } from "../context/UserSettingsContext";
+import { GLUCOSE_UNITS, GlucoseUnit } from "../services/glucoseUnits";
+import {
+  DASHBOARD_TIME_RANGES,
+  DashboardTimeRange,
+  NotificationPreferences,
+  BROWSER_TIMEZONE,
+  UserSettings,
+  getSupportedTimezones,
+} from "../services/userSettings";
+
+type ProfileFormValues = Omit<UserSettings, 'targetThresholds'>;
+
+const NOTIFICATION_OPTIONS: { field: keyof NotificationPreferences; label: string }[] = [
+  { field: 'lowGlucose', label: 'Low glucose readings' },
+  { field: 'highGlucose', label: 'High glucose readings' },
+  { field: 'syncFailures', label: 'Dexcom sync failures' },
+  { field: 'weeklySummary', label: 'Weekly summary' },
+];
+
+const timezoneOptions = getSupportedTimezones().map(zone => ({ value: zone, label: zone.replace(/_/g, ' ') }));
+
+// Only fields edited here are saved, so a unit or zone changed elsewhere since the form
+// was opened is shown and kept rather than overwritten
+function ProfileForm({ savedValues }: { savedValues: ProfileFormValues }) {
+  const { user } = useAuth();
+  const { updateSettings } = useUserSettings();
+  const [edits, setEdits] = useState<Partial<ProfileFormValues>>({});
+  const values: ProfileFormValues = { ...savedValues, ...edits };
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = <K extends keyof ProfileFormValues>(field: K, value: ProfileFormValues[K]) => {
+    setEdits(current => ({ ...current, [field]: value }));
+    setMessage(null);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setSaving(true);
+      setError(null);
+      await updateSettings({
+        ...edits,
+        ...(edits.displayName !== undefined && { displayName: edits.displayName.trim() }),
+      });
+      setEdits({});
+      setMessage('Settings saved.');
+    } catch (err) {
+      console.error('Error saving profile:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <ComponentCard title="Profile">
+        <div className="grid grid-cols-1 gap-5 sm:grid-cols-2">
+          <div>
+            <Label htmlFor="profile-display-name">Display name</Label>
+            <Input
+              id="profile-display-name"
+              value={values.displayName}
+              placeholder={user?.name}
+              onChange={(e) => update('displayName', e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="profile-email">Email</Label>
+            <Input id="profile-email" value={user?.email ?? ''} disabled />
+          </div>
+        </div>
+      </ComponentCard>
+
+      <ComponentCard title="Display" desc="How readings and dates are shown across the dashboards">
+        <div>
+          <Label>Glucose units</Label>
+          <div className="flex gap-6">
+            {GLUCOSE_UNITS.map(unit => (
+              <Radio
+                key={unit}
+                id={`profile-unit-${unit}`}
+                name="profile-unit"
+                value={unit}
+                checked={values.glucoseUnit === unit}
+                label={unit}
+                onChange={(value) => update('glucoseUnit', value as GlucoseUnit)}
+              />
+            ))}
+          </div>
+        </div>
+        <div className="grid grid-cols-1 gap-5 sm:grid-cols-2">
+          <div>
+            <Label htmlFor="profile-time-range">Default time range</Label>
+            <Select
+              id="profile-time-range"
+              options={DASHBOARD_TIME_RANGES}
+              value={values.defaultTimeRange}
+              onChange={(value) => update('defaultTimeRange', value as DashboardTimeRange)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="profile-timezone">Time zone</Label>
+            <Select
+              id="profile-timezone"
+              options={timezoneOptions}
+              value={values.timezone}
+              onChange={(value) => update('timezone', value)}
+            />
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              Calendar days and daily averages follow this zone.
+              {values.timezone !== BROWSER_TIMEZONE && (
+                <>
+                  {' '}This device is set to {BROWSER_TIMEZONE.replace(/_/g, ' ')}.{' '}
+                  <button
+                    type="button"
+                    onClick={() => update('timezone', BROWSER_TIMEZONE)}
+                    className="font-medium text-blue-600 hover:underline dark:text-blue-400"
+                  >
+                    Use it
+                  </button>
+                </>
+              )}
+            </p>
+          </div>
+        </div>
+      </ComponentCard>
+
+      <ComponentCard title="Notifications">
+        <div className="space-y-4">
+          {NOTIFICATION_OPTIONS.map(({ field, label }) => (
+            <Checkbox
+              key={field}
+              id={`profile-notify-${field}`}
+              label={label}
+              checked={values.notifications[field]}
+              onChange={(checked) => update('notifications', { ...values.notifications, [field]: checked })}
+            />
+          ))}
+        </div>
+      </ComponentCard>
+
+      <div className="flex items-center justify-end gap-4">
+        {message && <p className="text-sm text-green-600 dark:text-green-400">{message}</p>}
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        <Button size="sm" disabled={saving}>
+          {saving ? 'Saving...' : 'Save changes'}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export default function Profile() {
+  const { settings, loading } = useUserSettings();
+  // Targets are saved separately so a stale form never overwrites them
+  const formValues: ProfileFormValues = {
+    displayName: settings.displayName,
+    glucoseUnit: settings.glucoseUnit,
+    timezone: settings.timezone,
+    defaultTimeRange: settings.defaultTimeRange,
+    notifications: settings.notifications,
+  };
+
+  return (
+    <>
+      <PageMeta title="Profile & Settings" description="Manage your profile, display preferences and data sources" />
+      <PageBreadcrumb pageTitle="Profile & Settings" />
+
+      {loading ? (
+        <div className="rounded-2xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-white/[0.03] p-6">
+          <div className="animate-pulse h-64 bg-gray-200 rounded dark:bg-gray-700"></div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <ProfileForm savedValues={formValues} />
+          <ComponentCard title="Target range" desc="Thresholds used for time in range, chart bands and reading colours">
+            {/* Remount when the unit changes so the inputs show the new unit */}
+            <TargetRangeSettings key={settings.glucoseUnit} />
+          </ComponentCard>
+          <ComponentCard title="Google Sheet" desc="Fingerstick readings from your own spreadsheet">
+            <SheetConfigSettings />
+          </ComponentCard>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,86 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../firebase/config';
+
+// Mirrors the summary returned by the adminHealthSummary Cloud Function; times are epoch ms
+
+export interface ErrorCount {
+  message: string;
+  count: number;
+}
+
+export interface HealthStats {
+  total: number;
+  failures: number;
+  successRate: number | null; // null when nothing was recorded
+  p50Ms: number | null; // Latency percentiles over timed operations only
+  p95Ms: number | null;
+}
+
+export interface HealthBucket extends HealthStats {
+  start: number;
+  errors: ErrorCount[];
+}
+
+export interface OperationHealth extends HealthStats {
+  operation: string;
+  errors: ErrorCount[];
+  buckets: HealthBucket[];
+}
+
+export type BackfillStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed';
+
+export interface SyncFreshness {
+  userId: string;
+  cursor: number | null; // Newest reading synced by the scheduled pull
+  lastSyncedAt: number | null; // When the scheduled pull last advanced the cursor
+  backfillStatus: BackfillStatus | null;
+  stale: boolean;
+}
+
+export interface HealthSummary {
+  generatedAt: number;
+  since: number;
+  until: number;
+  bucketMs: number;
+  truncated: boolean; // Only the newest metrics in the window were aggregated
+  operations: OperationHealth[];
+  syncFreshness: SyncFreshness[];
+}
+
+/**
+ * Reads the operator health summary. The callable rejects accounts without the admin claim.
+ */
+export class AdminHealthService {
+  private static instance: AdminHealthService;
+
+  private constructor() {}
+
+  public static getInstance(): AdminHealthService {
+    if (!AdminHealthService.instance) {
+      AdminHealthService.instance = new AdminHealthService();
+    }
+    return AdminHealthService.instance;
+  }
+
+  /**
+   * Health metrics aggregated over the last `hours` hours (1 to 168)
+   */
+  public async getHealthSummary(hours: number): Promise<HealthSummary> {
+    try {
+      const getSummary = httpsCallable(functions, 'adminHealthSummary');
+      const result = await getSummary({ hours });
+      return result.data as HealthSummary;
+    } catch (error) {
+      console.error('Error loading health summary:', error);
+      throw new Error('Failed to load health summary');
+    }
+  }
+}
+
+export const formatSuccessRate = (successRate: number | null): string =>
+  successRate === null ? '--' : `${(successRate * 100).toFixed(1)}%`;
+
+export const formatLatency = (ms: number | null): string => {
+  if (ms === null) return '--';
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)} s` : `${Math.round(ms)} ms`;
+};
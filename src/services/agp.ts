@@ -0,0 +1,114 @@
+import { UnifiedGlucoseReading } from './glucoseData';
+import { format, parseISO, subDays } from 'date-fns';
+import { getDayBounds, getDayKey, getMinuteOfDay } from './timezone';
+
+// Ambulatory Glucose Profile calculations
+
+export const AGP_PERIOD_DAYS = 14;
+export const AGP_MAX_READINGS = AGP_PERIOD_DAYS * 288;
+
+/**
+ * The AGP period: AGP_PERIOD_DAYS calendar days in the given zone, ending with today
+ */
+export function getAgpPeriod(timeZone: string, now: Date = new Date()): { startDate: Date; endDate: Date } {
+  const endKey = getDayKey(now, timeZone);
+  const startKey = format(subDays(parseISO(endKey), AGP_PERIOD_DAYS - 1), 'yyyy-MM-dd');
+  return {
+    startDate: getDayBounds(startKey, timeZone).start,
+    endDate: new Date(getDayBounds(endKey, timeZone).end.getTime() - 1),
+  };
+}
+
+// Time-of-day bucket width for the percentile profile
+const AGP_BUCKET_MINUTES = 15;
+
+export interface AgpPercentilePoint {
+  minuteOfDay: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  count: number;
+}
+
+export interface DailyGlucoseProfile {
+  date: string; // yyyy-MM-dd
+  readings: UnifiedGlucoseReading[];
+}
+
+/**
+ * Percentile with linear interpolation between closest ranks
+ */
+export function percentile(sortedValues: number[], p: number): number {
+  if (sortedValues.length === 0) return 0;
+  if (sortedValues.length === 1) return sortedValues[0];
+
+  const rank = (p / 100) * (sortedValues.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const weight = rank - lower;
+
+  return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * weight;
+}
+
+/**
+ * Collapse all days onto a single 24-hour profile and compute 5/25/50/75/95 percentiles
+ * for each time-of-day bucket, using wall-clock time in the user's zone
+ */
+export function calculatePercentileProfile(
+  readings: UnifiedGlucoseReading[],
+  timeZone: string,
+  bucketMinutes: number = AGP_BUCKET_MINUTES
+): AgpPercentilePoint[] {
+  const bucketCount = Math.ceil((24 * 60) / bucketMinutes);
+  const buckets: number[][] = Array.from({ length: bucketCount }, () => []);
+
+  readings.forEach(reading => {
+    const date = new Date(reading.timestamp);
+    if (isNaN(date.getTime()) || reading.value <= 0) return;
+    buckets[Math.floor(getMinuteOfDay(date, timeZone) / bucketMinutes)].push(reading.value);
+  });
+
+  return buckets
+    .map((values, index) => {
+      const sorted = [...values].sort((a, b) => a - b);
+      return {
+        minuteOfDay: index * bucketMinutes,
+        p5: Math.round(percentile(sorted, 5)),
+        p25: Math.round(percentile(sorted, 25)),
+        p50: Math.round(percentile(sorted, 50)),
+        p75: Math.round(percentile(sorted, 75)),
+        p95: Math.round(percentile(sorted, 95)),
+        count: values.length,
+      };
+    })
+    .filter(point => point.count > 0);
+}
+
+/**
+ * Split readings into one chronological profile per calendar day in the user's zone
+ */
+export function groupReadingsByDay(readings: UnifiedGlucoseReading[], timeZone: string): DailyGlucoseProfile[] {
+  const byDay = new Map<string, UnifiedGlucoseReading[]>();
+
+  readings.forEach(reading => {
+    const date = new Date(reading.timestamp);
+    if (isNaN(date.getTime())) return;
+
+    const dateKey = getDayKey(date, timeZone);
+    if (!byDay.has(dateKey)) {
+      byDay.set(dateKey, []);
+    }
+    byDay.get(dateKey)!.push(reading);
+  });
+
+  return Array.from(byDay.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, dayReadings]) => ({
+      date,
+      readings: dayReadings.sort(
+        (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+      ),
+    }));
+}
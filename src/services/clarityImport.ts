@@ -0,0 +1,95 @@
+import { isValid } from 'date-fns';
+import { parseCsv } from './csv';
+import { DexcomGlucoseReading } from './dexcom';
+import { MGDL_PER_MMOL } from './glucoseUnits';
+import { formatInTimeZone, parseInTimeZone } from './timezone';
+
+// Dexcom sensors report "Low" below 40 mg/dL and "High" above 400 mg/dL
+export const CLARITY_LOW_VALUE = 40;
+export const CLARITY_HIGH_VALUE = 400;
+
+export interface ClarityParseResult {
+  readings: DexcomGlucoseReading[];
+  skippedRows: number;
+}
+
+// Map the Clarity rate of change (mg/dL/min) onto the Dexcom API trend names
+const trendFromRate = (rate: number | undefined): string => {
+  if (rate === undefined) return 'NotComputable';
+  if (rate > 3) return 'DoubleUp';
+  if (rate > 2) return 'SingleUp';
+  if (rate > 1) return 'FortyFiveUp';
+  if (rate >= -1) return 'Flat';
+  if (rate >= -2) return 'FortyFiveDown';
+  if (rate >= -3) return 'SingleDown';
+  return 'DoubleDown';
+};
+
+/**
+ * Extract the EGV rows from a Dexcom Clarity CSV export.
+ *
+ * Clarity timestamps are local wall-clock times, so they become the reading's
+ * displayTime and are converted to UTC in the user's time zone for systemTime.
+ */
+export function parseClarityCsv(text: string, timeZone: string): ClarityParseResult {
+  const rows = parseCsv(text);
+  if (rows.length === 0) {
+    throw new Error('The file is empty');
+  }
+
+  const header = rows[0].map(cell => cell.trim());
+  const timestampIndex = header.findIndex(cell => cell.startsWith('Timestamp'));
+  const eventTypeIndex = header.indexOf('Event Type');
+  const valueIndex = header.findIndex(cell => cell.startsWith('Glucose Value'));
+  const rateIndex = header.findIndex(cell => cell.startsWith('Glucose Rate of Change'));
+
+  if (timestampIndex === -1 || eventTypeIndex === -1 || valueIndex === -1) {
+    throw new Error('This does not look like a Dexcom Clarity CSV export');
+  }
+
+  const isMmol = header[valueIndex].includes('mmol/L');
+  const readings: DexcomGlucoseReading[] = [];
+  let skippedRows = 0;
+
+  for (const row of rows.slice(1)) {
+    // Patient info, device, alert and manual entry rows are not EGVs
+    if (row[eventTypeIndex]?.trim() !== 'EGV') continue;
+
+    const rawTimestamp = row[timestampIndex]?.trim() ?? '';
+    const rawValue = row[valueIndex]?.trim() ?? '';
+    const localTime = parseInTimeZone(rawTimestamp, timeZone);
+
+    let value: number;
+    if (rawValue === 'Low') {
+      value = CLARITY_LOW_VALUE;
+    } else if (rawValue === 'High') {
+      value = CLARITY_HIGH_VALUE;
+    } else {
+      const parsed = parseFloat(rawValue);
+      value = Math.round(isMmol ? parsed * MGDL_PER_MMOL : parsed);
+    }
+
+    if (!isValid(localTime) || isNaN(value)) {
+      skippedRows++;
+      continue;
+    }
+
+    const rawRate = rateIndex === -1 ? '' : row[rateIndex]?.trim() ?? '';
+    const parsedRate = rawRate === '' ? undefined : parseFloat(rawRate);
+    const trendRate = parsedRate === undefined || isNaN(parsedRate)
+      ? undefined
+      : isMmol ? Math.round(parsedRate * MGDL_PER_MMOL * 10) / 10 : parsedRate;
+
+    readings.push({
+      systemTime: localTime.toISOString(),
+      displayTime: formatInTimeZone(localTime, "yyyy-MM-dd'T'HH:mm:ss", timeZone),
+      value,
+      trend: trendFromRate(trendRate),
+      trendRate,
+    });
+  }
+
+  readings.sort((a, b) => new Date(a.systemTime).getTime() - new Date(b.systemTime).getTime());
+
+  return { readings, skippedRows };
+}
@@ -0,0 +1,98 @@
+import { GlucoseUnit, toMgdl } from './glucoseUnits';
+import { parseDateTimeInTimeZone } from './timezone';
+
+// Column indexes into each CSV row; null when the file has no such column
+export interface CsvColumnMapping {
+  timestamp: number | null;
+  value: number | null;
+  comment: number | null;
+  unit: number | null;
+}
+
+export interface ParsedCsvReading {
+  timestamp: string; // ISO 8601
+  value: number;     // mg/dL
+  comment: string;
+}
+
+export interface CsvImportResult {
+  readings: ParsedCsvReading[];
+  skippedRows: number;
+}
+
+// Meter readings outside this window are treated as typos
+export const MIN_VALID_MGDL = 10;
+export const MAX_VALID_MGDL = 600;
+
+const COLUMN_PATTERNS: Record<keyof CsvColumnMapping, RegExp> = {
+  timestamp: /date|time/i,
+  value: /glucose|value|reading|level|bg|sugar/i,
+  comment: /comment|note|memo/i,
+  unit: /unit/i,
+};
+
+/**
+ * Pre-select columns whose header names look like the expected fields
+ */
+export function guessColumnMapping(header: string[]): CsvColumnMapping {
+  const mapping: CsvColumnMapping = { timestamp: null, value: null, comment: null, unit: null };
+  const taken = new Set<number>();
+
+  // Unit first so "Glucose Unit" is not claimed as the value column
+  (['unit', 'timestamp', 'comment', 'value'] as const).forEach(field => {
+    const index = header.findIndex((cell, i) => !taken.has(i) && COLUMN_PATTERNS[field].test(cell));
+    if (index !== -1) {
+      mapping[field] = index;
+      taken.add(index);
+    }
+  });
+
+  return mapping;
+}
+
+const parseUnit = (raw: string | undefined, fallback: GlucoseUnit): GlucoseUnit => {
+  const normalized = raw?.trim().toLowerCase() ?? '';
+  if (normalized.includes('mmol')) return 'mmol/L';
+  if (normalized.includes('mg')) return 'mg/dL';
+  return fallback;
+};
+
+/**
+ * Convert data rows (header excluded) into mg/dL readings using the chosen column mapping.
+ * Timestamps without an offset are read as local time in timeZone.
+ */
+export function parseMappedCsv(
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  defaultUnit: GlucoseUnit,
+  timeZone: string
+): CsvImportResult {
+  if (mapping.timestamp === null || mapping.value === null) {
+    throw new Error('Choose the timestamp and glucose value columns');
+  }
+
+  const readings: ParsedCsvReading[] = [];
+  let skippedRows = 0;
+
+  for (const row of rows) {
+    const date = parseDateTimeInTimeZone(row[mapping.timestamp]?.trim() ?? '', timeZone);
+    const rawValue = parseFloat(row[mapping.value]?.trim() ?? '');
+    const unit = parseUnit(mapping.unit === null ? undefined : row[mapping.unit], defaultUnit);
+    const value = Math.round(toMgdl(rawValue, unit));
+
+    if (isNaN(date.getTime()) || isNaN(value) || value < MIN_VALID_MGDL || value > MAX_VALID_MGDL) {
+      skippedRows++;
+      continue;
+    }
+
+    readings.push({
+      timestamp: date.toISOString(),
+      value,
+      comment: mapping.comment === null ? '' : row[mapping.comment]?.trim() ?? '',
+    });
+  }
+
+  readings.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  return { readings, skippedRows };
+}
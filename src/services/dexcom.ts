@@ -1,9 +1,17 @@
 import { httpsCallable } from 'firebase/functions';
 import { functions, auth, db } from '../firebase/config';
-import { collection, query, where, orderBy, limit, onSnapshot, getDocs, Timestamp } from 'firebase/firestore';
+import { collection, doc, query, where, orderBy, limit, onSnapshot, getDocs, Timestamp, DocumentData, Unsubscribe } from 'firebase/firestore';
 import { subDays, subHours } from 'date-fns';
+import { GlucoseDataSource, UnifiedGlucoseReading } from './glucoseData';
+import { calculateConsensusMetrics, ConsensusMetrics, CONSENSUS_THRESHOLDS, GlucoseThresholds } from './glucoseStats';
+import { GlucoseUnit, formatGlucose } from './glucoseUnits';
+import { ExerciseIntensity, HealthEvent, InsulinType } from './healthEvents';
 
 // Interfaces
+
+// systemTime is the UTC instant of a record. displayTime is the receiver's wall-clock time,
+// which follows whatever the device clock was set to, so it is shown as-is but never used
+// to order, filter or bucket readings; the user's timezone setting is applied to systemTime.
 export interface DexcomGlucoseReading {
   systemTime: string;
   displayTime: string;
@@ -32,6 +40,7 @@ export interface DexcomStats {
   highReadings: number;
   lowReadings: number;
   normalReadings: number;
+  metrics: ConsensusMetrics;
 }
 
 export interface DexcomConnectionStatus {
@@ -43,11 +52,105 @@ export interface DexcomConnectionStatus {
   refreshTokenCreatedAt?: number;
 }
 
+// Receiver-entered event (meal, insulin, exercise, health, note) synced from /events
+export interface DexcomEvent {
+  id: string;
+  recordId: string;
+  systemTime: string;
+  displayTime: string;
+  eventType: string; // carbs | insulin | exercise | health | bloodGlucose | notes | unknown
+  eventSubType: string | null;
+  value: string | null; // Dexcom reports event values as strings
+  unit: string | null;
+  displayDevice: string | null;
+}
+
+export interface DexcomCalibration {
+  id: string;
+  recordId: string;
+  systemTime: string;
+  displayTime: string;
+  value: number;
+  unit: string;
+  displayDevice: string | null;
+}
+
+export interface DexcomDevice {
+  id: string;
+  transmitterId: string | null;
+  transmitterGeneration: string;
+  displayDevice: string;
+  displayApp: string | null;
+  lastUploadDate: string;
+}
+
+export interface DexcomAlert {
+  id: string;
+  recordId: string;
+  systemTime: string;
+  displayTime: string;
+  alertName: string;
+  alertState: string;
+  displayDevice: string | null;
+}
+
+export type DexcomBackfillStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed';
+
+// Progress of the history import started when Dexcom is first connected
+export interface DexcomBackfillProgress {
+  status: DexcomBackfillStatus;
+  historyDays: number | null; // Null until the available range is known
+  percent: number;
+  readingsImported: number;
+  error: string | null;
+}
+
+// Readings sent per dexcomImportClarityCsv call
+const CLARITY_UPLOAD_CHUNK_SIZE = 1000;
+
+// Receiver events kept in the live subscription; matches the manual event limit
+const MAX_DEXCOM_EVENTS = 2000;
+
+const DEXCOM_INSULIN_TYPES: Record<string, InsulinType> = {
+  fastActing: 'rapid',
+  longActing: 'long',
+};
+
+const DEXCOM_EXERCISE_INTENSITIES: Record<string, ExerciseIntensity> = {
+  light: 'light',
+  medium: 'moderate',
+  heavy: 'vigorous',
+};
+
+const DEXCOM_HEALTH_LABELS: Record<string, string> = {
+  highSymptoms: 'High symptoms',
+  lowSymptoms: 'Low symptoms',
+  cycle: 'Cycle',
+  alcohol: 'Alcohol',
+};
+
+const toIsoString = (value: Timestamp) => value.toDate().toISOString();
+
+function toDexcomEvent(id: string, data: DocumentData): DexcomEvent {
+  return {
+    id,
+    recordId: data.recordId,
+    systemTime: toIsoString(data.systemTime),
+    displayTime: toIsoString(data.displayTime),
+    eventType: data.eventType,
+    eventSubType: data.eventSubType ?? null,
+    value: data.value ?? null,
+    unit: data.unit ?? null,
+    displayDevice: data.displayDevice ?? null,
+  };
+}
+
 /**
  * Simplified Dexcom service using Firebase Functions and Firestore
  */
-export class DexcomService {
+export class DexcomService implements GlucoseDataSource {
   private static instance: DexcomService;
+  public readonly source = 'cgm' as const;
 
   private constructor() {}
 
@@ -180,6 +283,62 @@ export class DexcomService {
     }
   }
 
+  /**
+   * Upload readings parsed from a Clarity CSV export in chunks
+   */
+  public async importClarityReadings(
+    readings: DexcomGlucoseReading[],
+    onProgress?: (uploaded: number, total: number) => void
+  ): Promise<{ imported: number; rejected: number }> {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('User must be authenticated');
+    }
+
+    const importClarity = httpsCallable(functions, 'dexcomImportClarityCsv');
+    let imported = 0;
+    let rejected = 0;
+
+    try {
+      for (let start = 0; start < readings.length; start += CLARITY_UPLOAD_CHUNK_SIZE) {
+        const chunk = readings.slice(start, start + CLARITY_UPLOAD_CHUNK_SIZE);
+        const result = await importClarity({ readings: chunk });
+        const responseData = result.data as { imported: number; rejected: number };
+
+        imported += responseData.imported;
+        rejected += responseData.rejected;
+        onProgress?.(start + chunk.length, readings.length);
+      }
+    } catch (error) {
+      console.error('Error importing Clarity readings:', error);
+      throw new Error(`Import stopped after ${imported} readings`);
+    }
+
+    return { imported, rejected };
+  }
+
+  /**
+   * Start of a named time range ending now, or null for all_time. Unknown ranges are the last 12 hours.
+   */
+  public getTimeRangeStart(timeRange: string, now: Date = new Date()): Date | null {
+    switch (timeRange) {
+      case 'last_twelve':
+        return subHours(now, 12);
+      case 'last_week':
+        return subDays(now, 7);
+      case 'last_two_weeks':
+        return subDays(now, 14);
+      case 'last_month':
+        return subDays(now, 30);
+      case 'last_three_months':
+        return subDays(now, 90);
+      case 'all_time':
+        return null;
+      default:
+        return subHours(now, 12);
+    }
+  }
+
   /**
    * Subscribe to real-time glucose data from Firestore
    */
@@ -194,23 +353,7 @@ export class DexcomService {
     }
 
     // Calculate start date based on time range
-    let startDate: Date | null = null;
-    if (timeRange) {
-      const now = new Date();
-      switch (timeRange) {
-        case 'last_twelve':
-          startDate = subHours(now, 12);
-          break;
-        case 'last_week':
-          startDate = subDays(now, 7);
-          break;
-        case 'last_month':
-          startDate = subDays(now, 30);
-          break;
-        default:
-          startDate = subHours(now, 12);
-      }
-    }
+    const startDate = timeRange ? this.getTimeRangeStart(timeRange) ?? subHours(new Date(), 12) : null;
 
     // Build Firestore query
     let q = query(
@@ -273,23 +416,7 @@ export class DexcomService {
     }
 
     // Calculate start date based on time range
-    let startDate: Date | null = null;
-    if (timeRange) {
-      const now = new Date();
-      switch (timeRange) {
-        case 'last_twelve':
-          startDate = subHours(now, 12);
-          break;
-        case 'last_week':
-          startDate = subDays(now, 7);
-          break;
-        case 'last_month':
-          startDate = subDays(now, 30);
-          break;
-        default:
-          startDate = subHours(now, 12);
-      }
-    }
+    const startDate = timeRange ? this.getTimeRangeStart(timeRange) ?? subHours(new Date(), 12) : null;
 
     // Build Firestore query
     let q = query(
@@ -336,7 +463,294 @@ export class DexcomService {
   }
 
   /**
-   * Filter glucose data by time range
+   * Get glucose data from Firestore for an explicit date range (one-time fetch)
+   */
+  public async getGlucoseDataForDateRange(
+    startDate: Date,
+    endDate: Date,
+    maxReadings: number = 288
+  ): Promise<DexcomGlucoseReading[]> {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('User must be authenticated');
+    }
+
+    const q = query(
+      collection(db, 'glucoseReadings'),
+      where('userId', '==', user.uid),
+      where('systemTime', '>=', Timestamp.fromDate(startDate)),
+      where('systemTime', '<=', Timestamp.fromDate(endDate)),
+      orderBy('systemTime', 'desc'),
+      limit(maxReadings)
+    );
+
+    try {
+      const snapshot = await getDocs(q);
+      const readings: DexcomGlucoseReading[] = [];
+
+      snapshot.forEach((doc) => {
+        const data = doc.data() as StoredGlucoseReading;
+        readings.push({
+          systemTime: data.systemTime.toDate().toISOString(),
+          displayTime: data.displayTime.toDate().toISOString(),
+          value: data.value,
+          trend: data.trend,
+          trendRate: data.trendRate
+        });
+      });
+
+      // Sort by time (most recent first)
+      readings.sort((a, b) => new Date(b.systemTime).getTime() - new Date(a.systemTime).getTime());
+
+      return readings;
+    } catch (error) {
+      console.error('Error fetching glucose data range from Firestore:', error);
+      throw new Error('Failed to fetch glucose data from database');
+    }
+  }
+
+  public isConfigured(): boolean {
+    return !!auth.currentUser;
+  }
+
+  /**
+   * Get stored CGM readings as unified readings (one-time fetch)
+   */
+  public async fetchReadings(
+    timeRange?: string,
+    maxReadings: number = 288
+  ): Promise<UnifiedGlucoseReading[]> {
+    const readings = await this.getGlucoseDataFromFirestore(timeRange, maxReadings);
+    return this.toUnifiedReadings(readings);
+  }
+
+  /**
+   * Convert Dexcom readings to the unified reading model
+   */
+  public toUnifiedReadings(data: DexcomGlucoseReading[]): UnifiedGlucoseReading[] {
+    return data.map(reading => ({
+      id: `cgm_${new Date(reading.systemTime).getTime()}`,
+      source: this.source,
+      timestamp: reading.systemTime,
+      value: reading.value,
+      unit: 'mg/dL',
+      trend: reading.trend,
+      trendRate: reading.trendRate,
+    }));
+  }
+
+  /**
+   * Subscribe to the history import progress; the callback receives null when no import exists
+   */
+  public subscribeToBackfill(
+    callback: (progress: DexcomBackfillProgress | null) => void
+  ): Unsubscribe {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('User must be authenticated');
+    }
+
+    return onSnapshot(doc(db, 'dexcomBackfills', user.uid), (snapshot) => {
+      const data = snapshot.data();
+      if (!data) {
+        callback(null);
+        return;
+      }
+
+      // The import walks backward from rangeEnd, so progress is the share already behind the cursor
+      const rangeStart = (data.rangeStart as Timestamp | null)?.toMillis();
+      const rangeEnd = (data.rangeEnd as Timestamp | null)?.toMillis();
+      const cursor = (data.cursor as Timestamp | null)?.toMillis();
+      const total = rangeStart !== undefined && rangeEnd !== undefined ? rangeEnd - rangeStart : 0;
+      const done = cursor !== undefined && rangeEnd !== undefined ? rangeEnd - cursor : 0;
+
+      callback({
+        status: data.status,
+        historyDays: total > 0 ? Math.round(total / (24 * 60 * 60 * 1000)) : null,
+        percent: data.status === 'completed' ? 100 : total > 0 ? Math.min(100, Math.floor((done / total) * 100)) : 0,
+        readingsImported: data.readingsImported ?? 0,
+        error: data.error ?? null,
+      });
+    }, (error) => {
+      console.error('Error in Dexcom backfill subscription:', error);
+    });
+  }
+
+  /**
+   * Subscribe to the user's most recent receiver events, newest first
+   */
+  public subscribeToEvents(
+    callback: (events: DexcomEvent[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('User must be authenticated');
+    }
+
+    const q = query(
+      collection(db, 'dexcomEvents'),
+      where('userId', '==', user.uid),
+      orderBy('systemTime', 'desc'),
+      limit(MAX_DEXCOM_EVENTS)
+    );
+
+    return onSnapshot(q, (snapshot) => {
+      callback(snapshot.docs.map(snapshotDoc => toDexcomEvent(snapshotDoc.id, snapshotDoc.data())));
+    }, (error) => {
+      console.error('Error in Dexcom events subscription:', error);
+      onError?.(error);
+    });
+  }
+
+  /**
+   * Get receiver events from Firestore for an explicit date range, newest first
+   */
+  public async getEventsForDateRange(startDate: Date, endDate: Date): Promise<DexcomEvent[]> {
+    const snapshot = await this.getRecordsForDateRange('dexcomEvents', startDate, endDate);
+    return snapshot.map(({ id, data }) => toDexcomEvent(id, data));
+  }
+
+  /**
+   * Get sensor calibrations from Firestore for an explicit date range, newest first
+   */
+  public async getCalibrationsForDateRange(startDate: Date, endDate: Date): Promise<DexcomCalibration[]> {
+    const snapshot = await this.getRecordsForDateRange('dexcomCalibrations', startDate, endDate);
+    return snapshot.map(({ id, data }) => ({
+      id,
+      recordId: data.recordId,
+      systemTime: toIsoString(data.systemTime),
+      displayTime: toIsoString(data.displayTime),
+      value: data.value,
+      unit: data.unit,
+      displayDevice: data.displayDevice ?? null,
+    }));
+  }
+
+  /**
+   * Get receiver and app alerts from Firestore for an explicit date range, newest first
+   */
+  public async getAlertsForDateRange(startDate: Date, endDate: Date): Promise<DexcomAlert[]> {
+    const snapshot = await this.getRecordsForDateRange('dexcomAlerts', startDate, endDate);
+    return snapshot.map(({ id, data }) => ({
+      id,
+      recordId: data.recordId,
+      systemTime: toIsoString(data.systemTime),
+      displayTime: toIsoString(data.displayTime),
+      alertName: data.alertName,
+      alertState: data.alertState,
+      displayDevice: data.displayDevice ?? null,
+    }));
+  }
+
+  /**
+   * Get the receivers and apps that have uploaded data, most recent upload first
+   */
+  public async getDevices(): Promise<DexcomDevice[]> {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('User must be authenticated');
+    }
+
+    const q = query(
+      collection(db, 'dexcomDevices'),
+      where('userId', '==', user.uid),
+      orderBy('lastUploadDate', 'desc')
+    );
+
+    try {
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(snapshotDoc => {
+        const data = snapshotDoc.data();
+        return {
+          id: snapshotDoc.id,
+          transmitterId: data.transmitterId ?? null,
+          transmitterGeneration: data.transmitterGeneration,
+          displayDevice: data.displayDevice,
+          displayApp: data.displayApp ?? null,
+          lastUploadDate: toIsoString(data.lastUploadDate),
+        };
+      });
+    } catch (error) {
+      console.error('Error fetching Dexcom devices from Firestore:', error);
+      throw new Error('Failed to fetch Dexcom devices from database');
+    }
+  }
+
+  /**
+   * Convert receiver events to the health event model so they display alongside logged events.
+   * Blood glucose entries are skipped since calibrations and fingersticks already cover them.
+   */
+  public toHealthEvents(events: DexcomEvent[]): HealthEvent[] {
+    return events.flatMap((event): HealthEvent[] => {
+      const base = {
+        id: `dexcom_${event.id}`,
+        timestamp: event.systemTime,
+        note: '',
+        source: 'dexcom' as const,
+      };
+      const amount = parseFloat(event.value ?? '');
+
+      switch (event.eventType) {
+        case 'carbs':
+          return isNaN(amount) ? [] : [{ ...base, type: 'carbs', grams: Math.round(amount) }];
+        case 'insulin':
+          return isNaN(amount) ? [] : [{
+            ...base,
+            type: 'insulin',
+            insulinType: DEXCOM_INSULIN_TYPES[event.eventSubType ?? ''] ?? 'rapid',
+            units: amount,
+          }];
+        case 'exercise':
+          return isNaN(amount) ? [] : [{
+            ...base,
+            type: 'exercise',
+            intensity: DEXCOM_EXERCISE_INTENSITIES[event.eventSubType ?? ''] ?? 'moderate',
+            durationMinutes: Math.round(amount),
+          }];
+        case 'health':
+          // Dexcom does not record severity for illness or stress
+          if (event.eventSubType === 'illness' || event.eventSubType === 'stress') {
+            return [{ ...base, type: event.eventSubType, severity: 'moderate' }];
+          }
+          return [{ ...base, type: 'note', note: DEXCOM_HEALTH_LABELS[event.eventSubType ?? ''] ?? 'Health' }];
+        case 'notes':
+          return event.value ? [{ ...base, type: 'note', note: event.value }] : [];
+        default:
+          return [];
+      }
+    });
+  }
+
+  private async getRecordsForDateRange(
+    collectionName: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<{ id: string; data: DocumentData }[]> {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('User must be authenticated');
+    }
+
+    const q = query(
+      collection(db, collectionName),
+      where('userId', '==', user.uid),
+      where('systemTime', '>=', Timestamp.fromDate(startDate)),
+      where('systemTime', '<=', Timestamp.fromDate(endDate)),
+      orderBy('systemTime', 'desc')
+    );
+
+    try {
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(snapshotDoc => ({ id: snapshotDoc.id, data: snapshotDoc.data() }));
+    } catch (error) {
+      console.error(`Error fetching ${collectionName} from Firestore:`, error);
+      throw new Error('Failed to fetch Dexcom records from database');
+    }
+  }
+
+  /**
+   * Filter glucose data by time range, on systemTime like the Firestore queries
    */
   public filterDataByTimeRange(
     data: DexcomGlucoseReading[],
@@ -344,27 +758,11 @@ export class DexcomService {
   ): DexcomGlucoseReading[] {
     if (!data || data.length === 0) return [];
 
-    const now = new Date();
-    let startDate: Date;
-
-    switch (timeRange) {
-      case 'last_twelve':
-        startDate = subHours(now, 12);
-        break;
-      case 'last_week':
-        startDate = subDays(now, 7);
-        break;
-      case 'last_month':
-        startDate = subDays(now, 30);
-        break;
-      case 'all_time':
-        return data;
-      default:
-        startDate = subHours(now, 12);
-    }
+    const startDate = this.getTimeRangeStart(timeRange);
+    if (!startDate) return data;
 
     return data.filter(reading => {
-      const readingDate = new Date(reading.displayTime);
+      const readingDate = new Date(reading.systemTime);
       return readingDate >= startDate;
     });
   }
@@ -372,7 +770,9 @@ export class DexcomService {
   /**
    * Calculate statistics for glucose data
    */
-  public calculateStats(data: DexcomGlucoseReading[]): DexcomStats {
+  public calculateStats(data: DexcomGlucoseReading[], thresholds: GlucoseThresholds = CONSENSUS_THRESHOLDS): DexcomStats {
+    const metrics = calculateConsensusMetrics(this.toUnifiedReadings(data || []), thresholds);
+
     if (!data || data.length === 0) {
       return {
         average: 0,
@@ -383,44 +783,27 @@ export class DexcomService {
         highReadings: 0,
         lowReadings: 0,
         normalReadings: 0,
+        metrics,
       };
     }
 
     // Sort by time to get the latest reading
     const sortedData = [...data].sort((a, b) => 
-      new Date(b.displayTime).getTime() - new Date(a.displayTime).getTime()
+      new Date(b.systemTime).getTime() - new Date(a.systemTime).getTime()
     );
 
-    const lastReading = sortedData[0];
-    const readingsCount = data.length;
-
-    // Calculate average
-    const total = data.reduce((sum, reading) => sum + reading.value, 0);
-    const average = total / readingsCount;
-
-    // Calculate time in range (70-180 mg/dL)
-    const inRangeCount = data.filter(reading => 
-      reading.value >= 70 && reading.value <= 180
-    ).length;
-    const timeInRange = (inRangeCount / readingsCount) * 100;
-
-    // Calculate high/low readings
-    const highReadings = data.filter(reading => reading.value > 180).length;
-    const lowReadings = data.filter(reading => reading.value < 70).length;
-    const normalReadings = inRangeCount;
-
-    // Estimate HbA1c using the formula: HbA1c = (average + 46.7) / 28.7
-    const estimatedHbA1c = (average + 46.7) / 28.7;
+    const { rangeCounts } = metrics;
 
     return {
-      average: Math.round(average),
-      timeInRange: Math.round(timeInRange * 10) / 10,
-      estimatedHbA1c: Math.round(estimatedHbA1c * 10) / 10,
-      lastReading,
-      readingsCount,
-      highReadings,
-      lowReadings,
-      normalReadings,
+      average: Math.round(metrics.mean),
+      timeInRange: metrics.rangePercentages.inRange,
+      estimatedHbA1c: metrics.estimatedHbA1c,
+      lastReading: sortedData[0],
+      readingsCount: data.length,
+      highReadings: rangeCounts.high + rangeCounts.veryHigh,
+      lowReadings: rangeCounts.low + rangeCounts.veryLow,
+      normalReadings: rangeCounts.inRange,
+      metrics,
     };
   }
 
@@ -476,16 +859,16 @@ export class DexcomService {
   /**
    * Format glucose value for display
    */
-  public formatGlucoseValue(value: number): string {
-    return `${value} mg/dL`;
+  public formatGlucoseValue(value: number, unit: GlucoseUnit = 'mg/dL'): string {
+    return formatGlucose(value, unit);
   }
 
   /**
    * Get glucose reading color based on value
    */
-  public getGlucoseColor(value: number): string {
-    if (value < 70) return 'text-red-600';
-    if (value > 180) return 'text-yellow-600';
+  public getGlucoseColor(value: number, thresholds: GlucoseThresholds = CONSENSUS_THRESHOLDS): string {
+    if (value < thresholds.low) return 'text-red-600';
+    if (value > thresholds.high) return 'text-yellow-600';
     return 'text-green-600';
   }
 }
\ No newline at end of file
@@ -0,0 +1,185 @@
+import { differenceInCalendarDays } from 'date-fns';
+import { GoogleSheetsService } from './googleSheets';
+import { DexcomService } from './dexcom';
+import { FingerstickReadingsService } from './fingerstickReadings';
+import { UnifiedGlucoseReading, mergeReadings } from './glucoseData';
+import { GlucoseUnit, MGDL_PER_MMOL, convertGlucose } from './glucoseUnits';
+import { formatInTimeZone } from './timezone';
+
+export type ExportFormat = 'csv' | 'json';
+
+// Bump when columns are added, removed or change meaning
+export const EXPORT_SCHEMA_VERSION = 1;
+
+// Column order is part of the schema; append new columns at the end
+export const EXPORT_COLUMNS = [
+  'timestamp',
+  'source',
+  'value',
+  'unit',
+  'trend',
+  'trendRate',
+  'comment',
+] as const;
+
+export interface ExportUnits {
+  value: GlucoseUnit;
+  trendRate: `${GlucoseUnit}/min`;
+}
+
+const getExportUnits = (unit: GlucoseUnit): ExportUnits => ({
+  value: unit,
+  trendRate: `${unit}/min`,
+});
+
+type ExportColumn = typeof EXPORT_COLUMNS[number];
+
+export type ExportRow = Record<ExportColumn, string | number | null>;
+
+export interface ExportDocument {
+  schemaVersion: number;
+  exportedAt: string;
+  range: {
+    start: string;
+    end: string;
+  };
+  units: ExportUnits;
+  columns: readonly ExportColumn[];
+  readings: ExportRow[];
+}
+
+/**
+ * Serializes merged fingerstick and CGM readings for offline analysis
+ */
+export class ExportService {
+  private static instance: ExportService;
+
+  private constructor() {}
+
+  public static getInstance(): ExportService {
+    if (!ExportService.instance) {
+      ExportService.instance = new ExportService();
+    }
+    return ExportService.instance;
+  }
+
+  /**
+   * Load readings from every configured source for the given range; sheet times are read in timeZone
+   */
+  public async fetchReadingsForRange(startDate: Date, endDate: Date, timeZone: string): Promise<UnifiedGlucoseReading[]> {
+    const googleSheetsService = GoogleSheetsService.getInstance();
+    const dexcomService = DexcomService.getInstance();
+
+    const fetchCgm = async (): Promise<UnifiedGlucoseReading[]> => {
+      const days = differenceInCalendarDays(endDate, startDate) + 1;
+      const readings = await dexcomService.getGlucoseDataForDateRange(startDate, endDate, days * 288);
+      return dexcomService.toUnifiedReadings(readings);
+    };
+
+    // One failing source, e.g. an unshared sheet, should not block the others
+    const results = await Promise.allSettled([
+      googleSheetsService.fetchGlucoseData(timeZone).then(rows => googleSheetsService.toUnifiedReadings(rows)),
+      FingerstickReadingsService.getInstance().fetchGlucoseData().then(rows => googleSheetsService.toUnifiedReadings(rows)),
+      fetchCgm(),
+    ]);
+    const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    failures.forEach(failure => console.error('Error fetching export source:', failure.reason));
+
+    if (failures.length === results.length) {
+      throw failures[0].reason;
+    }
+
+    const readings = results.map(result => (result.status === 'fulfilled' ? result.value : []));
+
+    return mergeReadings(...readings).filter(reading => {
+      const date = new Date(reading.timestamp);
+      return date >= startDate && date <= endDate;
+    });
+  }
+
+  /**
+   * Flatten readings into export rows, converting values from mg/dL to the requested unit
+   */
+  public toRows(readings: UnifiedGlucoseReading[], unit: GlucoseUnit = 'mg/dL'): ExportRow[] {
+    // Trend rates are small, so mmol/L rates keep two decimals instead of one
+    const convertRate = (rate: number) => unit === 'mg/dL' ? rate : Math.round((rate / MGDL_PER_MMOL) * 100) / 100;
+
+    return readings.map(reading => ({
+      timestamp: reading.timestamp,
+      source: reading.source,
+      value: convertGlucose(reading.value, unit),
+      unit,
+      trend: reading.trend ?? null,
+      trendRate: reading.trendRate !== undefined ? convertRate(reading.trendRate) : null,
+      comment: reading.comment ?? null,
+    }));
+  }
+
+  public toCsv(readings: UnifiedGlucoseReading[], unit: GlucoseUnit = 'mg/dL'): string {
+    const escape = (value: string | number | null): string => {
+      if (value === null) return '';
+      // Spreadsheets run text starting with these as a formula, so comments are kept as plain text
+      const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const lines = [
+      EXPORT_COLUMNS.join(','),
+      ...this.toRows(readings, unit).map(row => EXPORT_COLUMNS.map(column => escape(row[column])).join(',')),
+    ];
+
+    return lines.join('\r\n') + '\r\n';
+  }
+
+  public toJson(readings: UnifiedGlucoseReading[], startDate: Date, endDate: Date, unit: GlucoseUnit = 'mg/dL'): string {
+    const exportDocument: ExportDocument = {
+      schemaVersion: EXPORT_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      range: {
+        start: startDate.toISOString(),
+        end: endDate.toISOString(),
+      },
+      units: getExportUnits(unit),
+      columns: EXPORT_COLUMNS,
+      readings: this.toRows(readings, unit),
+    };
+
+    return JSON.stringify(exportDocument, null, 2);
+  }
+
+  /**
+   * Fetch, serialize and download readings as a file in the browser
+   */
+  public async exportReadings(
+    startDate: Date,
+    endDate: Date,
+    exportFormat: ExportFormat,
+    timeZone: string,
+    unit: GlucoseUnit = 'mg/dL'
+  ): Promise<number> {
+    const readings = await this.fetchReadingsForRange(startDate, endDate, timeZone);
+
+    const content = exportFormat === 'csv'
+      ? this.toCsv(readings, unit)
+      : this.toJson(readings, startDate, endDate, unit);
+    const mimeType = exportFormat === 'csv' ? 'text/csv' : 'application/json';
+    const filename = `glucose-readings_${formatInTimeZone(startDate, 'yyyy-MM-dd', timeZone)}_${formatInTimeZone(endDate, 'yyyy-MM-dd', timeZone)}.${exportFormat}`;
+
+    this.download(content, filename, mimeType);
+    return readings.length;
+  }
+
+  private download(content: string, filename: string, mimeType: string): void {
+    const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    URL.revokeObjectURL(url);
+  }
+}
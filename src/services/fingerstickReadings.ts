@@ -0,0 +1,157 @@
+import { auth, db } from '../firebase/config';
+import { collection, query, where, orderBy, getDocs, doc, setDoc, writeBatch, serverTimestamp, Timestamp } from 'firebase/firestore';
+import { GlucoseDataSource, UnifiedGlucoseReading } from './glucoseData';
+import { GlucoseReading, GoogleSheetsService } from './googleSheets';
+import { ParsedCsvReading } from './csvImport';
+
+export type FingerstickOrigin = 'csv' | 'manual';
+
+export interface StoredFingerstickReading {
+  userId: string;
+  timestamp: Timestamp;
+  value: number;
+  unit: 'mg/dL';
+  comment: string;
+  origin: FingerstickOrigin;
+  createdAt: Timestamp;
+}
+
+const COLLECTION = 'fingerstickReadings';
+
+// Firestore batches are capped at 500 writes
+const BATCH_SIZE = 500;
+
+/**
+ * Fingerstick readings stored per user in Firestore, an alternative to the Google Sheets source
+ */
+export class FingerstickReadingsService implements GlucoseDataSource {
+  private static instance: FingerstickReadingsService;
+  public readonly source = 'fingerstick' as const;
+
+  private constructor() {}
+
+  public static getInstance(): FingerstickReadingsService {
+    if (!FingerstickReadingsService.instance) {
+      FingerstickReadingsService.instance = new FingerstickReadingsService();
+    }
+    return FingerstickReadingsService.instance;
+  }
+
+  public isConfigured(): boolean {
+    return !!auth.currentUser;
+  }
+
+  /**
+   * Load every stored reading in the same row shape as the Google Sheets source
+   */
+  public async fetchGlucoseData(): Promise<GlucoseReading[]> {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('User must be authenticated');
+    }
+
+    const q = query(
+      collection(db, COLLECTION),
+      where('userId', '==', user.uid),
+      orderBy('timestamp', 'desc')
+    );
+
+    try {
+      const snapshot = await getDocs(q);
+      return snapshot.docs
+        .map(snapshotDoc => {
+          const data = snapshotDoc.data() as StoredFingerstickReading;
+          return {
+            dateTime: data.timestamp.toDate().toISOString(),
+            glucoseLevel: data.value,
+            comment: data.comment,
+            dayAverage: 0,
+          };
+        })
+        .reverse();
+    } catch (error) {
+      console.error('Error fetching fingerstick readings from Firestore:', error);
+      throw new Error('Failed to fetch uploaded readings from database');
+    }
+  }
+
+  public async fetchReadings(timeRange?: string): Promise<UnifiedGlucoseReading[]> {
+    const googleSheetsService = GoogleSheetsService.getInstance();
+    const data = await this.fetchGlucoseData();
+    const filtered = timeRange ? googleSheetsService.filterDataByTimeRange(data, timeRange) : data;
+    return googleSheetsService.toUnifiedReadings(filtered);
+  }
+
+  /**
+   * Store a single reading, e.g. one logged from the dashboard
+   */
+  public async saveReading(reading: ParsedCsvReading, origin: FingerstickOrigin): Promise<void> {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('User must be authenticated');
+    }
+
+    const date = new Date(reading.timestamp);
+
+    try {
+      await setDoc(doc(db, COLLECTION, `${user.uid}_${date.getTime()}`), {
+        userId: user.uid,
+        timestamp: Timestamp.fromDate(date),
+        value: reading.value,
+        unit: 'mg/dL',
+        comment: reading.comment,
+        origin,
+        createdAt: serverTimestamp(),
+      });
+    } catch (error) {
+      console.error('Error saving fingerstick reading:', error);
+      throw new Error('Failed to save reading');
+    }
+  }
+
+  /**
+   * Store readings in batches; a reading at the same instant overwrites the earlier copy
+   */
+  public async saveReadings(
+    readings: ParsedCsvReading[],
+    origin: FingerstickOrigin,
+    onProgress?: (saved: number, total: number) => void
+  ): Promise<number> {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('User must be authenticated');
+    }
+
+    let saved = 0;
+
+    try {
+      for (let start = 0; start < readings.length; start += BATCH_SIZE) {
+        const chunk = readings.slice(start, start + BATCH_SIZE);
+        const batch = writeBatch(db);
+
+        chunk.forEach(reading => {
+          const date = new Date(reading.timestamp);
+          const docRef = doc(db, COLLECTION, `${user.uid}_${date.getTime()}`);
+          batch.set(docRef, {
+            userId: user.uid,
+            timestamp: Timestamp.fromDate(date),
+            value: reading.value,
+            unit: 'mg/dL',
+            comment: reading.comment,
+            origin,
+            createdAt: serverTimestamp(),
+          });
+        });
+
+        await batch.commit();
+        saved += chunk.length;
+        onProgress?.(saved, readings.length);
+      }
+    } catch (error) {
+      console.error('Error saving fingerstick readings:', error);
+      throw new Error(`Upload stopped after ${saved} readings`);
+    }
+
+    return saved;
+  }
+}
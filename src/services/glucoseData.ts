@@ -0,0 +1,46 @@
+// Shared glucose data model used across the Google Sheets and Dexcom sources
+
+export type GlucoseReadingSource = 'fingerstick' | 'cgm';
+
+export interface UnifiedGlucoseReading {
+  id: string;
+  source: GlucoseReadingSource;
+  timestamp: string; // ISO 8601
+  value: number;
+  unit: 'mg/dL';
+  comment?: string;
+  trend?: string;
+  trendRate?: number;
+}
+
+/**
+ * Common interface implemented by every service that supplies glucose readings
+ */
+export interface GlucoseDataSource {
+  readonly source: GlucoseReadingSource;
+  isConfigured(): boolean;
+  fetchReadings(timeRange?: string): Promise<UnifiedGlucoseReading[]>;
+}
+
+/**
+ * Merge readings from any number of sources into one chronological timeline.
+ * Readings with the same ID are kept once, e.g. a fingerstick stored in Firestore and the sheet.
+ */
+export function mergeReadings(...sources: UnifiedGlucoseReading[][]): UnifiedGlucoseReading[] {
+  const byId = new Map<string, UnifiedGlucoseReading>();
+
+  sources.forEach(readings => {
+    readings.forEach(reading => byId.set(reading.id, reading));
+  });
+
+  return Array.from(byId.values()).sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+}
+
+/**
+ * Human readable label for a reading source
+ */
+export function getSourceLabel(source: GlucoseReadingSource): string {
+  return source === 'cgm' ? 'CGM' : 'Fingerstick';
+}
@@ -0,0 +1,139 @@
+import { UnifiedGlucoseReading } from './glucoseData';
+import { groupReadingsByDay } from './agp';
+import { getDayBounds, getDayKey } from './timezone';
+
+// Gap and completeness analysis for CGM data. Fingersticks are taken on demand,
+// so only CGM readings are considered.
+
+// Dexcom G7 reports one estimated glucose value every 5 minutes
+export const CGM_READING_INTERVAL_MS = 5 * 60 * 1000;
+
+// More than two consecutive missed readings counts as a gap
+export const GAP_THRESHOLD_MS = 15 * 60 * 1000;
+
+// Consensus minimum share of CGM data for metrics to be considered representative
+export const MIN_COMPLETENESS_PERCENT = 70;
+
+export interface GlucoseGap {
+  start: string; // ISO 8601
+  end: string;
+  durationMinutes: number;
+}
+
+export interface DailyCompleteness {
+  date: string; // yyyy-MM-dd
+  readings: number;
+  expectedReadings: number;
+  percent: number;
+  gaps: GlucoseGap[];
+}
+
+const getCgmTimes = (readings: UnifiedGlucoseReading[]): number[] =>
+  readings
+    .filter(reading => reading.source === 'cgm')
+    .map(reading => new Date(reading.timestamp).getTime())
+    .filter(time => !isNaN(time))
+    .sort((a, b) => a - b);
+
+/**
+ * Intervals without CGM readings, oldest first. When a range is given, missing data
+ * at its start or end also counts, e.g. a sensor that had not warmed up yet.
+ */
+export function findGlucoseGaps(
+  readings: UnifiedGlucoseReading[],
+  rangeStart?: Date,
+  rangeEnd?: Date
+): GlucoseGap[] {
+  const points = getCgmTimes(readings);
+  if (rangeStart) points.unshift(rangeStart.getTime());
+  if (rangeEnd) points.push(rangeEnd.getTime());
+
+  const gaps: GlucoseGap[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const duration = points[i] - points[i - 1];
+    if (duration > GAP_THRESHOLD_MS) {
+      gaps.push({
+        start: new Date(points[i - 1]).toISOString(),
+        end: new Date(points[i]).toISOString(),
+        durationMinutes: Math.round(duration / 60000),
+      });
+    }
+  }
+  return gaps;
+}
+
+/**
+ * Per-day share of expected CGM readings and the gaps within each day, for every day of
+ * the range in the user's zone, oldest day first. Days without a single CGM reading are
+ * included at 0%. Days follow the user's zone, so DST days expect 23 or 25 hours of
+ * readings, and the first and last day only expect readings inside the range.
+ */
+export function calculateDailyCompleteness(
+  readings: UnifiedGlucoseReading[],
+  timeZone: string,
+  rangeStart: Date,
+  rangeEnd: Date = new Date()
+): DailyCompleteness[] {
+  const readingsByDay = new Map(
+    groupReadingsByDay(readings.filter(reading => reading.source === 'cgm'), timeZone)
+      .map(day => [day.date, day.readings])
+  );
+
+  const days: DailyCompleteness[] = [];
+  let dayKey = getDayKey(rangeStart, timeZone);
+  const lastDayKey = getDayKey(rangeEnd, timeZone);
+
+  while (dayKey <= lastDayKey) {
+    const bounds = getDayBounds(dayKey, timeZone);
+    const dayStart = new Date(Math.max(bounds.start.getTime(), rangeStart.getTime()));
+    const dayEnd = new Date(Math.min(bounds.end.getTime(), rangeEnd.getTime()));
+    const dayReadings = (readingsByDay.get(dayKey) ?? [])
+      .filter(reading => {
+        const time = new Date(reading.timestamp).getTime();
+        return time >= dayStart.getTime() && time <= dayEnd.getTime();
+      });
+    const expectedReadings = Math.max(1, Math.floor((dayEnd.getTime() - dayStart.getTime()) / CGM_READING_INTERVAL_MS));
+
+    days.push({
+      date: dayKey,
+      readings: dayReadings.length,
+      expectedReadings,
+      percent: Math.round(Math.min(100, (dayReadings.length / expectedReadings) * 100)),
+      gaps: findGlucoseGaps(dayReadings, dayStart, dayEnd),
+    });
+
+    dayKey = getDayKey(bounds.end, timeZone);
+  }
+
+  return days;
+}
+
+/**
+ * Whether CGM coverage is high enough for summary statistics to be reliable
+ */
+export function hasSufficientCoverage(percent: number | null): boolean {
+  return percent !== null && percent >= MIN_COMPLETENESS_PERCENT;
+}
+
+/**
+ * Shaded chart regions for gaps, for ApexCharts x-axis annotations
+ */
+export function getGapAnnotations(gaps: GlucoseGap[]): XAxisAnnotations[] {
+  return gaps.map(gap => ({
+    x: new Date(gap.start).getTime(),
+    x2: new Date(gap.end).getTime(),
+    fillColor: '#98A2B3',
+    opacity: 0.15,
+    borderColor: 'transparent',
+    label: {
+      text: gap.durationMinutes >= 60 ? `No data ${Math.round(gap.durationMinutes / 60)}h` : 'No data',
+      orientation: 'horizontal',
+      borderColor: 'transparent',
+      style: {
+        color: '#667085',
+        background: 'transparent',
+        fontSize: '10px',
+      },
+    },
+  }));
+}
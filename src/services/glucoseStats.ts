@@ -0,0 +1,248 @@
+import { UnifiedGlucoseReading } from './glucoseData';
+import { groupReadingsByDay } from './agp';
+import { GlucoseUnit, convertGlucose } from './glucoseUnits';
+import { CGM_READING_INTERVAL_MS } from './glucoseGaps';
+
+// International consensus CGM metrics (Battelino et al., Diabetes Care 2019).
+// All inputs, thresholds and results are in mg/dL; see glucoseUnits for display conversion.
+
+export interface GlucoseThresholds {
+  veryLow: number;  // level 2 hypoglycemia below this value
+  low: number;      // level 1 hypoglycemia below this value
+  high: number;     // level 1 hyperglycemia above this value
+  veryHigh: number; // level 2 hyperglycemia above this value
+}
+
+export const CONSENSUS_THRESHOLDS: GlucoseThresholds = {
+  veryLow: 54,
+  low: 70,
+  high: 180,
+  veryHigh: 250,
+};
+
+export type ThresholdPreset = 'standard' | 'pregnancy' | 'pediatric';
+
+export const THRESHOLD_PRESETS: Record<ThresholdPreset, { label: string; description: string; thresholds: GlucoseThresholds }> = {
+  standard: {
+    label: 'Standard',
+    description: 'Consensus targets for adults with type 1 or type 2 diabetes',
+    thresholds: CONSENSUS_THRESHOLDS,
+  },
+  pregnancy: {
+    label: 'Pregnancy',
+    description: 'Tighter 63–140 mg/dL target range for pregnancy with type 1 diabetes',
+    thresholds: { veryLow: 54, low: 63, high: 140, veryHigh: 250 },
+  },
+  pediatric: {
+    label: 'Pediatric',
+    description: 'Wider upper target often used for young children to limit hypoglycemia',
+    thresholds: { veryLow: 54, low: 70, high: 200, veryHigh: 250 },
+  },
+};
+
+/**
+ * Check that thresholds are positive and strictly increasing; returns an error message or null
+ */
+export function validateThresholds(thresholds: GlucoseThresholds): string | null {
+  const { veryLow, low, high, veryHigh } = thresholds;
+  if ([veryLow, low, high, veryHigh].some(value => !Number.isFinite(value) || value <= 0)) {
+    return 'All thresholds must be positive numbers';
+  }
+  if (!(veryLow < low && low < high && high < veryHigh)) {
+    return 'Thresholds must increase from very low to very high';
+  }
+  return null;
+}
+
+/**
+ * The preset whose thresholds match exactly, or null for custom targets
+ */
+export function findThresholdPreset(thresholds: GlucoseThresholds): ThresholdPreset | null {
+  const match = (Object.keys(THRESHOLD_PRESETS) as ThresholdPreset[]).find(preset => {
+    const candidate = THRESHOLD_PRESETS[preset].thresholds;
+    return candidate.veryLow === thresholds.veryLow &&
+      candidate.low === thresholds.low &&
+      candidate.high === thresholds.high &&
+      candidate.veryHigh === thresholds.veryHigh;
+  });
+  return match ?? null;
+}
+
+export type GlucoseRangeBand = 'veryLow' | 'low' | 'inRange' | 'high' | 'veryHigh';
+
+export type GlucoseRangeBreakdown = Record<GlucoseRangeBand, number>;
+
+export interface ConsensusMetrics {
+  count: number;
+  mean: number;
+  min: number;
+  max: number;
+  standardDeviation: number;
+  coefficientOfVariation: number; // %
+  gmi: number;                    // glucose management indicator, %
+  estimatedHbA1c: number;         // ADAG estimate, %
+  rangeCounts: GlucoseRangeBreakdown;
+  rangePercentages: GlucoseRangeBreakdown;
+  cgmActivePercent: number | null; // null when there are no CGM readings
+}
+
+const EMPTY_BREAKDOWN: GlucoseRangeBreakdown = {
+  veryLow: 0,
+  low: 0,
+  inRange: 0,
+  high: 0,
+  veryHigh: 0,
+};
+
+const roundTo = (value: number, decimals: number): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Classify a glucose value into one of the five consensus bands
+ */
+export function getRangeBand(value: number, thresholds: GlucoseThresholds = CONSENSUS_THRESHOLDS): GlucoseRangeBand {
+  if (value < thresholds.veryLow) return 'veryLow';
+  if (value < thresholds.low) return 'low';
+  if (value <= thresholds.high) return 'inRange';
+  if (value <= thresholds.veryHigh) return 'high';
+  return 'veryHigh';
+}
+
+/**
+ * Display label for a consensus band, e.g. "54–69 mg/dL" or "3.0–3.8 mmol/L"
+ */
+export function getRangeBandLabel(
+  band: GlucoseRangeBand,
+  thresholds: GlucoseThresholds = CONSENSUS_THRESHOLDS,
+  unit: GlucoseUnit = 'mg/dL'
+): string {
+  // Adjacent bands are separated by one display step so the labels don't overlap
+  const step = unit === 'mmol/L' ? 0.1 : 1;
+  const show = (valueMgdl: number, offset: number = 0): string => {
+    const value = convertGlucose(valueMgdl, unit) + offset;
+    return unit === 'mmol/L' ? value.toFixed(1) : String(value);
+  };
+
+  switch (band) {
+    case 'veryLow':
+      return `<${show(thresholds.veryLow)} ${unit}`;
+    case 'low':
+      return `${show(thresholds.veryLow)}–${show(thresholds.low, -step)} ${unit}`;
+    case 'inRange':
+      return `${show(thresholds.low)}–${show(thresholds.high)} ${unit}`;
+    case 'high':
+      return `${show(thresholds.high, step)}–${show(thresholds.veryHigh)} ${unit}`;
+    case 'veryHigh':
+      return `>${show(thresholds.veryHigh)} ${unit}`;
+  }
+}
+
+/**
+ * Percentage of the expected 5-minute CGM readings that were actually recorded
+ */
+export function calculateCgmActivePercent(readings: UnifiedGlucoseReading[]): number | null {
+  const times = readings
+    .filter(reading => reading.source === 'cgm')
+    .map(reading => new Date(reading.timestamp).getTime())
+    .filter(time => !isNaN(time));
+
+  if (times.length === 0) {
+    return null;
+  }
+
+  const span = Math.max(...times) - Math.min(...times);
+  const expectedReadings = Math.floor(span / CGM_READING_INTERVAL_MS) + 1;
+
+  return roundTo(Math.min(100, (times.length / expectedReadings) * 100), 1);
+}
+
+/**
+ * Calculate the consensus metrics for any mix of fingerstick and CGM readings
+ */
+export function calculateConsensusMetrics(
+  readings: UnifiedGlucoseReading[],
+  thresholds: GlucoseThresholds = CONSENSUS_THRESHOLDS
+): ConsensusMetrics {
+  const values = readings.map(reading => reading.value).filter(value => value > 0);
+
+  if (values.length === 0) {
+    return {
+      count: 0,
+      mean: 0,
+      min: 0,
+      max: 0,
+      standardDeviation: 0,
+      coefficientOfVariation: 0,
+      gmi: 0,
+      estimatedHbA1c: 0,
+      rangeCounts: { ...EMPTY_BREAKDOWN },
+      rangePercentages: { ...EMPTY_BREAKDOWN },
+      cgmActivePercent: null,
+    };
+  }
+
+  const count = values.length;
+  const mean = values.reduce((sum, value) => sum + value, 0) / count;
+
+  // Population standard deviation, as used by AGP reports
+  const variance = values.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / count;
+  const standardDeviation = Math.sqrt(variance);
+
+  const rangeCounts = { ...EMPTY_BREAKDOWN };
+  values.forEach(value => {
+    rangeCounts[getRangeBand(value, thresholds)]++;
+  });
+
+  const rangePercentages = { ...EMPTY_BREAKDOWN };
+  (Object.keys(rangeCounts) as GlucoseRangeBand[]).forEach(band => {
+    rangePercentages[band] = roundTo((rangeCounts[band] / count) * 100, 1);
+  });
+
+  return {
+    count,
+    mean: roundTo(mean, 1),
+    min: Math.min(...values),
+    max: Math.max(...values),
+    standardDeviation: roundTo(standardDeviation, 1),
+    coefficientOfVariation: roundTo((standardDeviation / mean) * 100, 1),
+    // GMI (%) = 3.31 + 0.02392 × mean glucose in mg/dL
+    gmi: roundTo(3.31 + 0.02392 * mean, 1),
+    // HbA1c = (mean + 46.7) / 28.7
+    estimatedHbA1c: roundTo((mean + 46.7) / 28.7, 1),
+    rangeCounts,
+    rangePercentages,
+    cgmActivePercent: calculateCgmActivePercent(readings),
+  };
+}
+
+export interface DailyGlucoseSummary {
+  date: string; // yyyy-MM-dd
+  count: number;
+  average: number;
+  min: number;
+  max: number;
+  timeInRange: number; // %
+}
+
+/**
+ * Per-day average, extremes and time in range, oldest day first. Days follow the user's zone.
+ */
+export function calculateDailySummaries(
+  readings: UnifiedGlucoseReading[],
+  timeZone: string,
+  thresholds: GlucoseThresholds = CONSENSUS_THRESHOLDS
+): DailyGlucoseSummary[] {
+  return groupReadingsByDay(readings, timeZone).map(day => {
+    const metrics = calculateConsensusMetrics(day.readings, thresholds);
+    return {
+      date: day.date,
+      count: metrics.count,
+      average: Math.round(metrics.mean),
+      min: metrics.min,
+      max: metrics.max,
+      timeInRange: metrics.rangePercentages.inRange,
+    };
+  });
+}
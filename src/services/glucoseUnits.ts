@@ -0,0 +1,43 @@
+// Glucose unit conversion. Readings, thresholds and metrics are stored and
+// calculated in mg/dL; conversion to the user's preferred unit happens at display time.
+
+export type GlucoseUnit = 'mg/dL' | 'mmol/L';
+
+export const GLUCOSE_UNITS: GlucoseUnit[] = ['mg/dL', 'mmol/L'];
+
+// mmol/L to mg/dL conversion factor (molar mass of glucose / 10)
+export const MGDL_PER_MMOL = 18.0182;
+
+/**
+ * Convert a mg/dL value to the display unit (mmol/L is rounded to one decimal)
+ */
+export function convertGlucose(valueMgdl: number, unit: GlucoseUnit): number {
+  if (unit === 'mg/dL') return valueMgdl;
+  return Math.round((valueMgdl / MGDL_PER_MMOL) * 10) / 10;
+}
+
+/**
+ * Convert a value entered in the given unit back to mg/dL
+ */
+export function toMgdl(value: number, unit: GlucoseUnit): number {
+  if (unit === 'mg/dL') return value;
+  return Math.round(value * MGDL_PER_MMOL);
+}
+
+/**
+ * Format a mg/dL value for display, e.g. "126 mg/dL" or "7.0 mmol/L"
+ */
+export function formatGlucose(valueMgdl: number, unit: GlucoseUnit, withUnit: boolean = true): string {
+  const text = unit === 'mmol/L' ? convertGlucose(valueMgdl, unit).toFixed(1) : String(valueMgdl);
+  return withUnit ? `${text} ${unit}` : text;
+}
+
+/**
+ * Format an HbA1c/GMI percentage, adding the IFCC mmol/mol equivalent for mmol/L users
+ */
+export function formatHbA1c(percent: number, unit: GlucoseUnit): string {
+  if (unit === 'mg/dL') return `${percent}%`;
+  // IFCC (mmol/mol) = (NGSP % − 2.15) × 10.929
+  const ifcc = Math.round((percent - 2.15) * 10.929);
+  return `${percent}% (${ifcc} mmol/mol)`;
+}
@@ -1,3 +1,10 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../firebase/config';
+import { GlucoseDataSource, UnifiedGlucoseReading } from './glucoseData';
+import { calculateConsensusMetrics, ConsensusMetrics, CONSENSUS_THRESHOLDS, GlucoseThresholds } from './glucoseStats';
+import { parseDateTimeInTimeZone } from './timezone';
+import { BROWSER_TIMEZONE } from './userSettings';
+
 export interface GlucoseReading {
   dateTime: string;
   glucoseLevel: number;
@@ -5,6 +12,14 @@ export interface GlucoseReading {
   dayAverage: number;
 }
 
+/**
+ * Identity of a fingerstick reading across sources. A reading logged to both Firestore and
+ * the sheet comes back from each with the same time and value, so the copies share a key.
+ */
+export function getFingerstickKey(reading: GlucoseReading): string {
+  return `${new Date(reading.dateTime).getTime()}_${reading.glucoseLevel}`;
+}
+
 export interface GlucoseStats {
   avg: string;
   min: number;
@@ -12,18 +27,47 @@ export interface GlucoseStats {
   count: number;
   timeInRange: number;
   estimatedHbA1c: string;
+  metrics: ConsensusMetrics;
+}
+
+// Column letters for each field in the user's sheet; comment and day average are optional
+export interface SheetColumnMapping {
+  dateTime: string;
+  glucoseLevel: string;
+  comment: string | null;
+  dayAverage: string | null;
+}
+
+export interface SheetConfig {
+  spreadsheetId: string;
+  tabName: string;
+  columns: SheetColumnMapping;
+}
+
+export interface SheetConfigResponse {
+  config: SheetConfig | null;
+  serviceAccountEmail: string | null; // share the sheet with this account to log readings to it
 }
 
-export class GoogleSheetsService {
+export const DEFAULT_SHEET_COLUMNS: SheetColumnMapping = {
+  dateTime: 'A',
+  glucoseLevel: 'B',
+  comment: 'C',
+  dayAverage: 'D',
+};
+
+/**
+ * Reads fingerstick readings from the user's linked Google Sheet. The sheet
+ * configuration lives server-side and rows are fetched through a Cloud Function,
+ * so the Sheets API key never reaches the browser.
+ */
+export class GoogleSheetsService implements GlucoseDataSource {
   private static instance: GoogleSheetsService;
-  private readonly SPREADSHEET_ID: string;
-  private readonly API_KEY: string;
-  private readonly RANGE = '2025_all_data!A:D';
+  public readonly source = 'fingerstick' as const;
+  // Whether the last server response reported a linked sheet
+  private configured = false;
 
-  private constructor() {
-    this.SPREADSHEET_ID = import.meta.env.VITE_SPREADSHEET_ID || '';
-    this.API_KEY = import.meta.env.VITE_GOOGLE_API_KEY || '';
-  }
+  private constructor() {}
 
   public static getInstance(): GoogleSheetsService {
     if (!GoogleSheetsService.instance) {
@@ -33,37 +77,80 @@ export class GoogleSheetsService {
   }
 
   public isConfigured(): boolean {
-    return !!(this.SPREADSHEET_ID && this.API_KEY);
+    return this.configured;
   }
 
-  public async fetchGlucoseData(): Promise<GlucoseReading[]> {
-    if (!this.isConfigured()) {
-      throw new Error('Missing Google Sheets configuration. Please check your environment variables.');
+  /**
+   * Get the user's linked sheet (null when none is linked)
+   */
+  public async getSheetConfig(): Promise<SheetConfigResponse> {
+    try {
+      const getConfig = httpsCallable(functions, 'sheetsGetConfig');
+      const result = await getConfig();
+      const response = result.data as SheetConfigResponse;
+      this.configured = response.config !== null;
+      return response;
+    } catch (error) {
+      console.error('Error loading sheet configuration:', error);
+      throw new Error('Failed to load sheet configuration');
     }
+  }
 
+  public async saveSheetConfig(config: SheetConfig): Promise<void> {
     try {
-      const url = `https://sheets.googleapis.com/v4/spreadsheets/${this.SPREADSHEET_ID}/values/${this.RANGE}?key=${this.API_KEY}`;
-      
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        if (response.status === 429) {
-          throw new Error('Rate limit exceeded. Please wait a moment before refreshing.');
-        }
-        if (response.status === 403) {
-          throw new Error('API key invalid or quota exceeded. Please check your Google Sheets API configuration.');
-        }
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      const rows = data.values || [];
-      
+      const saveConfig = httpsCallable(functions, 'sheetsSaveConfig');
+      await saveConfig(config);
+      this.configured = true;
+    } catch (error) {
+      console.error('Error saving sheet configuration:', error);
+      throw new Error(error instanceof Error ? error.message : 'Failed to save sheet configuration');
+    }
+  }
+
+  public async deleteSheetConfig(): Promise<void> {
+    try {
+      const deleteConfig = httpsCallable(functions, 'sheetsDeleteConfig');
+      await deleteConfig();
+      this.configured = false;
+    } catch (error) {
+      console.error('Error unlinking sheet:', error);
+      throw new Error('Failed to unlink sheet');
+    }
+  }
+
+  /**
+   * Append a reading to the linked sheet; the glucose level is written in mg/dL
+   */
+  public async appendReading(reading: GlucoseReading): Promise<void> {
+    try {
+      const appendReading = httpsCallable(functions, 'sheetsAppendReading');
+      await appendReading({
+        dateTime: reading.dateTime,
+        glucoseLevel: reading.glucoseLevel,
+        comment: reading.comment,
+      });
+    } catch (error) {
+      console.error('Error appending reading to sheet:', error);
+      throw new Error(error instanceof Error ? error.message : 'Failed to add reading to sheet');
+    }
+  }
+
+  /**
+   * Fetch rows from the linked sheet; resolves to an empty list when no sheet is linked.
+   * Sheet times are wall-clock times in timeZone and are returned as ISO 8601 instants.
+   */
+  public async fetchGlucoseData(timeZone: string): Promise<GlucoseReading[]> {
+    try {
+      const fetchRows = httpsCallable(functions, 'sheetsFetchReadings');
+      const result = await fetchRows();
+      const { configured, rows } = result.data as { configured: boolean; rows: string[][] };
+      this.configured = configured;
+
       // Transform data for the frontend
       const transformedData = rows
         .filter((row: string[]) => row.length >= 2 && row[0] && row[1]) // Filter out empty rows
         .map((row: string[]) => ({
-          dateTime: row[0],
+          dateTime: this.toInstant(row[0], timeZone),
           glucoseLevel: parseFloat(row[1]) || 0,
           comment: (row[2]) || "",
           dayAverage: parseFloat(row[3]) || 0
@@ -77,48 +164,68 @@ export class GoogleSheetsService {
     }
   }
 
-  public calculateStats(data: GlucoseReading[]): GlucoseStats {
-    if (data.length === 0) {
-      return { 
-        avg: '0', 
-        min: 0, 
-        max: 0, 
-        count: 0, 
-        timeInRange: 0, 
-        estimatedHbA1c: '0.0' 
-      };
-    }
-    
-    const glucoseValues = data.map(item => item.glucoseLevel).filter(val => val > 0);
-    if (glucoseValues.length === 0) {
+  // Unparseable cells are kept as they are and dropped by toUnifiedReadings
+  private toInstant(cell: string, timeZone: string): string {
+    const date = parseDateTimeInTimeZone(cell, timeZone);
+    return isNaN(date.getTime()) ? cell : date.toISOString();
+  }
+
+  /**
+   * Fetch sheet rows as unified fingerstick readings, reading sheet times in timeZone
+   */
+  public async fetchReadings(timeRange?: string, timeZone: string = BROWSER_TIMEZONE): Promise<UnifiedGlucoseReading[]> {
+    const data = await this.fetchGlucoseData(timeZone);
+    const filtered = timeRange ? this.filterDataByTimeRange(data, timeRange) : data;
+    return this.toUnifiedReadings(filtered);
+  }
+
+  /**
+   * Convert sheet rows to the unified reading model, dropping rows with unparseable dates
+   */
+  public toUnifiedReadings(data: GlucoseReading[]): UnifiedGlucoseReading[] {
+    return data
+      .map(reading => {
+        const date = new Date(reading.dateTime);
+        if (isNaN(date.getTime())) {
+          return null;
+        }
+        // Copies from different sources share an ID, so mergeReadings keeps one
+        const unified: UnifiedGlucoseReading = {
+          id: `fingerstick_${getFingerstickKey(reading)}`,
+          source: this.source,
+          timestamp: date.toISOString(),
+          value: reading.glucoseLevel,
+          unit: 'mg/dL',
+          comment: reading.comment || undefined,
+        };
+        return unified;
+      })
+      .filter((reading): reading is UnifiedGlucoseReading => reading !== null);
+  }
+
+  public calculateStats(data: GlucoseReading[], thresholds: GlucoseThresholds = CONSENSUS_THRESHOLDS): GlucoseStats {
+    const metrics = calculateConsensusMetrics(this.toUnifiedReadings(data), thresholds);
+
+    if (metrics.count === 0) {
       return { 
         avg: '0', 
         min: 0, 
         max: 0, 
         count: 0, 
         timeInRange: 0, 
-        estimatedHbA1c: '0.0' 
+        estimatedHbA1c: '0.0',
+        metrics
       };
     }
     
-    const avg = glucoseValues.reduce((sum, val) => sum + val, 0) / glucoseValues.length;
-    const min = Math.min(...glucoseValues);
-    const max = Math.max(...glucoseValues);
-    
-    // Calculate Time in Range (70-180 mg/dL)
-    const inRangeCount = glucoseValues.filter(val => val >= 70 && val <= 180).length;
-    const timeInRange = Math.round((inRangeCount / glucoseValues.length) * 100);
-    
-    // Estimate HbA1c using the formula: HbA1c = (avg + 46.7) / 28.7
-    const estimatedHbA1c = ((avg + 46.7) / 28.7).toFixed(1);
-    
     return { 
-      avg: avg.toFixed(1), 
-      min, 
-      max, 
-      count: glucoseValues.length,
-      timeInRange,
-      estimatedHbA1c
+      avg: metrics.mean.toFixed(1), 
+      min: metrics.min, 
+      max: metrics.max, 
+      count: metrics.count,
+      timeInRange: Math.round(metrics.rangePercentages.inRange),
+      estimatedHbA1c: metrics.estimatedHbA1c.toFixed(1),
+      metrics
     };
   }
 
@@ -0,0 +1,245 @@
+import { db } from '../firebase/config';
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  Timestamp,
+  Unsubscribe,
+  where,
+} from 'firebase/firestore';
+
+export type HealthEventType = 'carbs' | 'insulin' | 'exercise' | 'illness' | 'stress' | 'note';
+export type InsulinType = 'rapid' | 'short' | 'intermediate' | 'long' | 'premixed';
+export type ExerciseIntensity = 'light' | 'moderate' | 'vigorous';
+export type EventSeverity = 'mild' | 'moderate' | 'severe';
+export type HealthEventSource = 'manual' | 'dexcom'; // dexcom: entered on the receiver, read-only here
+
+interface HealthEventBase {
+  id: string;
+  timestamp: string; // ISO 8601
+  note: string;
+  source: HealthEventSource;
+}
+
+export interface CarbsEvent extends HealthEventBase {
+  type: 'carbs';
+  grams: number;
+}
+
+export interface InsulinEvent extends HealthEventBase {
+  type: 'insulin';
+  insulinType: InsulinType;
+  units: number;
+}
+
+export interface ExerciseEvent extends HealthEventBase {
+  type: 'exercise';
+  durationMinutes: number;
+  intensity: ExerciseIntensity;
+}
+
+export interface IllnessEvent extends HealthEventBase {
+  type: 'illness';
+  severity: EventSeverity;
+}
+
+export interface StressEvent extends HealthEventBase {
+  type: 'stress';
+  severity: EventSeverity;
+}
+
+export interface NoteEvent extends HealthEventBase {
+  type: 'note';
+}
+
+export type HealthEvent = CarbsEvent | InsulinEvent | ExerciseEvent | IllnessEvent | StressEvent | NoteEvent;
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+// Fields supplied when logging an event; id and source are assigned on save
+export type NewHealthEvent = DistributiveOmit<HealthEvent, 'id' | 'source'>;
+
+export const HEALTH_EVENT_TYPES: Record<HealthEventType, { label: string; color: string }> = {
+  carbs: { label: 'Meal', color: '#F79009' },
+  insulin: { label: 'Insulin', color: '#7A5AF8' },
+  exercise: { label: 'Exercise', color: '#12B76A' },
+  illness: { label: 'Illness', color: '#F04438' },
+  stress: { label: 'Stress', color: '#EE46BC' },
+  note: { label: 'Note', color: '#667085' },
+};
+
+export const INSULIN_TYPES: { value: InsulinType; label: string }[] = [
+  { value: 'rapid', label: 'Rapid-acting' },
+  { value: 'short', label: 'Short-acting' },
+  { value: 'intermediate', label: 'Intermediate-acting' },
+  { value: 'long', label: 'Long-acting' },
+  { value: 'premixed', label: 'Premixed' },
+];
+
+export const EXERCISE_INTENSITIES: ExerciseIntensity[] = ['light', 'moderate', 'vigorous'];
+export const EVENT_SEVERITIES: EventSeverity[] = ['mild', 'moderate', 'severe'];
+
+// Upper bounds mirrored in firestore.rules
+export const HEALTH_EVENT_LIMITS = {
+  MAX_CARBS_GRAMS: 500,
+  MAX_INSULIN_UNITS: 100,
+  MAX_EXERCISE_MINUTES: 1440,
+  MAX_NOTE_LENGTH: 500,
+};
+
+const COLLECTION = 'healthEvents';
+
+// Enough for several months of frequent logging
+const MAX_EVENTS = 2000;
+
+/**
+ * Short human-readable summary, e.g. "45 g carbs" or "6 U rapid-acting insulin"
+ */
+export function describeHealthEvent(event: HealthEvent): string {
+  switch (event.type) {
+    case 'carbs':
+      return `${event.grams} g carbs`;
+    case 'insulin': {
+      const insulinLabel = INSULIN_TYPES.find(option => option.value === event.insulinType)?.label ?? event.insulinType;
+      return `${event.units} U ${insulinLabel.toLowerCase()} insulin`;
+    }
+    case 'exercise':
+      return `${event.durationMinutes} min ${event.intensity} exercise`;
+    case 'illness':
+      return `${event.severity} illness`;
+    case 'stress':
+      return `${event.severity} stress`;
+    case 'note':
+      return event.note || 'Note';
+  }
+}
+
+/**
+ * Compact label for chart markers, e.g. "45g" or "6U"
+ */
+export function getHealthEventMarkerLabel(event: HealthEvent): string {
+  switch (event.type) {
+    case 'carbs':
+      return `${event.grams}g`;
+    case 'insulin':
+      return `${event.units}U`;
+    case 'exercise':
+      return `${event.durationMinutes}min`;
+    default:
+      return HEALTH_EVENT_TYPES[event.type].label;
+  }
+}
+
+/**
+ * Check event fields against the same limits the security rules enforce; returns an error message or null
+ */
+export function validateHealthEvent(event: NewHealthEvent): string | null {
+  if (isNaN(new Date(event.timestamp).getTime())) {
+    return 'Enter a valid date and time';
+  }
+  if (event.note.length > HEALTH_EVENT_LIMITS.MAX_NOTE_LENGTH) {
+    return `Notes are limited to ${HEALTH_EVENT_LIMITS.MAX_NOTE_LENGTH} characters`;
+  }
+
+  switch (event.type) {
+    case 'carbs':
+      return event.grams > 0 && event.grams <= HEALTH_EVENT_LIMITS.MAX_CARBS_GRAMS
+        ? null
+        : `Carbs must be between 1 and ${HEALTH_EVENT_LIMITS.MAX_CARBS_GRAMS} g`;
+    case 'insulin':
+      return event.units > 0 && event.units <= HEALTH_EVENT_LIMITS.MAX_INSULIN_UNITS
+        ? null
+        : `Insulin must be between 0 and ${HEALTH_EVENT_LIMITS.MAX_INSULIN_UNITS} units`;
+    case 'exercise':
+      return event.durationMinutes > 0 && event.durationMinutes <= HEALTH_EVENT_LIMITS.MAX_EXERCISE_MINUTES
+        ? null
+        : 'Enter an exercise duration of up to 24 hours';
+    case 'note':
+      return event.note.trim() ? null : 'Enter a note';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Structured events (meals, insulin, exercise, illness, stress, notes) stored per user in Firestore
+ */
+export class HealthEventsService {
+  private static instance: HealthEventsService;
+
+  private constructor() {}
+
+  public static getInstance(): HealthEventsService {
+    if (!HealthEventsService.instance) {
+      HealthEventsService.instance = new HealthEventsService();
+    }
+    return HealthEventsService.instance;
+  }
+
+  /**
+   * Subscribe to the user's most recent events, newest first
+   */
+  public subscribeToEvents(
+    userId: string,
+    callback: (events: HealthEvent[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    const q = query(
+      collection(db, COLLECTION),
+      where('userId', '==', userId),
+      orderBy('timestamp', 'desc'),
+      limit(MAX_EVENTS)
+    );
+
+    return onSnapshot(q, (snapshot) => {
+      callback(snapshot.docs.map(snapshotDoc => {
+        const data = snapshotDoc.data();
+        return {
+          ...data,
+          id: snapshotDoc.id,
+          timestamp: (data.timestamp as Timestamp).toDate().toISOString(),
+        } as HealthEvent;
+      }));
+    }, (error) => {
+      console.error('Error in health events subscription:', error);
+      onError?.(error);
+    });
+  }
+
+  public async saveEvent(userId: string, event: NewHealthEvent): Promise<string> {
+    const validationError = validateHealthEvent(event);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    try {
+      const docRef = await addDoc(collection(db, COLLECTION), {
+        ...event,
+        userId,
+        timestamp: Timestamp.fromDate(new Date(event.timestamp)),
+        note: event.note.trim(),
+        source: 'manual',
+        createdAt: serverTimestamp(),
+      });
+      return docRef.id;
+    } catch (error) {
+      console.error('Error saving health event:', error);
+      throw new Error('Failed to save event');
+    }
+  }
+
+  public async deleteEvent(eventId: string): Promise<void> {
+    try {
+      await deleteDoc(doc(db, COLLECTION, eventId));
+    } catch (error) {
+      console.error('Error deleting health event:', error);
+      throw new Error('Failed to delete event');
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { TZDate, tz } from '@date-fns/tz';
+import { addDays, format, isValid, parseISO } from 'date-fns';
+
+// Calendar days and wall-clock times in the user's IANA time zone. Readings are UTC instants;
+// these helpers place them on the user's calendar, so days that span a DST change have
+// 23 or 25 hours and days follow the zone selected in settings when the user travels.
+
+export interface DayBounds {
+  start: Date;
+  end: Date; // Exclusive
+}
+
+/**
+ * Format an instant as wall-clock time in the given zone, using date-fns patterns
+ */
+export function formatInTimeZone(date: Date | string | number, pattern: string, timeZone: string): string {
+  return format(new Date(date), pattern, { in: tz(timeZone) });
+}
+
+/**
+ * Parse an ISO wall-clock time without an offset, e.g. 2024-03-10T02:30:00, as local time in the given zone
+ */
+export function parseInTimeZone(value: string, timeZone: string): Date {
+  return new Date(parseISO(value, { in: tz(timeZone) }).getTime());
+}
+
+/**
+ * Parse a date and time typed by the user or read from a sheet or CSV file, e.g. 2024-03-10T08:15
+ * or 3/10/2024 8:15, as local time in the given zone. Values with an explicit offset keep it.
+ */
+export function parseDateTimeInTimeZone(value: string, timeZone: string): Date {
+  const iso = parseInTimeZone(value, timeZone);
+  if (isValid(iso)) {
+    return iso;
+  }
+
+  // Other formats are left to the browser, which reads them in its own zone; move the
+  // resulting wall-clock time into the given zone unless the value named an offset
+  const parsed = new Date(value);
+  if (isNaN(parsed.getTime()) || /(?:Z|GMT|UTC|[+-]\d{2}:?\d{2})\s*$/i.test(value.trim())) {
+    return parsed;
+  }
+  return new Date(new TZDate(
+    parsed.getFullYear(), parsed.getMonth(), parsed.getDate(),
+    parsed.getHours(), parsed.getMinutes(), parsed.getSeconds(), parsed.getMilliseconds(),
+    timeZone
+  ).getTime());
+}
+
+/**
+ * Calendar day (yyyy-MM-dd) an instant falls on in the given zone
+ */
+export function getDayKey(date: Date | string | number, timeZone: string): string {
+  return formatInTimeZone(date, 'yyyy-MM-dd', timeZone);
+}
+
+/**
+ * Start and end instants of a calendar day (yyyy-MM-dd) in the given zone
+ */
+export function getDayBounds(dayKey: string, timeZone: string): DayBounds {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  const start = new TZDate(year, month - 1, day, timeZone);
+  return {
+    start: new Date(start.getTime()),
+    end: new Date(addDays(start, 1).getTime()),
+  };
+}
+
+/**
+ * Minutes since local midnight in the given zone
+ */
+export function getMinuteOfDay(date: Date | string | number, timeZone: string): number {
+  const zoned = new TZDate(new Date(date).getTime(), timeZone);
+  return zoned.getHours() * 60 + zoned.getMinutes();
+}
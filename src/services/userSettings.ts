@@ -0,0 +1,136 @@
+import { db } from '../firebase/config';
+import { doc, onSnapshot, setDoc, serverTimestamp, Unsubscribe } from 'firebase/firestore';
+import { GlucoseUnit } from './glucoseUnits';
+import { CONSENSUS_THRESHOLDS, GlucoseThresholds, validateThresholds } from './glucoseStats';
+
+export type DashboardTimeRange = 'last_twelve' | 'week' | 'month' | 'three_months';
+
+export const DASHBOARD_TIME_RANGES: { value: DashboardTimeRange; label: string }[] = [
+  { value: 'last_twelve', label: 'Last 12 Readings' },
+  { value: 'week', label: 'Last Week' },
+  { value: 'month', label: 'Last Month' },
+  { value: 'three_months', label: 'Last 3 Months' },
+];
+
+export interface NotificationPreferences {
+  lowGlucose: boolean;
+  highGlucose: boolean;
+  syncFailures: boolean;
+  weeklySummary: boolean;
+}
+
+// Preferences stored as top-level fields of the users/{userId} document
+export interface UserSettings {
+  displayName: string; // empty falls back to the auth profile name
+  glucoseUnit: GlucoseUnit;
+  targetThresholds: GlucoseThresholds; // mg/dL
+  timezone: string; // IANA zone name
+  defaultTimeRange: DashboardTimeRange;
+  notifications: NotificationPreferences;
+}
+
+export const BROWSER_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  displayName: '',
+  glucoseUnit: 'mg/dL',
+  targetThresholds: CONSENSUS_THRESHOLDS,
+  timezone: BROWSER_TIMEZONE,
+  defaultTimeRange: 'last_twelve',
+  notifications: {
+    lowGlucose: true,
+    highGlucose: true,
+    syncFailures: true,
+    weeklySummary: false,
+  },
+};
+
+/**
+ * IANA time zones known to the browser, falling back to the browser's own zone
+ */
+export function getSupportedTimezones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  return intl.supportedValuesOf?.('timeZone') ?? [BROWSER_TIMEZONE];
+}
+
+const isValidTimezone = (timezone: string): boolean => {
+  try {
+    Intl.DateTimeFormat(undefined, { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Reads and writes per-user preferences in Firestore
+ */
+export class UserSettingsService {
+  private static instance: UserSettingsService;
+
+  private constructor() {}
+
+  public static getInstance(): UserSettingsService {
+    if (!UserSettingsService.instance) {
+      UserSettingsService.instance = new UserSettingsService();
+    }
+    return UserSettingsService.instance;
+  }
+
+  /**
+   * Fill in defaults for fields missing from older or partial documents
+   */
+  public withDefaults(data: Partial<UserSettings> | undefined): UserSettings {
+    const defaults = DEFAULT_USER_SETTINGS;
+    const thresholds = data?.targetThresholds;
+    const timeRange = DASHBOARD_TIME_RANGES.find(option => option.value === data?.defaultTimeRange);
+
+    return {
+      displayName: typeof data?.displayName === 'string' ? data.displayName : defaults.displayName,
+      glucoseUnit: data?.glucoseUnit === 'mmol/L' ? 'mmol/L' : defaults.glucoseUnit,
+      targetThresholds: thresholds && validateThresholds(thresholds) === null
+        ? thresholds
+        : defaults.targetThresholds,
+      timezone: typeof data?.timezone === 'string' && isValidTimezone(data.timezone)
+        ? data.timezone
+        : defaults.timezone,
+      defaultTimeRange: timeRange ? timeRange.value : defaults.defaultTimeRange,
+      notifications: { ...defaults.notifications, ...data?.notifications },
+    };
+  }
+
+  /**
+   * Subscribe to the user's settings; the callback receives defaults until a document exists
+   */
+  public subscribeToSettings(
+    userId: string,
+    callback: (settings: UserSettings) => void
+  ): Unsubscribe {
+    return onSnapshot(doc(db, 'users', userId), (snapshot) => {
+      callback(this.withDefaults(snapshot.data() as Partial<UserSettings> | undefined));
+    }, (error) => {
+      console.error('Error in user settings subscription:', error);
+      callback(DEFAULT_USER_SETTINGS);
+    });
+  }
+
+  public async updateSettings(userId: string, updates: Partial<UserSettings>): Promise<void> {
+    const thresholdError = updates.targetThresholds ? validateThresholds(updates.targetThresholds) : null;
+    if (thresholdError) {
+      throw new Error(thresholdError);
+    }
+    if (updates.timezone !== undefined && !isValidTimezone(updates.timezone)) {
+      throw new Error(`Unknown time zone: ${updates.timezone}`);
+    }
+
+    try {
+      await setDoc(doc(db, 'users', userId), {
+        ...updates,
+        updatedAt: serverTimestamp(),
+      }, { merge: true });
+    } catch (error) {
+      console.error('Error saving user settings:', error);
+      throw new Error('Failed to save settings');
+    }
+  }
+}
@@ -0,0 +1,242 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { readFileSync } from 'node:fs';
+import {
+  RulesTestEnvironment,
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import {
+  Timestamp,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  setDoc,
+  setLogLevel,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+
+// Security rules suite for firestore.rules, run against the Firestore emulator with `npm run test:rules`
+
+const OWNER = 'alice';
+const OTHER = 'bob';
+
+// Collections that only Cloud Functions (Admin SDK) may read or write
+const SERVER_ONLY_COLLECTIONS = [
+  'dexcomTokens',
+  'oauthStates',
+  'sheetConfigs',
+  'dexcomSyncState',
+  'rateLimits',
+  'healthMetrics',
+];
+
+// Dexcom data clients may read when it belongs to them but never write
+const OWNER_READABLE_DEXCOM_COLLECTIONS = [
+  'glucoseReadings',
+  'dexcomEvents',
+  'dexcomCalibrations',
+  'dexcomDevices',
+  'dexcomAlerts',
+];
+
+let testEnv: RulesTestEnvironment;
+
+const asUser = (uid: string) => testEnv.authenticatedContext(uid).firestore();
+const asGuest = () => testEnv.unauthenticatedContext().firestore();
+
+// Write fixture documents without rule checks, as the Admin SDK would
+const seed = (path: string, data: Record<string, unknown>): Promise<void> =>
+  testEnv.withSecurityRulesDisabled(context => setDoc(doc(context.firestore(), path), data));
+
+const glucoseReading = (userId: string) => ({
+  userId,
+  systemTime: Timestamp.now(),
+  displayTime: Timestamp.now(),
+  value: 120,
+  unit: 'mg/dL',
+  trend: 'flat',
+});
+
+const fingerstick = (userId: string) => ({
+  userId,
+  timestamp: Timestamp.now(),
+  value: 110,
+  unit: 'mg/dL',
+  comment: '',
+});
+
+const healthEvent = (userId: string, overrides: Record<string, unknown> = {}) => ({
+  userId,
+  type: 'carbs',
+  grams: 45,
+  timestamp: Timestamp.now(),
+  note: '',
+  source: 'manual',
+  ...overrides,
+});
+
+describe('firestore.rules', () => {
+  before(async () => {
+    setLogLevel('error');
+    testEnv = await initializeTestEnvironment({
+      projectId: 'demo-glucose-dashboard',
+      firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+    });
+  });
+
+  after(async () => {
+    await testEnv.cleanup();
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+  });
+
+  describe('users', () => {
+    it('lets users read and write their own document', async () => {
+      await seed(`users/${OWNER}`, { glucoseUnit: 'mg/dL' });
+
+      await assertSucceeds(getDoc(doc(asUser(OWNER), `users/${OWNER}`)));
+      await assertSucceeds(setDoc(doc(asUser(OWNER), `users/${OWNER}`), { glucoseUnit: 'mmol/L' }, { merge: true }));
+    });
+
+    it("denies access to another user's document", async () => {
+      await seed(`users/${OWNER}`, { glucoseUnit: 'mg/dL' });
+
+      await assertFails(getDoc(doc(asUser(OTHER), `users/${OWNER}`)));
+      await assertFails(setDoc(doc(asUser(OTHER), `users/${OWNER}`), { glucoseUnit: 'mmol/L' }));
+    });
+
+    it('denies signed-out access', async () => {
+      await seed(`users/${OWNER}`, { glucoseUnit: 'mg/dL' });
+
+      await assertFails(getDoc(doc(asGuest(), `users/${OWNER}`)));
+    });
+  });
+
+  describe('Dexcom data', () => {
+    for (const name of OWNER_READABLE_DEXCOM_COLLECTIONS) {
+      describe(name, () => {
+        it('lets users read their own records', async () => {
+          await seed(`${name}/${OWNER}_1`, glucoseReading(OWNER));
+
+          await assertSucceeds(getDoc(doc(asUser(OWNER), `${name}/${OWNER}_1`)));
+          await assertSucceeds(getDocs(query(collection(asUser(OWNER), name), where('userId', '==', OWNER))));
+        });
+
+        it("denies reading another user's records", async () => {
+          await seed(`${name}/${OWNER}_1`, glucoseReading(OWNER));
+
+          await assertFails(getDoc(doc(asUser(OTHER), `${name}/${OWNER}_1`)));
+          await assertFails(getDoc(doc(asGuest(), `${name}/${OWNER}_1`)));
+          await assertFails(getDocs(collection(asUser(OTHER), name)));
+        });
+
+        it('denies all client writes, including to own records', async () => {
+          await seed(`${name}/${OWNER}_1`, glucoseReading(OWNER));
+
+          await assertFails(setDoc(doc(asUser(OWNER), `${name}/${OWNER}_2`), glucoseReading(OWNER)));
+          await assertFails(setDoc(doc(asUser(OWNER), `${name}/${OWNER}_1`), { value: 80 }, { merge: true }));
+          await assertFails(deleteDoc(doc(asUser(OWNER), `${name}/${OWNER}_1`)));
+        });
+      });
+    }
+
+    it('lets users read only their own backfill progress', async () => {
+      await seed(`dexcomBackfills/${OWNER}`, { userId: OWNER, status: 'running' });
+
+      await assertSucceeds(getDoc(doc(asUser(OWNER), `dexcomBackfills/${OWNER}`)));
+      await assertFails(getDoc(doc(asUser(OTHER), `dexcomBackfills/${OWNER}`)));
+      await assertFails(setDoc(doc(asUser(OWNER), `dexcomBackfills/${OWNER}`), { status: 'completed' }));
+    });
+  });
+
+  describe('server-only collections', () => {
+    for (const name of SERVER_ONLY_COLLECTIONS) {
+      it(`denies all client access to ${name}`, async () => {
+        await seed(`${name}/${OWNER}`, { userId: OWNER });
+
+        await assertFails(getDoc(doc(asUser(OWNER), `${name}/${OWNER}`)));
+        await assertFails(getDocs(collection(asUser(OWNER), name)));
+        await assertFails(setDoc(doc(asUser(OWNER), `${name}/${OWNER}`), { userId: OWNER }));
+        await assertFails(setDoc(doc(asUser(OWNER), `${name}/new`), { userId: OWNER }));
+        await assertFails(deleteDoc(doc(asUser(OWNER), `${name}/${OWNER}`)));
+      });
+    }
+  });
+
+  describe('fingerstickReadings', () => {
+    it('lets users create, read and delete their own readings', async () => {
+      const ref = doc(asUser(OWNER), `fingerstickReadings/${OWNER}_1700000000000`);
+
+      await assertSucceeds(setDoc(ref, fingerstick(OWNER)));
+      await assertSucceeds(getDoc(ref));
+      await assertSucceeds(deleteDoc(ref));
+    });
+
+    it('rejects readings filed under another user or outside the valid range', async () => {
+      await assertFails(setDoc(doc(asUser(OWNER), `fingerstickReadings/${OTHER}_1700000000000`), fingerstick(OWNER)));
+      await assertFails(setDoc(doc(asUser(OWNER), `fingerstickReadings/${OWNER}_1700000000000`), fingerstick(OTHER)));
+      await assertFails(setDoc(
+        doc(asUser(OWNER), `fingerstickReadings/${OWNER}_1700000000000`),
+        { ...fingerstick(OWNER), value: 1200 }
+      ));
+    });
+
+    it("denies reading another user's readings", async () => {
+      await seed(`fingerstickReadings/${OWNER}_1700000000000`, fingerstick(OWNER));
+
+      await assertFails(getDoc(doc(asUser(OTHER), `fingerstickReadings/${OWNER}_1700000000000`)));
+    });
+  });
+
+  describe('healthEvents', () => {
+    it('lets users log and read their own manual events', async () => {
+      const ref = doc(asUser(OWNER), 'healthEvents/event-1');
+
+      await assertSucceeds(setDoc(ref, healthEvent(OWNER)));
+      await assertSucceeds(getDoc(ref));
+    });
+
+    it('rejects invalid, foreign or Dexcom-sourced events', async () => {
+      await assertFails(setDoc(doc(asUser(OWNER), 'healthEvents/e1'), healthEvent(OTHER)));
+      await assertFails(setDoc(doc(asUser(OWNER), 'healthEvents/e2'), healthEvent(OWNER, { grams: 0 })));
+      await assertFails(setDoc(doc(asUser(OWNER), 'healthEvents/e3'), healthEvent(OWNER, { source: 'dexcom' })));
+      await assertFails(setDoc(doc(asUser(OWNER), 'healthEvents/e4'), healthEvent(OWNER, { note: 'x'.repeat(501) })));
+    });
+
+    it("denies reading or deleting another user's events", async () => {
+      await seed('healthEvents/event-1', healthEvent(OWNER));
+
+      await assertFails(getDoc(doc(asUser(OTHER), 'healthEvents/event-1')));
+      await assertFails(deleteDoc(doc(asUser(OTHER), 'healthEvents/event-1')));
+    });
+
+    it("denies overwriting or taking over another user's events", async () => {
+      await seed('healthEvents/event-1', healthEvent(OWNER));
+
+      await assertFails(setDoc(doc(asUser(OTHER), 'healthEvents/event-1'), healthEvent(OTHER)));
+      await assertFails(updateDoc(doc(asUser(OTHER), 'healthEvents/event-1'), { userId: OTHER }));
+      await assertFails(updateDoc(doc(asUser(OTHER), 'healthEvents/event-1'), { note: 'changed' }));
+    });
+
+    it('lets owners edit their events but not reassign them', async () => {
+      await seed('healthEvents/event-1', healthEvent(OWNER));
+
+      await assertSucceeds(updateDoc(doc(asUser(OWNER), 'healthEvents/event-1'), { note: 'changed' }));
+      await assertFails(updateDoc(doc(asUser(OWNER), 'healthEvents/event-1'), { userId: OTHER }));
+    });
+  });
+
+  it('denies access to collections without a rule', async () => {
+    await seed('unlisted/doc', { userId: OWNER });
+
+    await assertFails(getDoc(doc(asUser(OWNER), 'unlisted/doc')));
+    await assertFails(setDoc(doc(asUser(OWNER), 'unlisted/new'), { userId: OWNER }));
+  });
+});